@@ -0,0 +1,53 @@
+/**
+ * CLI Argument Helpers
+ */
+
+import { fromParisTime } from '../utils/date.js';
+
+/**
+ * Get value of a --key=value flag
+ */
+export function getFlag(args: string[], key: string): string | undefined {
+  const arg = args.find((a) => a.startsWith(`--${key}=`));
+  return arg?.slice(key.length + 3);
+}
+
+/**
+ * Check if a boolean --flag is present
+ */
+export function hasFlag(args: string[], key: string): boolean {
+  return args.includes(`--${key}`);
+}
+
+/**
+ * Get the first positional (non --flag) argument
+ */
+export function getPositional(args: string[]): string | undefined {
+  return args.find((a) => !a.startsWith('--'));
+}
+
+/**
+ * Parse a YYYY-MM-DD (or ISO) date flag
+ * A date-only value is the start of that day in Europe/Paris, or its last second
+ * with endOfDay, so an inclusive upper bound keeps the whole day
+ */
+export function getDateFlag(
+  args: string[],
+  key: string,
+  options: { endOfDay?: boolean } = {}
+): Date | undefined {
+  const value = getFlag(args, key);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const [hour, minute, second] = options.endOfDay ? [23, 59, 59] : [0, 0, 0];
+  const date = day
+    ? fromParisTime(Number(day[1]), Number(day[2]), Number(day[3]), hour, minute, second)
+    : new Date(value);
+  if (!date || isNaN(date.getTime())) {
+    throw new Error(`--${key} must be a date (YYYY-MM-DD)`);
+  }
+  return date;
+}
@@ -0,0 +1,104 @@
+/**
+ * Backfill CLI
+ *
+ * Crawls historical articles by date range, resuming interrupted jobs
+ *
+ * Usage:
+ *   npm run backfill -- zonebourse --since=2025-10-01 [--until=2025-12-31] [--section=economie] [--max-pages=50] [--restart]
+ *   npm run backfill -- feed <id|name> --since=2025-10-01 [--until=...] [--max-pages=50] [--restart]
+ *   npm run backfill -- status
+ */
+
+import { initDatabase, closeDatabase } from '../db/index.js';
+import { getSource, getBackfillJobs } from '../db/queries.js';
+import { backfillZoneBourse, backfillFeed, type BackfillOptions } from '../scraper/backfill.js';
+import type { ZoneBourseSection } from '../scraper/zonebourse.js';
+import { logger } from '../utils/logger.js';
+import { getDateFlag, getFlag, getPositional, hasFlag } from './args.js';
+
+const SECTIONS: ZoneBourseSection[] = ['economie', 'societes', 'all'];
+
+/**
+ * Parse options shared by every backfill target
+ */
+function parseBackfillOptions(args: string[]): BackfillOptions {
+  const since = getDateFlag(args, 'since');
+  if (!since) {
+    throw new Error('--since is required');
+  }
+
+  const maxPages = parseInt(getFlag(args, 'max-pages') ?? '50', 10);
+  if (isNaN(maxPages) || maxPages < 1) {
+    throw new Error('--max-pages must be a positive integer');
+  }
+
+  return {
+    since,
+    until: getDateFlag(args, 'until', { endOfDay: true }),
+    maxPages,
+    restart: hasFlag(args, 'restart'),
+  };
+}
+
+async function showStatus(): Promise<void> {
+  const jobs = await getBackfillJobs();
+
+  logger.info(`${jobs.length} backfill jobs:`);
+  for (const job of jobs) {
+    logger.info(
+      `  ${job.id} ${job.status} pages=${job.pagesProcessed} saved=${job.articlesSaved} next=${job.nextUrl ?? job.nextPage}${job.errorMessage ? ` error=${job.errorMessage}` : ''}`
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  try {
+    await initDatabase();
+
+    switch (command) {
+      case 'zonebourse': {
+        const section = (getFlag(args, 'section') ?? 'economie') as ZoneBourseSection;
+        if (!SECTIONS.includes(section)) {
+          throw new Error(`--section must be one of ${SECTIONS.join(', ')}`);
+        }
+        await backfillZoneBourse(section, parseBackfillOptions(args));
+        break;
+      }
+      case 'feed': {
+        const key = getPositional(args);
+        const source = key ? await getSource(key) : null;
+        if (!source) {
+          throw new Error(`Source not found: ${key ?? '(missing)'}`);
+        }
+        await backfillFeed(
+          {
+            name: source.name,
+            url: source.url,
+            source: source.source,
+            proxyUrl: source.proxyUrl,
+          },
+          parseBackfillOptions(args)
+        );
+        break;
+      }
+      case 'status':
+        await showStatus();
+        break;
+      default:
+        logger.info('Usage: npm run backfill -- <zonebourse|feed|status> [options]');
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error({ error }, 'Backfill command failed');
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main().catch((error: unknown) => {
+  logger.fatal({ error }, 'Backfill command failed');
+  process.exit(1);
+});
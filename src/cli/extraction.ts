@@ -0,0 +1,99 @@
+/**
+ * Extraction CLI
+ *
+ * Lists and requeues articles whose content extraction keeps failing,
+ * and lists URLs refused by robots.txt
+ *
+ * Usage:
+ *   npm run extraction -- list [--status=dead|retrying]
+ *   npm run extraction -- requeue <articleId> [<articleId> ...]
+ *   npm run extraction -- requeue --all
+ *   npm run extraction -- blocked [--limit=100]
+ */
+
+import { initDatabase, closeDatabase } from '../db/index.js';
+import {
+  getArticlesByExtractionStatus,
+  clearExtractionRetries,
+  getBlockedUrls,
+} from '../db/queries.js';
+import { logger } from '../utils/logger.js';
+import { getFlag, hasFlag } from './args.js';
+import type { ExtractionRetryStatus } from '../types/index.js';
+
+const STATUSES: ExtractionRetryStatus[] = ['dead', 'retrying'];
+
+async function listArticles(args: string[]): Promise<void> {
+  const status = (getFlag(args, 'status') ?? 'dead') as ExtractionRetryStatus;
+  if (!STATUSES.includes(status)) {
+    throw new Error(`--status must be one of ${STATUSES.join(', ')}`);
+  }
+
+  const entries = await getArticlesByExtractionStatus(status);
+
+  logger.info(`${entries.length} ${status} articles:`);
+  for (const { article, retry } of entries) {
+    const next = status === 'retrying' ? ` next=${retry.nextAttemptAt.toISOString()}` : '';
+    logger.info(
+      `  [${article.id}] attempts=${retry.attempts}${next} ${article.title.slice(0, 60)} ${article.url}${retry.lastError ? ` (${retry.lastError})` : ''}`
+    );
+  }
+}
+
+async function requeueArticles(args: string[]): Promise<void> {
+  const ids = hasFlag(args, 'all')
+    ? (await getArticlesByExtractionStatus('dead')).map(({ article }) => article.id)
+    : args.filter((a) => !a.startsWith('--'));
+
+  if (ids.length === 0) {
+    throw new Error('requeue requires article ids or --all');
+  }
+
+  // Clearing the retry state resets the attempt counter, the next run picks them up
+  const requeued = await clearExtractionRetries(ids);
+  logger.info({ requeued, requested: ids.length }, 'Articles requeued for extraction');
+}
+
+async function listBlocked(args: string[]): Promise<void> {
+  const limit = parseInt(getFlag(args, 'limit') ?? '100', 10);
+  const blocked = await getBlockedUrls(limit);
+
+  logger.info(`${blocked.length} URLs blocked by robots.txt:`);
+  for (const entry of blocked) {
+    const article = entry.articleId ? ` [${entry.articleId}]` : '';
+    logger.info(`  ${entry.blockedAt.toISOString()}${article} ${entry.url} (${entry.reason})`);
+  }
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  try {
+    await initDatabase();
+
+    switch (command) {
+      case 'list':
+        await listArticles(args);
+        break;
+      case 'requeue':
+        await requeueArticles(args);
+        break;
+      case 'blocked':
+        await listBlocked(args);
+        break;
+      default:
+        logger.info('Usage: npm run extraction -- <list|requeue|blocked> [options]');
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error({ error }, 'Extraction command failed');
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main().catch((error: unknown) => {
+  logger.fatal({ error }, 'Extraction command failed');
+  process.exit(1);
+});
@@ -0,0 +1,275 @@
+/**
+ * Keywords CLI
+ *
+ * Manages the filter keywords stored in the keywords table. Every change
+ * bumps the keyword set version; running processes reload the set on
+ * their next check
+ *
+ * Usage:
+ *   npm run keywords -- list [--category=companies|themes|terms]
+ *   npm run keywords -- add "<keyword rule>" --category=companies|themes|terms [--weight=2] [--disabled]
+ *   npm run keywords -- remove "<keyword>"
+ *   npm run keywords -- enable "<keyword>"
+ *   npm run keywords -- disable "<keyword>"
+ *   npm run keywords -- import <file.json>
+ *   npm run keywords -- history [--limit=20]
+ *   npm run keywords -- explain <articleId>  (keyword match of the last filter decision)
+ *
+ * Import files hold either { "companies": ["Mistral AI", ...], "themes": [...] }
+ * or [{ "keyword": "CoreWeave", "category": "companies", "weight": 2, "enabled": true }, ...];
+ * keywords already in the table are updated, the others are kept.
+ *
+ * Keywords may carry rule modifiers (see filter/keyword-rules.ts):
+ *   npm run keywords -- add '=Block +Square +"Jack Dorsey"' --category=companies
+ *   npm run keywords -- add 'fusion +logiciel -nucléaire ~8' --category=terms
+ * A rule is stored under its keyword: remove "Block", not the rule
+ */
+
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+import { initDatabase, closeDatabase } from '../db/index.js';
+import {
+  getKeyword,
+  getKeywords,
+  getKeywordVersions,
+  getArticleById,
+  getArticleMatches,
+  getProcessingHistory,
+  upsertKeywords,
+  setKeywordEnabled,
+  deleteKeyword,
+} from '../db/queries.js';
+import { loadKeywordSet } from '../filter/keyword-set.js';
+import {
+  KEYWORD_CATEGORIES,
+  toKeywordEntry,
+  type KeywordCategory,
+  type KeywordEntry,
+} from '../config/keywords.js';
+import { logger } from '../utils/logger.js';
+import { getFlag, getPositional, hasFlag } from './args.js';
+import type { KeywordRecord } from '../types/index.js';
+
+type KeywordInput = KeywordEntry & { enabled?: boolean };
+
+/**
+ * Validate a category name
+ */
+function parseCategory(value: unknown): KeywordCategory {
+  if (!KEYWORD_CATEGORIES.includes(value as KeywordCategory)) {
+    throw new Error(`Category must be one of: ${KEYWORD_CATEGORIES.join(', ')}`);
+  }
+  return value as KeywordCategory;
+}
+
+/**
+ * Validate an optional weight override
+ */
+function parseWeight(value: unknown): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const weight = typeof value === 'number' ? value : parseFloat(String(value));
+  if (isNaN(weight) || weight <= 0) {
+    throw new Error(`Weight must be a positive number: ${String(value)}`);
+  }
+  return weight;
+}
+
+/**
+ * Validate a keyword, with its rule modifiers if any
+ */
+function parseKeyword(value: unknown, category: KeywordCategory, weight?: number): KeywordEntry {
+  const source = typeof value === 'string' ? value.trim() : '';
+  if (!source) {
+    throw new Error(`Invalid keyword: ${JSON.stringify(value)}`);
+  }
+  return toKeywordEntry(source, category, weight);
+}
+
+/**
+ * Read the keywords of an import file (category lists or keyword entries)
+ */
+function parseKeywordFile(data: unknown): KeywordInput[] {
+  if (Array.isArray(data)) {
+    return data.map((item: Record<string, unknown>) => ({
+      ...parseKeyword(item.keyword, parseCategory(item.category), parseWeight(item.weight)),
+      enabled: item.enabled === undefined ? undefined : item.enabled === true,
+    }));
+  }
+
+  if (typeof data === 'object' && data !== null) {
+    return Object.entries(data).flatMap(([category, keywords]) => {
+      if (!Array.isArray(keywords)) {
+        throw new Error(`Keywords of ${category} must be a list`);
+      }
+      return keywords.map((keyword) => parseKeyword(keyword, parseCategory(category)));
+    });
+  }
+
+  throw new Error('Import file must hold a keyword list or an object of category lists');
+}
+
+/**
+ * Resolve the keyword named by the first positional argument
+ */
+async function requireKeyword(args: string[]): Promise<KeywordRecord> {
+  const key = getPositional(args);
+  if (!key) {
+    throw new Error('Missing keyword');
+  }
+
+  const keyword = await getKeyword(key);
+  if (!keyword) {
+    throw new Error(`Keyword not found: ${key}`);
+  }
+  return keyword;
+}
+
+async function listKeywords(args: string[]): Promise<void> {
+  const category = getFlag(args, 'category');
+  // Seeds the table on first use
+  const { version } = await loadKeywordSet();
+  const keywords = await getKeywords({
+    category: category === undefined ? undefined : parseCategory(category),
+  });
+
+  logger.info(`${keywords.length} keywords (set version ${version}):`);
+  for (const k of keywords) {
+    logger.info(
+      `  ${k.enabled ? '✓' : '✗'} [${k.category}] ${k.rule ?? k.keyword}${k.weight !== undefined ? ` (weight ${k.weight})` : ''} v${k.version}`
+    );
+  }
+}
+
+async function addKeyword(args: string[]): Promise<void> {
+  const category = parseCategory(getFlag(args, 'category'));
+  const entry = parseKeyword(getPositional(args), category, parseWeight(getFlag(args, 'weight')));
+
+  // Seeds the table first, so the keyword joins the defaults instead of replacing them
+  await loadKeywordSet();
+  const version = await upsertKeywords(
+    [{ ...entry, enabled: !hasFlag(args, 'disabled') }],
+    `add ${entry.keyword}`
+  );
+  logger.info({ ...entry, version }, 'Keyword added');
+}
+
+async function importKeywords(args: string[]): Promise<void> {
+  const file = getPositional(args);
+  if (!file) {
+    throw new Error('import requires a JSON file');
+  }
+
+  const keywords = parseKeywordFile(JSON.parse(await readFile(file, 'utf-8')));
+  if (keywords.length === 0) {
+    throw new Error(`No keywords in ${file}`);
+  }
+
+  // Seeds the table first, see addKeyword
+  await loadKeywordSet();
+  const version = await upsertKeywords(keywords, `import ${basename(file)}`);
+  logger.info({ file, keywords: keywords.length, version }, 'Keywords imported');
+}
+
+async function listHistory(args: string[]): Promise<void> {
+  const limit = parseInt(getFlag(args, 'limit') ?? '20', 10);
+  const versions = await getKeywordVersions(limit);
+
+  logger.info(`${versions.length} keyword set versions:`);
+  for (const v of versions) {
+    logger.info(`  v${v.version} ${v.createdAt.toISOString()} ${v.change}`);
+  }
+}
+
+async function explainMatch(args: string[]): Promise<void> {
+  const articleId = getPositional(args);
+  if (!articleId) {
+    throw new Error('explain requires an article id');
+  }
+
+  const article = await getArticleById(articleId);
+  if (!article) {
+    throw new Error(`Article not found: ${articleId}`);
+  }
+
+  logger.info(`${article.title} (${article.source}) ${article.url}`);
+  const match = (await getArticleMatches([articleId])).get(articleId);
+  if (!match) {
+    logger.info('  Not filtered yet');
+    return;
+  }
+
+  const decision = (await getProcessingHistory(articleId))
+    .filter((l) => l.stage === 'filtered')
+    .pop();
+  logger.info(
+    `  ${match.accepted ? 'Passed' : 'Rejected'} with score ${match.score}${match.decision ? ` [${match.decision}]` : ''} (keyword set v${match.keywordVersion}, ${match.matchedAt?.toISOString() ?? 'n/a'})${decision?.errorMessage ? `: ${decision.errorMessage}` : ''}`
+  );
+  if (match.ai) {
+    logger.info(
+      `  AI: ${match.ai.relevant ? 'relevant' : 'not relevant'} (confidence ${match.ai.confidence}, ${match.ai.tokensUsed} tokens) ${match.ai.reason}`
+    );
+  }
+  logger.info(`  Title:   ${match.titleMatches.join(', ') || '-'}`);
+  logger.info(`  Content: ${match.contentMatches.join(', ') || '-'}`);
+  logger.info(`  Categories: ${match.categories.join(', ') || '-'}`);
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  try {
+    await initDatabase();
+
+    switch (command) {
+      case 'list':
+        await listKeywords(args);
+        break;
+      case 'add':
+        await addKeyword(args);
+        break;
+      case 'remove': {
+        const keyword = await requireKeyword(args);
+        const version = await deleteKeyword(keyword.id, `remove ${keyword.keyword}`);
+        logger.info({ keyword: keyword.keyword, version }, 'Keyword removed');
+        break;
+      }
+      case 'enable':
+      case 'disable': {
+        const keyword = await requireKeyword(args);
+        const version = await setKeywordEnabled(
+          keyword.id,
+          command === 'enable',
+          `${command} ${keyword.keyword}`
+        );
+        logger.info({ keyword: keyword.keyword, version }, `Keyword ${command}d`);
+        break;
+      }
+      case 'import':
+        await importKeywords(args);
+        break;
+      case 'history':
+        await listHistory(args);
+        break;
+      case 'explain':
+        await explainMatch(args);
+        break;
+      default:
+        logger.info(
+          'Usage: npm run keywords -- <list|add|remove|enable|disable|import|history|explain> [options]'
+        );
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error({ error }, 'Keywords command failed');
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main().catch((error: unknown) => {
+  logger.fatal({ error }, 'Keywords command failed');
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+/**
+ * Snapshots CLI
+ *
+ * Inspects the page snapshots stored by content extraction and replays
+ * extraction against them offline, without requesting the site again
+ *
+ * Usage:
+ *   npm run snapshots -- list <articleId>
+ *   npm run snapshots -- extract <snapshotId> [--url=<url>] [--full]
+ *   npm run snapshots -- extract --file=page.html --url=<url> [--full]
+ *   npm run snapshots -- save <snapshotId> --out=page.html
+ *   npm run snapshots -- prune [--days=30]
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { initDatabase, closeDatabase } from '../db/index.js';
+import { getPageSnapshots, getPageSnapshot } from '../db/queries.js';
+import { extractPageContent, hasEnoughContent } from '../scraper/content-extractor.js';
+import { getExtractionRule } from '../scraper/html-extractor.js';
+import { decompressHtml, hashHtml, pruneSnapshots } from '../scraper/snapshots.js';
+import { logger } from '../utils/logger.js';
+import { getFlag, getPositional, hasFlag } from './args.js';
+
+/** Content preview length, unless --full */
+const PREVIEW_LENGTH = 1000;
+
+/**
+ * Load the HTML of the snapshot named by the first positional argument
+ */
+async function loadSnapshotHtml(args: string[]): Promise<{ html: string; url: string }> {
+  const id = parseInt(getPositional(args) ?? '', 10);
+  if (isNaN(id)) {
+    throw new Error('Missing snapshot id');
+  }
+
+  const stored = await getPageSnapshot(id);
+  if (!stored) {
+    throw new Error(`Snapshot not found: ${id}`);
+  }
+
+  const html = decompressHtml(stored.html);
+  if (hashHtml(html) !== stored.snapshot.contentHash) {
+    logger.warn({ id }, 'Snapshot HTML does not match its content hash');
+  }
+  return { html, url: stored.snapshot.finalUrl };
+}
+
+async function listSnapshots(args: string[]): Promise<void> {
+  const articleId = getPositional(args);
+  if (!articleId) {
+    throw new Error('Missing article id');
+  }
+
+  const snapshots = await getPageSnapshots(articleId);
+
+  logger.info(`${snapshots.length} snapshots of ${articleId}:`);
+  for (const s of snapshots) {
+    const status = s.succeeded ? 'ok' : `failed${s.errorMessage ? ` (${s.errorMessage})` : ''}`;
+    const screenshot = s.screenshotPath ? ` screenshot=${s.screenshotPath}` : '';
+    logger.info(
+      `  #${s.id} ${s.fetchedAt.toISOString()} ${s.extractor} ${s.statusCode ?? '-'} ${s.htmlSize}B content=${s.contentLength} hash=${s.contentHash.slice(0, 12)} ${status}${screenshot}`
+    );
+  }
+}
+
+/**
+ * Re-run content extraction on stored or local HTML with the current rules
+ */
+async function extractSnapshot(args: string[]): Promise<void> {
+  const file = getFlag(args, 'file');
+  let html: string;
+  let url: string | undefined = getFlag(args, 'url');
+
+  if (file) {
+    if (!url) {
+      throw new Error('--file requires --url (selects the extraction rule)');
+    }
+    html = await readFile(file, 'utf8');
+  } else {
+    const snapshot = await loadSnapshotHtml(args);
+    html = snapshot.html;
+    url ??= snapshot.url;
+  }
+
+  const rule = getExtractionRule(url);
+  const page = extractPageContent(html, url, rule);
+  const preview = hasFlag(args, 'full') ? page.content : page.content.slice(0, PREVIEW_LENGTH);
+
+  logger.info(
+    {
+      url,
+      rule,
+      contentLength: page.content.length,
+      enoughContent: hasEnoughContent(page, rule),
+      canonicalUrl: page.canonicalUrl,
+      metadata: page.metadata,
+    },
+    'Extraction replayed'
+  );
+  logger.info(`\n${preview}`);
+}
+
+async function saveSnapshot(args: string[]): Promise<void> {
+  const out = getFlag(args, 'out');
+  if (!out) {
+    throw new Error('save requires --out=<file>');
+  }
+
+  const { html } = await loadSnapshotHtml(args);
+  await writeFile(out, html, 'utf8');
+  logger.info({ out, size: html.length }, 'Snapshot HTML written');
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  try {
+    await initDatabase();
+
+    switch (command) {
+      case 'list':
+        await listSnapshots(args);
+        break;
+      case 'extract':
+        await extractSnapshot(args);
+        break;
+      case 'save':
+        await saveSnapshot(args);
+        break;
+      case 'prune': {
+        const days = getFlag(args, 'days');
+        await pruneSnapshots(days ? parseInt(days, 10) : undefined);
+        break;
+      }
+      default:
+        logger.info('Usage: npm run snapshots -- <list|extract|save|prune> [options]');
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    logger.error({ error }, 'Snapshots command failed');
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+main().catch((error: unknown) => {
+  logger.fatal({ error }, 'Snapshots command failed');
+  process.exit(1);
+});
@@ -0,0 +1,120 @@
+/**
+ * Story Clusterer
+ *
+ * Groups near-duplicate articles (same story from several sources) into
+ * story clusters. The first article seen of a story is its primary: only the
+ * primary is summarised and pushed, the others are listed as "also reported by".
+ */
+
+import { config } from '../config/index.js';
+import { getStoryClustersSince, saveStoryCluster } from '../db/queries.js';
+import { logger } from '../utils/logger.js';
+import { computeSignature, estimateSimilarity } from './minhash.js';
+import type { Article, StoryClusterEntry } from '../types/index.js';
+
+/**
+ * Clustering result
+ */
+export interface ClusterResult {
+  processed: number;
+  newStories: number;
+  duplicates: number;
+  /** Primaries of existing stories that gained duplicates */
+  updatedClusters: string[];
+}
+
+/**
+ * Text a story is recognised by
+ */
+function getStoryText(article: Article): string {
+  return `${article.title}\n${article.content}`;
+}
+
+/**
+ * Find the most similar clustered article published within the window
+ */
+function findClosest(
+  signature: number[],
+  publishedAt: Date,
+  candidates: StoryClusterEntry[]
+): { entry: StoryClusterEntry; similarity: number } | null {
+  const windowMs = config.clustering.windowHours * 60 * 60 * 1000;
+  let best: { entry: StoryClusterEntry; similarity: number } | null = null;
+
+  for (const entry of candidates) {
+    if (Math.abs(entry.publishedAt.getTime() - publishedAt.getTime()) > windowMs) {
+      continue;
+    }
+    const similarity = estimateSimilarity(signature, entry.signature);
+    if (
+      similarity >= config.clustering.similarityThreshold &&
+      similarity > (best?.similarity ?? 0)
+    ) {
+      best = { entry, similarity };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Assign articles to story clusters
+ * Articles are compared with the clustered articles of the surrounding window
+ * and with each other, oldest first
+ */
+export async function clusterArticles(articles: Article[]): Promise<ClusterResult> {
+  const result: ClusterResult = { processed: 0, newStories: 0, duplicates: 0, updatedClusters: [] };
+  if (articles.length === 0) {
+    return result;
+  }
+
+  const sorted = [...articles].sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  const windowMs = config.clustering.windowHours * 60 * 60 * 1000;
+  const since = new Date(sorted[0]!.publishedAt.getTime() - windowMs);
+
+  const candidates = await getStoryClustersSince(since);
+  const existingIds = new Set(candidates.map((entry) => entry.articleId));
+  const updatedClusters = new Set<string>();
+
+  for (const article of sorted) {
+    const signature = computeSignature(getStoryText(article), config.clustering);
+    const closest = findClosest(signature, article.publishedAt, candidates);
+
+    const entry: StoryClusterEntry = {
+      articleId: article.id,
+      clusterId: closest?.entry.clusterId ?? article.id,
+      signature,
+      similarity: closest?.similarity,
+      publishedAt: article.publishedAt,
+    };
+    await saveStoryCluster(entry);
+    candidates.push(entry);
+    result.processed++;
+
+    if (closest) {
+      result.duplicates++;
+      if (existingIds.has(entry.clusterId)) {
+        updatedClusters.add(entry.clusterId);
+      }
+      logger.debug(
+        { articleId: article.id, clusterId: entry.clusterId, similarity: closest.similarity },
+        'Article joined an existing story'
+      );
+    } else {
+      result.newStories++;
+    }
+  }
+
+  result.updatedClusters = [...updatedClusters];
+
+  logger.info(
+    {
+      processed: result.processed,
+      newStories: result.newStories,
+      duplicates: result.duplicates,
+    },
+    'Story clustering complete'
+  );
+
+  return result;
+}
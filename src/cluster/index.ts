@@ -0,0 +1,15 @@
+/**
+ * Cluster Module
+ *
+ * Near-duplicate detection and story clustering
+ */
+
+export { clusterArticles, type ClusterResult } from './clusterer.js';
+
+export {
+  computeSignature,
+  estimateSimilarity,
+  normalizeWords,
+  getShingles,
+  type SignatureOptions,
+} from './minhash.js';
@@ -0,0 +1,126 @@
+/**
+ * MinHash Signatures
+ *
+ * Estimates the Jaccard similarity of two texts from fixed-size signatures
+ * computed over word shingles of their normalised form
+ */
+
+/**
+ * Words kept per text, so a full article and its RSS teaser stay comparable
+ */
+const MAX_WORDS = 400;
+
+export interface SignatureOptions {
+  shingleSize: number;
+  signatureSize: number;
+}
+
+/**
+ * Lowercase, strip accents and punctuation, split into words
+ */
+export function normalizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Overlapping word n-grams; a text shorter than n is a single shingle
+ */
+export function getShingles(words: string[], size: number): Set<string> {
+  const shingles = new Set<string>();
+  if (words.length === 0) {
+    return shingles;
+  }
+  if (words.length <= size) {
+    shingles.add(words.join(' '));
+    return shingles;
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(' '));
+  }
+  return shingles;
+}
+
+/**
+ * 32-bit FNV-1a
+ */
+function fnv1a(str: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+}
+
+/**
+ * Murmur3 finalizer, turns one base hash into independent-looking hashes per seed
+ */
+function mix32(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h | 0;
+}
+
+const seedCache = new Map<number, number[]>();
+
+function getSeeds(count: number): number[] {
+  let seeds = seedCache.get(count);
+  if (!seeds) {
+    seeds = Array.from({ length: count }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)));
+    seedCache.set(count, seeds);
+  }
+  return seeds;
+}
+
+/**
+ * Compute the MinHash signature of a text
+ * Values are signed 32-bit integers (stored as INTEGER[]); empty text gives an empty signature
+ */
+export function computeSignature(text: string, options: SignatureOptions): number[] {
+  const words = normalizeWords(text).slice(0, MAX_WORDS);
+  const shingles = getShingles(words, options.shingleSize);
+  if (shingles.size === 0) {
+    return [];
+  }
+
+  const seeds = getSeeds(options.signatureSize);
+  const signature = new Array<number>(seeds.length).fill(0x7fffffff);
+
+  for (const shingle of shingles) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < seeds.length; i++) {
+      const value = mix32(base ^ seeds[i]!);
+      if (value < signature[i]!) {
+        signature[i] = value;
+      }
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity: share of signature slots that agree
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      equal++;
+    }
+  }
+  return equal / a.length;
+}
@@ -0,0 +1,59 @@
+/**
+ * Story Clustering Test Script
+ *
+ * Checks that MinHash signatures group the same story reported by
+ * two sources and keep distinct stories apart (offline, no database)
+ *
+ * Run with: npx tsx src/cluster/test-cluster.ts
+ */
+
+import assert from 'assert/strict';
+import { config } from '../config/index.js';
+import { computeSignature, estimateSimilarity } from './minhash.js';
+import { logger } from '../utils/logger.js';
+
+const DISPATCH =
+  "Le fabricant de puces NVIDIA a publié mercredi soir un chiffre d'affaires trimestriel record de 35,1 milliards de dollars, en hausse de 94% sur un an. La division centres de données, portée par la demande en processeurs graphiques pour l'intelligence artificielle, représente désormais près de 88% des ventes du groupe. Pour le trimestre en cours, la direction anticipe des revenus d'environ 37,5 milliards de dollars, au-dessus du consensus.";
+
+// Same dispatch, another title, source credit and a trailing sentence
+const SAME_STORY = `NVIDIA : des résultats trimestriels record\n(CercleFinance.com) - ${DISPATCH} Le titre cédait 2% après-Bourse.`;
+const OTHER_SOURCE = `Nvidia pulvérise encore les attentes\n${DISPATCH.replace('mercredi soir', 'mercredi')}`;
+
+const UNRELATED =
+  "ASML relève ses prévisions\nASML a relevé mercredi ses prévisions de chiffre d'affaires pour l'exercice 2026, porté par la demande en machines de lithographie EUV destinées aux puces d'intelligence artificielle. Le groupe néerlandais table désormais sur des ventes comprises entre 33 et 35 milliards d'euros.";
+
+function testClustering(): void {
+  logger.info('Starting story clustering test');
+
+  const a = computeSignature(SAME_STORY, config.clustering);
+  const b = computeSignature(OTHER_SOURCE, config.clustering);
+  const c = computeSignature(UNRELATED, config.clustering);
+
+  assert.equal(a.length, config.clustering.signatureSize);
+  assert.deepEqual(a, computeSignature(SAME_STORY, config.clustering), 'Signature not stable');
+
+  const duplicate = estimateSimilarity(a, b);
+  const distinct = estimateSimilarity(a, c);
+  logger.info({ duplicate, distinct }, 'Estimated similarities');
+
+  assert.ok(duplicate >= config.clustering.similarityThreshold, 'Same story not clustered');
+  assert.ok(distinct < config.clustering.similarityThreshold, 'Distinct stories clustered');
+
+  // Accents, case and punctuation do not change the signature
+  assert.deepEqual(
+    computeSignature('Hausse de l’Euro, à Paris !', config.clustering),
+    computeSignature('hausse de l euro a paris', config.clustering)
+  );
+
+  assert.deepEqual(computeSignature('  ', config.clustering), []);
+  assert.equal(estimateSimilarity([], []), 0);
+
+  logger.info('=== Story Clustering Test Complete ===');
+}
+
+try {
+  testClustering();
+} catch (error) {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+}
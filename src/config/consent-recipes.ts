@@ -0,0 +1,33 @@
+/**
+ * Cookie-consent recipes by domain
+ *
+ * Keys are registrable domains, a recipe also applies to their subdomains.
+ * Site recipes are tried before the default one, which covers the common
+ * consent platforms (Didomi, OneTrust, Axeptio, Quantcast, Cookiebot,
+ * Google Funding Choices). Add a recipe when a site uses its own banner.
+ */
+
+import type { ConsentRecipe } from '../types/index.js';
+
+export const DEFAULT_CONSENT_RECIPE: ConsentRecipe = {
+  acceptSelectors: [
+    '#didomi-notice-agree-button',
+    '#onetrust-accept-btn-handler',
+    '#axeptio_btn_acceptAll',
+    '.qc-cmp2-summary-buttons button[mode="primary"]',
+    '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',
+    '.fc-cta-consent',
+  ],
+  wallSelectors: [
+    '#didomi-popup',
+    '#onetrust-banner-sdk',
+    '#axeptio_overlay',
+    '.qc-cmp2-container',
+    '#CybotCookiebotDialog',
+    '.fc-consent-root',
+  ],
+};
+
+export const CONSENT_RECIPES: Record<string, ConsentRecipe> = {
+  // e.g. 'example.com': { acceptSelectors: ['#accept-all'], wallSelectors: ['.consent-wall'] },
+};
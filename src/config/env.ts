@@ -18,6 +18,50 @@ const envSchema = z.object({
   // Scraping
   SCRAPE_RATE_LIMIT_MS: z.coerce.number().default(2000),
   USER_AGENT: z.string().default('Mozilla/5.0 (compatible; TechNewsBot/1.0)'),
+  ROBOTS_USER_AGENT: z.string().min(1).default('TechNewsBot'),
+  BROWSER_STATE_DIR: z.string().default('./data/browser-state'),
+  SCRAPE_FALLBACK_STALE_HOURS: z.coerce.number().default(24),
+  ZONEBOURSE_FALLBACK_SECTIONS: z
+    .string()
+    .default('economie')
+    .transform((value) =>
+      value
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(z.enum(['economie', 'societes', 'all']))),
+  EXTRACT_CONCURRENCY: z.coerce.number().int().min(1).default(4),
+  EXTRACT_HOST_CONCURRENCY: z.coerce.number().int().min(1).default(2),
+  EXTRACT_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(5),
+  EXTRACT_RETRY_DELAY_MINUTES: z.coerce.number().min(0).default(30),
+  SNAPSHOTS_ENABLED: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
+  SCREENSHOT_DIR: z.string().optional(),
+  SNAPSHOT_DIR: z.string().optional(), // former name of SCREENSHOT_DIR
+  SNAPSHOT_RETENTION_DAYS: z.coerce.number().int().min(1).default(30),
+  NEWSLETTER_MAILBOX: z.string().optional(), // imaps:// URL, mbox file or Maildir directory
+  NEWSLETTER_SOURCE: z
+    .string()
+    .regex(/^[a-z0-9-]+$/)
+    .default('newsletter'),
+  NEWSLETTER_SENDERS: z
+    .string()
+    .default('')
+    .transform((value) =>
+      value
+        .split(',')
+        .map((s) => s.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  NEWSLETTER_MAX_AGE_DAYS: z.coerce.number().int().min(1).default(7),
+  SOURCE_STALE_HOURS: z.coerce.number().int().min(1).default(48),
+  SOURCE_FAILING_HOURS: z.coerce.number().int().min(1).default(12),
+  SOURCE_HEALTH_WINDOW_RUNS: z.coerce.number().int().min(1).default(20),
+  CLUSTER_SIMILARITY_THRESHOLD: z.coerce.number().min(0).max(1).default(0.5),
+  CLUSTER_WINDOW_HOURS: z.coerce.number().min(1).default(72),
 
   // Database (PostgreSQL)
   DATABASE_URL: z.string().min(1, 'DATABASE_URL is required'),
@@ -0,0 +1,33 @@
+/**
+ * Content extraction rules by domain
+ *
+ * Keys are registrable domains, a rule also applies to their subdomains
+ * (www.abcbourse.com uses 'abcbourse.com'). Sites without a rule use the
+ * generic extraction in scraper/html-extractor.ts.
+ */
+
+import type { ExtractionRule } from '../types/index.js';
+
+export const EXTRACTION_RULES: Record<string, ExtractionRule> = {
+  'abcbourse.com': {
+    contentSelector: '.newsContent',
+    removeSelectors: ['.lireaussi', '.disclaimer', '.tagsNews', '.shareNews'],
+    excludeParagraphs: [
+      /^(lire aussi|à lire également)\b/i,
+      /^copyright\b/i,
+      /ne constitue(nt)? (pas|en aucun cas) un conseil/i,
+    ],
+  },
+
+  'zonebourse.com': {
+    contentSelector: '.article-text',
+    removeSelectors: ['.article-related', '.article-tags', '[class*="newsletter"]', '.c-paywall'],
+    excludeParagraphs: [
+      /^(lire aussi|à lire aussi)\b/i,
+      /^(copyright|©)/i,
+      /tous droits réservés/i,
+      /^(traduit|rédigé) par\b/i,
+    ],
+    minParagraphLength: 20,
+  },
+};
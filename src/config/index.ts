@@ -4,6 +4,8 @@
 
 import { env } from './env.js';
 import { TECH_KEYWORDS } from './keywords.js';
+import { EXTRACTION_RULES } from './extraction-rules.js';
+import { CONSENT_RECIPES, DEFAULT_CONSENT_RECIPE } from './consent-recipes.js';
 
 export const config = {
   app: {
@@ -27,8 +29,66 @@ export const config = {
     rateLimitMs: env.SCRAPE_RATE_LIMIT_MS,
     userAgent: env.USER_AGENT,
     timeout: 30000,
+    // robots.txt rules are looked up for this product token, cached per origin
+    robots: {
+      userAgent: env.ROBOTS_USER_AGENT,
+      cacheTtlMs: 24 * 60 * 60 * 1000,
+    },
     zoneBourseUrl: 'https://www.zonebourse.com/actualite-bourse/',
     zoneBourseEconomieUrl: 'https://www.zonebourse.com/actualite-bourse/economie/',
+    fallback: {
+      // Run Zone Bourse when RSS sources produced nothing new for this long
+      staleAfterHours: env.SCRAPE_FALLBACK_STALE_HOURS,
+      zoneBourseSections: env.ZONEBOURSE_FALLBACK_SECTIONS,
+    },
+    // Content extraction rules by domain (subdomains included)
+    extractionRules: EXTRACTION_RULES,
+    // Cookie-consent click recipes by domain, tried before the default recipe
+    consentRecipes: CONSENT_RECIPES,
+    defaultConsentRecipe: DEFAULT_CONSENT_RECIPE,
+    // Browser cookies and local storage kept between runs, one file per proxy
+    browserStateDir: env.BROWSER_STATE_DIR,
+    // Articles extracted at once, and at once on the same host
+    extractionConcurrency: {
+      pages: env.EXTRACT_CONCURRENCY,
+      perHost: env.EXTRACT_HOST_CONCURRENCY,
+    },
+    // Backoff between extraction attempts of an article, dead-lettered after maxAttempts
+    extractionRetry: {
+      maxAttempts: env.EXTRACT_MAX_ATTEMPTS,
+      initialDelayMs: env.EXTRACT_RETRY_DELAY_MINUTES * 60 * 1000,
+      maxDelayMs: 24 * 60 * 60 * 1000,
+      factor: 2,
+    },
+    // Gzipped HTML of every extraction attempt, screenshots of failed browser extractions
+    snapshots: {
+      enabled: env.SNAPSHOTS_ENABLED,
+      screenshotDir: env.SCREENSHOT_DIR ?? env.SNAPSHOT_DIR ?? './data/screenshots',
+      retentionDays: env.SNAPSHOT_RETENTION_DAYS,
+    },
+    // Newsletters received by email, one article per linked item (disabled without a mailbox)
+    newsletters: {
+      mailbox: env.NEWSLETTER_MAILBOX,
+      source: env.NEWSLETTER_SOURCE,
+      senders: env.NEWSLETTER_SENDERS,
+      maxAgeDays: env.NEWSLETTER_MAX_AGE_DAYS,
+    },
+    // Per-source alerts, thresholds overridable per catalogue source
+    health: {
+      staleAfterHours: env.SOURCE_STALE_HOURS,
+      failingAfterHours: env.SOURCE_FAILING_HOURS,
+      // Runs covered by error rates and averages
+      windowRuns: env.SOURCE_HEALTH_WINDOW_RUNS,
+      extractionWindowDays: 7,
+    },
+  },
+
+  // Near-duplicate detection (MinHash over word shingles)
+  clustering: {
+    similarityThreshold: env.CLUSTER_SIMILARITY_THRESHOLD,
+    windowHours: env.CLUSTER_WINDOW_HOURS,
+    shingleSize: 3,
+    signatureSize: 64,
   },
 
   database: {
@@ -62,3 +122,5 @@ export const config = {
 export type Config = typeof config;
 export { env } from './env.js';
 export { TECH_KEYWORDS } from './keywords.js';
+export { EXTRACTION_RULES } from './extraction-rules.js';
+export { CONSENT_RECIPES, DEFAULT_CONSENT_RECIPE } from './consent-recipes.js';
@@ -1,7 +1,14 @@
 /**
  * Tech keywords configuration for article filtering
+ *
+ * The filter reads its keywords from the keywords table, seeded with
+ * TECH_KEYWORDS on first use; DEFAULT_KEYWORD_SET is used without a database.
+ * Entries are keyword rules (see filter/keyword-rules.ts): ambiguous keywords
+ * carry case, co-occurrence and exclusion modifiers
  */
 
+import { hasRuleModifiers, parseKeywordRule } from '../filter/keyword-rules.js';
+
 export const TECH_KEYWORDS = {
   companies: [
     // US Big Tech
@@ -10,7 +17,7 @@ export const TECH_KEYWORDS = {
     'Google',
     'Alphabet',
     'Amazon',
-    'Meta',
+    '=Meta',
     'Facebook',
     'NVIDIA',
     'Tesla',
@@ -23,11 +30,11 @@ export const TECH_KEYWORDS = {
     'Broadcom',
     'TSMC',
     'ASML',
-    'ARM',
+    '=ARM',
 
     // Enterprise Tech
     'Salesforce',
-    'Oracle',
+    '=Oracle',
     'IBM',
     'SAP',
     'Adobe',
@@ -48,11 +55,11 @@ export const TECH_KEYWORDS = {
     'Uber',
     'Airbnb',
     'PayPal',
-    'Block',
-    'Square',
+    '=Block +Square +"Jack Dorsey" +"Cash App" +paiement +payments',
+    '=Square +Block +"Jack Dorsey" +paiement +payments',
     'Shopify',
-    'Zoom',
-    'Slack',
+    '=Zoom',
+    '=Slack',
     'Dropbox',
   ],
 
@@ -68,7 +75,7 @@ export const TECH_KEYWORDS = {
     'LLM',
 
     // Cloud & Infrastructure
-    'cloud',
+    'cloud -"Saint-Cloud" ~2',
     'AWS',
     'Azure',
     'data center',
@@ -106,7 +113,7 @@ export const TECH_KEYWORDS = {
     'SaaS',
     'logiciel',
     'software',
-    'application',
+    'application +mobile +smartphone +logiciel +iPhone +Android +"App Store" ~6',
   ],
 
   terms: [
@@ -138,10 +145,61 @@ export const TECH_KEYWORDS = {
     'tech layoffs',
     'IPO tech',
     'introduction en bourse',
-    'acquisition',
-    'fusion',
-    'merger',
+    'acquisition +tech +technologie +logiciel +startup +numérique +semi-conducteurs ~15',
+    'fusion +tech +technologie +logiciel +startup +numérique +semi-conducteurs -nucléaire ~15',
+    'merger +tech +technology +software +startup +semiconductor ~15',
   ],
 } as const;
 
 export type KeywordCategory = keyof typeof TECH_KEYWORDS;
+
+export const KEYWORD_CATEGORIES = Object.keys(TECH_KEYWORDS) as KeywordCategory[];
+
+/**
+ * Keyword matched by the filter
+ */
+export interface KeywordEntry {
+  keyword: string;
+  category: KeywordCategory;
+  /** Overrides the category weight of the filter config */
+  weight?: number;
+  /** Rule source when the keyword has modifiers ("=Block +Square") */
+  rule?: string;
+}
+
+/**
+ * Enabled keywords at a keyword set version
+ */
+export interface KeywordSet {
+  /** 0 for the built-in set */
+  version: number;
+  keywords: KeywordEntry[];
+}
+
+/**
+ * Build the entry of a keyword rule
+ */
+export function toKeywordEntry(
+  source: string,
+  category: KeywordCategory,
+  weight?: number
+): KeywordEntry {
+  const rule = parseKeywordRule(source);
+  return {
+    keyword: rule.keyword,
+    category,
+    weight,
+    rule: hasRuleModifiers(rule) ? source.trim() : undefined,
+  };
+}
+
+/**
+ * Keyword entries of TECH_KEYWORDS
+ */
+export function getDefaultKeywords(): KeywordEntry[] {
+  return KEYWORD_CATEGORIES.flatMap((category) =>
+    TECH_KEYWORDS[category].map((source) => toKeywordEntry(source, category))
+  );
+}
+
+export const DEFAULT_KEYWORD_SET: KeywordSet = { version: 0, keywords: getDefaultKeywords() };
@@ -8,6 +8,7 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { runMigrations } from './migrations.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -50,8 +51,9 @@ export async function initDatabase(): Promise<void> {
     throw error;
   }
 
-  // Initialize schema
+  // Initialize schema, then apply pending data migrations
   await initSchema();
+  await runMigrations();
 }
 
 /**
@@ -109,6 +111,24 @@ export async function getClient(): Promise<PoolClient> {
   return pool!.connect();
 }
 
+/**
+ * Run queries in a transaction, rolled back if fn throws
+ */
+export async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await getClient();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Close database connection pool
  */
@@ -0,0 +1,80 @@
+/**
+ * Data Migrations
+ *
+ * schema.sql only holds idempotent DDL and is re-run on every start.
+ * Changes to existing rows run here once, in order, and are recorded
+ * in the schema_migrations table.
+ */
+
+import { query, queryOne } from './index.js';
+import { generateArticleId, getArticleIdentities, mergeArticles } from './queries.js';
+import { canonicalizeUrl, getUrlIdentity } from '../utils/url.js';
+import { logger } from '../utils/logger.js';
+
+interface Migration {
+  name: string;
+  up: () => Promise<void>;
+}
+
+/**
+ * Re-key articles on their canonical URL and merge the duplicates
+ * Rows that were pushed to Notion, then summarised, then the oldest, are kept first;
+ * the kept row's URL is canonicalised, its scheme and port unchanged
+ */
+async function canonicalArticleIdentity(): Promise<void> {
+  const articles = await getArticleIdentities();
+
+  const groups = new Map<string, typeof articles>();
+  for (const article of articles) {
+    const identity = getUrlIdentity(article.url);
+    groups.set(identity, [...(groups.get(identity) ?? []), article]);
+  }
+
+  let rekeyed = 0;
+  let merged = 0;
+  for (const [identity, group] of groups) {
+    group.sort(
+      (a, b) =>
+        Number(b.synced) - Number(a.synced) ||
+        Number(b.summarized) - Number(a.summarized) ||
+        a.createdAt.getTime() - b.createdAt.getTime()
+    );
+
+    const id = generateArticleId(identity);
+    const url = canonicalizeUrl(group[0]!.url);
+    if (group.length === 1 && group[0]!.id === id && group[0]!.url === url) {
+      continue;
+    }
+
+    await mergeArticles(
+      group.map((a) => a.id),
+      { id, url }
+    );
+    rekeyed++;
+    merged += group.length - 1;
+  }
+
+  logger.info({ articles: articles.length, rekeyed, merged }, 'Articles re-keyed on canonical URL');
+}
+
+const MIGRATIONS: Migration[] = [
+  { name: '001-canonical-article-identity', up: canonicalArticleIdentity },
+];
+
+/**
+ * Apply pending migrations
+ */
+export async function runMigrations(): Promise<void> {
+  for (const migration of MIGRATIONS) {
+    const applied = await queryOne('SELECT 1 FROM schema_migrations WHERE name = $1', [
+      migration.name,
+    ]);
+    if (applied) {
+      continue;
+    }
+
+    logger.info({ migration: migration.name }, 'Applying migration');
+    await migration.up();
+    await query('INSERT INTO schema_migrations (name) VALUES ($1)', [migration.name]);
+  }
+}
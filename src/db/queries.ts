@@ -3,15 +3,35 @@
  */
 
 import crypto from 'crypto';
-import { query, queryOne } from './index.js';
+import { query, queryOne, withTransaction } from './index.js';
+import { getUrlIdentity } from '../utils/url.js';
+import type { KeywordCategory, KeywordEntry, KeywordSet } from '../config/keywords.js';
 import type {
   Article,
-  ArticleSource,
   ArticleSummary,
   ProcessingLog,
   ProcessingStage,
   ProcessingStatus,
   NotionSync,
+  BackfillJob,
+  BackfillStatus,
+  FeedState,
+  SourceRecord,
+  SourceType,
+  SourceRun,
+  SourceHealth,
+  SourceAlert,
+  SourceAlertKind,
+  KeywordRecord,
+  KeywordVersion,
+  ArticleMatch,
+  FilterDecisionPath,
+  ContentExtractor,
+  ExtractionRetry,
+  ExtractionRetryStatus,
+  StoryClusterEntry,
+  PageSnapshot,
+  ArticleMetadata,
 } from '../types/index.js';
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -19,11 +39,11 @@ import type {
 // ═══════════════════════════════════════════════════════════════════════════════
 
 /**
- * Generate article ID from title and date
+ * Generate article ID from its canonical URL
+ * Stable across tracking parameters, http/https variants and headline corrections
  */
-export function generateArticleId(title: string, publishedAt: Date): string {
-  const input = `${title.trim().toLowerCase()}${publishedAt.toISOString()}`;
-  return crypto.createHash('sha256').update(input).digest('hex').slice(0, 16);
+export function generateArticleId(url: string): string {
+  return crypto.createHash('sha256').update(getUrlIdentity(url)).digest('hex').slice(0, 16);
 }
 
 /**
@@ -42,32 +62,1083 @@ export async function articleExistsByUrl(url: string): Promise<boolean> {
   return row !== null;
 }
 
+/**
+ * Get the subset of URLs that already exist (single round trip)
+ */
+export async function getExistingArticleUrls(urls: string[]): Promise<Set<string>> {
+  if (urls.length === 0) {
+    return new Set();
+  }
+  const rows = await query<{ url: string }>('SELECT url FROM articles WHERE url = ANY($1)', [urls]);
+  return new Set(rows.map((r) => r.url));
+}
+
+/**
+ * Get when the most recent article from the given source tags was saved
+ */
+export async function getLastArticleCreatedAt(sources: string[]): Promise<Date | null> {
+  const row = await queryOne<{ last: Date | null }>(
+    'SELECT MAX(created_at) as last FROM articles WHERE source = ANY($1)',
+    [sources]
+  );
+  return row?.last ? new Date(row.last) : null;
+}
+
 /**
  * Insert a new article
  */
-export async function insertArticle(article: Omit<Article, 'createdAt'>): Promise<void> {
-  await query(
-    `INSERT INTO articles (id, title, url, content, published_at, source)
-     VALUES ($1, $2, $3, $4, $5, $6)`,
-    [article.id, article.title, article.url, article.content, article.publishedAt, article.source]
+export async function insertArticle(article: Omit<Article, 'createdAt'>): Promise<void> {
+  await query(
+    `INSERT INTO articles (id, title, url, content, published_at, published_at_unknown, source, metadata)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      article.id,
+      article.title,
+      article.url,
+      article.content,
+      article.publishedAt,
+      article.publishedAtUnknown ?? false,
+      article.source,
+      JSON.stringify(article.metadata ?? {}),
+    ]
+  );
+}
+
+/**
+ * Merge articles into the article with the given canonical identity
+ *
+ * The target row is created from the first source when it does not exist yet
+ * (unless a concurrent merge creates it first), so pass sources by preference.
+ * Processing history moves to the target; content, summary, keyword match and
+ * Notion sync are kept from the target, else taken from the first source that
+ * has one. Sources are deleted.
+ */
+export async function mergeArticles(
+  sourceIds: string[],
+  target: Pick<Article, 'id' | 'url'>
+): Promise<void> {
+  const fromIds = sourceIds.filter((id) => id !== target.id);
+  if (fromIds.length === 0) {
+    await query('UPDATE articles SET url = $2 WHERE id = $1', [target.id, target.url]);
+    return;
+  }
+
+  await withTransaction(async (client) => {
+    // url is UNIQUE: release the canonical URL if a source row holds it
+    await client.query(`UPDATE articles SET url = 'merged:' || id WHERE id = ANY($1)`, [fromIds]);
+
+    const existing = await client.query('SELECT 1 FROM articles WHERE id = $1', [target.id]);
+    if (existing.rowCount === 0) {
+      await client.query(
+        `INSERT INTO articles (id, title, url, content, published_at, published_at_unknown, source, created_at, content_extractor, metadata)
+         SELECT $1::text, title, $2::text, content, published_at, published_at_unknown, source, created_at, content_extractor, metadata
+         FROM articles WHERE id = $3
+         ON CONFLICT (id) DO NOTHING`,
+        [target.id, target.url, fromIds[0]]
+      );
+    } else {
+      await client.query('UPDATE articles SET url = $2 WHERE id = $1', [target.id, target.url]);
+    }
+
+    await client.query(
+      `UPDATE articles t SET content = s.content, content_extractor = s.content_extractor
+       FROM (
+         SELECT content, content_extractor FROM articles
+         WHERE id = ANY($2) AND content <> ''
+         ORDER BY array_position($2, id) LIMIT 1
+       ) s
+       WHERE t.id = $1 AND (t.content IS NULL OR t.content = '')`,
+      [target.id, fromIds]
+    );
+
+    await client.query('UPDATE processing_log SET article_id = $1 WHERE article_id = ANY($2)', [
+      target.id,
+      fromIds,
+    ]);
+    await client.query(
+      `INSERT INTO summaries (article_id, short_summary, detailed_summary, tokens_used, created_at)
+       SELECT $1::text, short_summary, detailed_summary, tokens_used, created_at FROM summaries
+       WHERE article_id = ANY($2)
+       ORDER BY array_position($2, article_id) LIMIT 1
+       ON CONFLICT (article_id) DO NOTHING`,
+      [target.id, fromIds]
+    );
+    // Filter decisions moved with processing_log: keep the keyword match they explain
+    await client.query(
+      `INSERT INTO article_matches (article_id, matched, score, keywords, categories, title_matches, content_matches, keyword_version, matched_at, decision, accepted, ai_relevant, ai_confidence, ai_reason, ai_tokens)
+       SELECT $1::text, matched, score, keywords, categories, title_matches, content_matches, keyword_version, matched_at, decision, accepted, ai_relevant, ai_confidence, ai_reason, ai_tokens
+       FROM article_matches
+       WHERE article_id = ANY($2)
+       ORDER BY array_position($2, article_id) LIMIT 1
+       ON CONFLICT (article_id) DO NOTHING`,
+      [target.id, fromIds]
+    );
+    await client.query(
+      `INSERT INTO notion_sync (article_id, notion_page_id, synced_at)
+       SELECT $1::text, notion_page_id, synced_at FROM notion_sync
+       WHERE article_id = ANY($2)
+       ORDER BY array_position($2, article_id) LIMIT 1
+       ON CONFLICT (article_id) DO NOTHING`,
+      [target.id, fromIds]
+    );
+
+    // Duplicates of a merged article now point to the target, which takes the first membership
+    await client.query('UPDATE story_clusters SET cluster_id = $1 WHERE cluster_id = ANY($2)', [
+      target.id,
+      fromIds,
+    ]);
+    await client.query(
+      `INSERT INTO story_clusters (article_id, cluster_id, signature, similarity, clustered_at)
+       SELECT $1::text, cluster_id, signature, similarity, clustered_at FROM story_clusters
+       WHERE article_id = ANY($2)
+       ORDER BY array_position($2, article_id) LIMIT 1
+       ON CONFLICT (article_id) DO NOTHING`,
+      [target.id, fromIds]
+    );
+
+    await client.query('UPDATE page_snapshots SET article_id = $1 WHERE article_id = ANY($2)', [
+      target.id,
+      fromIds,
+    ]);
+
+    // Remaining rows (retry state, extra summaries) go with their article
+    await client.query('DELETE FROM articles WHERE id = ANY($1)', [fromIds]);
+  });
+}
+
+/**
+ * Get the identity of every article, with what the pipeline already did for it
+ */
+export async function getArticleIdentities(): Promise<
+  Array<Pick<Article, 'id' | 'url' | 'createdAt'> & { synced: boolean; summarized: boolean }>
+> {
+  const rows = await query<{
+    id: string;
+    url: string;
+    created_at: Date;
+    synced: boolean;
+    summarized: boolean;
+  }>(
+    `SELECT a.id, a.url, a.created_at,
+       EXISTS (SELECT 1 FROM notion_sync n WHERE n.article_id = a.id) as synced,
+       EXISTS (SELECT 1 FROM summaries s WHERE s.article_id = a.id) as summarized
+     FROM articles a`
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    url: row.url,
+    createdAt: new Date(row.created_at),
+    synced: row.synced,
+    summarized: row.summarized,
+  }));
+}
+
+/**
+ * Update article content
+ * Page metadata fills in what the feed did not provide, and the page's
+ * publication date replaces an unknown one
+ */
+export async function updateArticleContent(
+  id: string,
+  content: string,
+  extractor?: ContentExtractor,
+  metadata: ArticleMetadata = {},
+  publishedAt?: Date
+): Promise<void> {
+  await query(
+    `UPDATE articles SET
+       content = $1,
+       content_extractor = $2,
+       metadata = $4::jsonb || metadata,
+       published_at = CASE WHEN published_at_unknown AND $5::timestamptz IS NOT NULL
+         THEN $5::timestamptz ELSE published_at END,
+       published_at_unknown = published_at_unknown AND $5::timestamptz IS NULL
+     WHERE id = $3`,
+    [content, extractor ?? null, id, JSON.stringify(metadata), publishedAt ?? null]
+  );
+}
+
+/**
+ * Get articles with empty content
+ * Skips dead-lettered articles and retries still in backoff, never-attempted articles come first
+ */
+export async function getArticlesWithEmptyContent(limit: number = 50): Promise<Article[]> {
+  const rows = await query<ArticleRow>(
+    `SELECT a.* FROM articles a
+     LEFT JOIN extraction_retries r ON r.article_id = a.id
+     WHERE (a.content IS NULL OR a.content = '')
+     AND (r.article_id IS NULL OR (r.status = 'retrying' AND r.next_attempt_at <= NOW()))
+     ORDER BY COALESCE(r.attempts, 0) ASC, a.published_at DESC
+     LIMIT $1`,
+    [limit]
+  );
+  return rows.map(mapArticleRow);
+}
+
+/**
+ * Get article by ID
+ */
+export async function getArticleById(id: string): Promise<Article | null> {
+  const row = await queryOne<ArticleRow>('SELECT * FROM articles WHERE id = $1', [id]);
+  return row ? mapArticleRow(row) : null;
+}
+
+/**
+ * Get articles by stage and status
+ */
+export async function getArticlesByStage(
+  stage: ProcessingStage,
+  status: ProcessingStatus = 'success'
+): Promise<Article[]> {
+  const rows = await query<ArticleRow>(
+    `SELECT DISTINCT a.* FROM articles a
+     INNER JOIN processing_log pl ON a.id = pl.article_id
+     WHERE pl.stage = $1 AND pl.status = $2
+     ORDER BY a.published_at DESC`,
+    [stage, status]
+  );
+  return rows.map(mapArticleRow);
+}
+
+/**
+ * Get articles that need processing at a specific stage
+ */
+export async function getArticlesNeedingProcessing(stage: ProcessingStage): Promise<Article[]> {
+  const previousStage = getPreviousStage(stage);
+
+  let rows: ArticleRow[];
+  if (previousStage) {
+    rows = await query<ArticleRow>(
+      `SELECT a.* FROM articles a
+       INNER JOIN processing_log pl ON a.id = pl.article_id
+       WHERE pl.stage = $1 AND pl.status = 'success'
+       AND a.id NOT IN (
+         SELECT article_id FROM processing_log WHERE stage = $2 AND article_id IS NOT NULL
+       )
+       ORDER BY a.published_at DESC`,
+      [previousStage, stage]
+    );
+  } else {
+    // For 'scraped' stage, get articles not in processing_log at all
+    rows = await query<ArticleRow>(
+      `SELECT a.* FROM articles a
+       WHERE a.id NOT IN (
+         SELECT DISTINCT article_id FROM processing_log WHERE article_id IS NOT NULL
+       )
+       ORDER BY a.published_at DESC`
+    );
+  }
+  return rows.map(mapArticleRow);
+}
+
+/**
+ * Get unsynced articles (summarized but not pushed to Notion)
+ */
+export async function getUnsyncedArticles(): Promise<Article[]> {
+  const rows = await query<ArticleRow>(
+    `SELECT a.* FROM articles a
+     INNER JOIN processing_log pl ON a.id = pl.article_id
+     WHERE pl.stage = 'summarized' AND pl.status = 'success'
+     AND a.id NOT IN (SELECT article_id FROM notion_sync)
+     ORDER BY a.published_at DESC`
+  );
+  return rows.map(mapArticleRow);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Source Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get sources from the catalogue
+ */
+export async function getSources(
+  options: { type?: SourceType; enabledOnly?: boolean } = {}
+): Promise<SourceRecord[]> {
+  const rows = await query<SourceRow>(
+    `SELECT * FROM sources
+     WHERE ($1::text IS NULL OR type = $1)
+     AND ($2::boolean = FALSE OR enabled = TRUE)
+     ORDER BY id ASC`,
+    [options.type ?? null, options.enabledOnly ?? false]
+  );
+  return rows.map(mapSourceRow);
+}
+
+/**
+ * Get a source by numeric ID or name
+ */
+export async function getSource(idOrName: string): Promise<SourceRecord | null> {
+  const row = /^\d+$/.test(idOrName)
+    ? await queryOne<SourceRow>('SELECT * FROM sources WHERE id = $1', [parseInt(idOrName, 10)])
+    : await queryOne<SourceRow>('SELECT * FROM sources WHERE name = $1', [idOrName]);
+  return row ? mapSourceRow(row) : null;
+}
+
+/**
+ * Insert a new source
+ */
+export async function insertSource(
+  source: Pick<SourceRecord, 'name' | 'url' | 'type' | 'source'> &
+    Partial<
+      Pick<
+        SourceRecord,
+        | 'enabled'
+        | 'maxArticles'
+        | 'jsRendered'
+        | 'proxyUrl'
+        | 'staleAfterHours'
+        | 'failingAfterHours'
+      >
+    >
+): Promise<SourceRecord> {
+  const row = await queryOne<SourceRow>(
+    `INSERT INTO sources (name, url, type, source, enabled, max_articles, js_rendered, proxy_url,
+       stale_after_hours, failing_after_hours)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING *`,
+    [
+      source.name,
+      source.url,
+      source.type,
+      source.source,
+      source.enabled ?? true,
+      source.maxArticles ?? 50,
+      source.jsRendered ?? false,
+      source.proxyUrl ?? null,
+      source.staleAfterHours ?? null,
+      source.failingAfterHours ?? null,
+    ]
+  );
+  return mapSourceRow(row!);
+}
+
+/**
+ * Enable or disable a source
+ */
+export async function setSourceEnabled(id: number, enabled: boolean): Promise<void> {
+  await query('UPDATE sources SET enabled = $1, updated_at = NOW() WHERE id = $2', [enabled, id]);
+}
+
+/**
+ * Set or clear the proxy of a source
+ */
+export async function setSourceProxy(id: number, proxyUrl: string | null): Promise<void> {
+  await query('UPDATE sources SET proxy_url = $1, updated_at = NOW() WHERE id = $2', [
+    proxyUrl,
+    id,
+  ]);
+}
+
+/**
+ * Set the health alert thresholds of a source (null: configured default)
+ */
+export async function setSourceThresholds(
+  id: number,
+  thresholds: { staleAfterHours: number | null; failingAfterHours: number | null }
+): Promise<void> {
+  await query(
+    `UPDATE sources SET stale_after_hours = $1, failing_after_hours = $2, updated_at = NOW()
+     WHERE id = $3`,
+    [thresholds.staleAfterHours, thresholds.failingAfterHours, id]
+  );
+}
+
+/**
+ * Delete a source from the catalogue
+ */
+export async function deleteSource(id: number): Promise<void> {
+  await query('DELETE FROM sources WHERE id = $1', [id]);
+}
+
+/**
+ * Get source tags whose article pages must be rendered in a browser
+ */
+export async function getJsRenderedSources(): Promise<Set<string>> {
+  const rows = await query<{ source: string }>(
+    'SELECT DISTINCT source FROM sources WHERE js_rendered = TRUE'
+  );
+  return new Set(rows.map((r) => r.source));
+}
+
+/**
+ * Get the proxy of each source tag that has one (first feed's, if several differ)
+ */
+export async function getSourceProxies(): Promise<Map<string, string>> {
+  const rows = await query<{ source: string; proxy_url: string }>(
+    `SELECT DISTINCT ON (source) source, proxy_url FROM sources
+     WHERE proxy_url IS NOT NULL
+     ORDER BY source, id`
+  );
+  return new Map(rows.map((r) => [r.source, r.proxy_url]));
+}
+
+/**
+ * Seed the catalogue once, recorded in schema_migrations
+ * A catalogue emptied later stays empty; one filled before the marker existed is kept as is
+ * Returns the number of sources inserted
+ */
+export async function seedSources(
+  sources: Array<Pick<SourceRecord, 'name' | 'url' | 'type' | 'source'>>
+): Promise<number> {
+  return withTransaction(async (client) => {
+    const marker = await client.query(
+      `INSERT INTO schema_migrations (name) VALUES ('seed-sources')
+       ON CONFLICT (name) DO NOTHING`
+    );
+    if (marker.rowCount === 0) {
+      return 0;
+    }
+
+    const existing = await client.query('SELECT 1 FROM sources LIMIT 1');
+    if ((existing.rowCount ?? 0) > 0) {
+      return 0;
+    }
+
+    let inserted = 0;
+    for (const source of sources) {
+      const { rowCount } = await client.query(
+        `INSERT INTO sources (name, url, type, source)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT DO NOTHING`,
+        [source.name, source.url, source.type, source.source]
+      );
+      inserted += rowCount ?? 0;
+    }
+    return inserted;
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Source Health Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Record the outcome of source runs
+ */
+export async function insertSourceRuns(runs: SourceRun[]): Promise<void> {
+  for (const run of runs) {
+    await query(
+      `INSERT INTO source_runs (name, source, items_found, new_articles, errors, failed,
+         error_message, duration_ms)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        run.name,
+        run.source,
+        run.itemsFound,
+        run.newArticles,
+        run.errors,
+        run.failed,
+        run.errorMessage ?? null,
+        run.durationMs ?? null,
+      ]
+    );
+  }
+}
+
+/**
+ * Get the health of every source that has run
+ * Rates and averages cover each source's latest `windowRuns` runs; extraction
+ * covers articles of its source tag created since `extractionSince` that
+ * needed extraction (extracted, or with a retry record)
+ */
+export async function getSourceHealth(options: {
+  windowRuns: number;
+  extractionSince: Date;
+}): Promise<SourceHealth[]> {
+  const rows = await query<SourceHealthRow>(
+    `WITH ranked AS (
+       SELECT *, ROW_NUMBER() OVER (PARTITION BY name ORDER BY ran_at DESC) AS rank
+       FROM source_runs
+     ),
+     runs AS (
+       SELECT
+         name,
+         MAX(source) FILTER (WHERE rank = 1) AS source,
+         MIN(ran_at) AS first_run_at,
+         MAX(ran_at) AS last_run_at,
+         MAX(ran_at) FILTER (WHERE NOT failed) AS last_success_at,
+         MAX(ran_at) FILTER (WHERE new_articles > 0) AS last_new_item_at,
+         BOOL_OR(failed) FILTER (WHERE rank = 1) AS last_failed,
+         MAX(error_message) FILTER (WHERE rank = 1) AS last_error,
+         COUNT(*) FILTER (WHERE rank <= $1) AS recent_runs,
+         COUNT(*) FILTER (WHERE rank <= $1 AND failed) AS recent_failures,
+         AVG(items_found) FILTER (WHERE rank <= $1) AS avg_items,
+         AVG(new_articles) FILTER (WHERE rank <= $1) AS avg_new_articles
+       FROM ranked
+       GROUP BY name
+     ),
+     extraction AS (
+       SELECT
+         a.source,
+         COUNT(*) AS attempts,
+         COUNT(*) FILTER (WHERE a.content_extractor IS NOT NULL) AS extracted
+       FROM articles a
+       LEFT JOIN extraction_retries r ON r.article_id = a.id
+       WHERE a.created_at >= $2
+       AND (a.content_extractor IS NOT NULL OR r.article_id IS NOT NULL)
+       GROUP BY a.source
+     )
+     SELECT runs.*, e.attempts AS extraction_attempts, e.extracted,
+       s.stale_after_hours, s.failing_after_hours
+     FROM runs
+     LEFT JOIN extraction e ON e.source = runs.source
+     LEFT JOIN sources s ON s.name = runs.name
+     ORDER BY runs.name`,
+    [options.windowRuns, options.extractionSince]
+  );
+  return rows.map(mapSourceHealthRow);
+}
+
+/**
+ * Get the open source alerts
+ */
+export async function getOpenSourceAlerts(): Promise<SourceAlert[]> {
+  const rows = await query<SourceAlertRow>(
+    'SELECT * FROM source_alerts WHERE resolved_at IS NULL ORDER BY raised_at ASC'
+  );
+  return rows.map(mapSourceAlertRow);
+}
+
+/**
+ * Open an alert, unless the same alert is already open
+ * Returns true when the alert was opened
+ */
+export async function openSourceAlert(alert: SourceAlert): Promise<boolean> {
+  const row = await queryOne<{ id: number }>(
+    `INSERT INTO source_alerts (name, source, kind, since, threshold_hours, message)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (name, kind) WHERE resolved_at IS NULL DO NOTHING
+     RETURNING id`,
+    [alert.name, alert.source, alert.kind, alert.since, alert.thresholdHours, alert.message]
+  );
+  return row !== null;
+}
+
+/**
+ * Resolve the open alert of a source
+ * Returns true when an alert was open
+ */
+export async function resolveSourceAlert(name: string, kind: SourceAlertKind): Promise<boolean> {
+  const rows = await query<{ id: number }>(
+    `UPDATE source_alerts SET resolved_at = NOW()
+     WHERE name = $1 AND kind = $2 AND resolved_at IS NULL
+     RETURNING id`,
+    [name, kind]
+  );
+  return rows.length > 0;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Keyword Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get keywords, by category then keyword
+ */
+export async function getKeywords(
+  options: { category?: KeywordCategory; enabledOnly?: boolean } = {}
+): Promise<KeywordRecord[]> {
+  const rows = await query<KeywordRow>(
+    `SELECT * FROM keywords
+     WHERE ($1::text IS NULL OR category = $1)
+     AND ($2::boolean = FALSE OR enabled = TRUE)
+     ORDER BY category, LOWER(keyword)`,
+    [options.category ?? null, options.enabledOnly ?? false]
+  );
+  return rows.map(mapKeywordRow);
+}
+
+/**
+ * Get a keyword (case-insensitive)
+ */
+export async function getKeyword(keyword: string): Promise<KeywordRecord | null> {
+  const row = await queryOne<KeywordRow>(
+    'SELECT * FROM keywords WHERE LOWER(keyword) = LOWER($1)',
+    [keyword]
+  );
+  return row ? mapKeywordRow(row) : null;
+}
+
+/**
+ * Get the current keyword set version (0 before the first change)
+ */
+export async function getKeywordSetVersion(): Promise<number> {
+  const row = await queryOne<{ version: number | null }>(
+    'SELECT MAX(version) AS version FROM keyword_versions'
+  );
+  return row?.version ?? 0;
+}
+
+/**
+ * Get the enabled keywords with the current set version
+ * Both are read from one snapshot, so the version always matches the keywords
+ */
+export async function getKeywordSet(): Promise<KeywordSet> {
+  const { version, keywords } = await withTransaction(async (client) => {
+    await client.query('SET TRANSACTION ISOLATION LEVEL REPEATABLE READ');
+    const versionResult = await client.query<{ version: number | null }>(
+      'SELECT MAX(version) AS version FROM keyword_versions'
+    );
+    const keywordResult = await client.query<KeywordRow>(
+      'SELECT * FROM keywords WHERE enabled = TRUE ORDER BY category, LOWER(keyword)'
+    );
+    return {
+      version: versionResult.rows[0]?.version ?? 0,
+      keywords: keywordResult.rows.map(mapKeywordRow),
+    };
+  });
+  return {
+    version,
+    keywords: keywords.map((k) => ({
+      keyword: k.keyword,
+      category: k.category,
+      weight: k.weight,
+      rule: k.rule,
+    })),
+  };
+}
+
+/**
+ * Get the latest keyword set changes, newest first
+ */
+export async function getKeywordVersions(limit = 20): Promise<KeywordVersion[]> {
+  const rows = await query<KeywordVersionRow>(
+    'SELECT * FROM keyword_versions ORDER BY version DESC LIMIT $1',
+    [limit]
+  );
+  return rows.map((r) => ({
+    version: r.version,
+    change: r.change,
+    createdAt: new Date(r.created_at),
+  }));
+}
+
+/**
+ * Add or update keywords (matched case-insensitively) as one keyword set change
+ * Returns the new set version
+ */
+export async function upsertKeywords(
+  entries: Array<KeywordEntry & { enabled?: boolean }>,
+  change: string
+): Promise<number> {
+  return withTransaction(async (client) => {
+    const { rows } = await client.query<{ version: number }>(
+      'INSERT INTO keyword_versions (change) VALUES ($1) RETURNING version',
+      [change]
+    );
+    const version = rows[0]!.version;
+
+    for (const entry of entries) {
+      await client.query(
+        `INSERT INTO keywords (keyword, category, weight, rule, enabled, version)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (LOWER(keyword)) DO UPDATE SET
+           keyword = EXCLUDED.keyword,
+           category = EXCLUDED.category,
+           weight = EXCLUDED.weight,
+           rule = EXCLUDED.rule,
+           enabled = EXCLUDED.enabled,
+           version = EXCLUDED.version,
+           updated_at = NOW()`,
+        [
+          entry.keyword,
+          entry.category,
+          entry.weight ?? null,
+          entry.rule ?? null,
+          entry.enabled ?? true,
+          version,
+        ]
+      );
+    }
+    return version;
+  });
+}
+
+/**
+ * Enable or disable a keyword
+ * Returns the new set version
+ */
+export async function setKeywordEnabled(
+  id: number,
+  enabled: boolean,
+  change: string
+): Promise<number> {
+  return withTransaction(async (client) => {
+    const { rows } = await client.query<{ version: number }>(
+      'INSERT INTO keyword_versions (change) VALUES ($1) RETURNING version',
+      [change]
+    );
+    const version = rows[0]!.version;
+    await client.query(
+      'UPDATE keywords SET enabled = $1, version = $2, updated_at = NOW() WHERE id = $3',
+      [enabled, version, id]
+    );
+    return version;
+  });
+}
+
+/**
+ * Delete a keyword
+ * Returns the new set version
+ */
+export async function deleteKeyword(id: number, change: string): Promise<number> {
+  return withTransaction(async (client) => {
+    const { rows } = await client.query<{ version: number }>(
+      'INSERT INTO keyword_versions (change) VALUES ($1) RETURNING version',
+      [change]
+    );
+    await client.query('DELETE FROM keywords WHERE id = $1', [id]);
+    return rows[0]!.version;
+  });
+}
+
+/**
+ * Seed the keywords when none were ever set
+ * Returns the number of keywords inserted
+ */
+export async function seedKeywords(entries: KeywordEntry[]): Promise<number> {
+  if ((await getKeywordSetVersion()) > 0) {
+    return 0;
+  }
+  await upsertKeywords(entries, 'seed TECH_KEYWORDS');
+  return entries.length;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Feed State Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get conditional fetch state for a feed URL
+ */
+export async function getFeedState(url: string): Promise<FeedState | null> {
+  const row = await queryOne<FeedStateRow>('SELECT * FROM feed_state WHERE url = $1', [url]);
+  return row ? mapFeedStateRow(row) : null;
+}
+
+/**
+ * Insert or update conditional fetch state for a feed URL
+ */
+export async function saveFeedState(state: Omit<FeedState, 'lastFetchedAt'>): Promise<void> {
+  await query(
+    `INSERT INTO feed_state (url, etag, last_modified, last_item_guid)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT(url) DO UPDATE SET
+       etag = EXCLUDED.etag,
+       last_modified = EXCLUDED.last_modified,
+       last_item_guid = EXCLUDED.last_item_guid,
+       last_fetched_at = NOW()`,
+    [state.url, state.etag ?? null, state.lastModified ?? null, state.lastItemGuid ?? null]
+  );
+}
+
+/**
+ * Record a fetch that returned no changes (304 or same newest item)
+ */
+export async function touchFeedState(url: string): Promise<void> {
+  await query('UPDATE feed_state SET last_fetched_at = NOW() WHERE url = $1', [url]);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Newsletter Link Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get the URLs newsletter links already resolved to, by link
+ */
+export async function getNewsletterLinks(links: string[]): Promise<Map<string, string>> {
+  if (links.length === 0) {
+    return new Map();
+  }
+  const rows = await query<{ link: string; url: string }>(
+    'SELECT link, url FROM newsletter_links WHERE link = ANY($1)',
+    [links]
+  );
+  return new Map(rows.map((r) => [r.link, r.url]));
+}
+
+/**
+ * Record the URL a newsletter link resolved to
+ */
+export async function saveNewsletterLink(link: string, url: string): Promise<void> {
+  await query(
+    `INSERT INTO newsletter_links (link, url) VALUES ($1, $2)
+     ON CONFLICT (link) DO NOTHING`,
+    [link, url]
+  );
+}
+
+/**
+ * Delete links resolved before a date, their messages are out of the read window
+ */
+export async function pruneNewsletterLinks(before: Date): Promise<number> {
+  const rows = await query<{ link: string }>(
+    'DELETE FROM newsletter_links WHERE resolved_at < $1 RETURNING link',
+    [before]
+  );
+  return rows.length;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Backfill Job Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get a backfill job by ID
+ */
+export async function getBackfillJob(id: string): Promise<BackfillJob | null> {
+  const row = await queryOne<BackfillJobRow>('SELECT * FROM backfill_jobs WHERE id = $1', [id]);
+  return row ? mapBackfillJobRow(row) : null;
+}
+
+/**
+ * Create a backfill job, or reset an existing one to its first page
+ */
+export async function startBackfillJob(
+  job: Pick<BackfillJob, 'id' | 'target' | 'since' | 'until'>
+): Promise<BackfillJob> {
+  const row = await queryOne<BackfillJobRow>(
+    `INSERT INTO backfill_jobs (id, target, since, until)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT(id) DO UPDATE SET
+       next_page = 1,
+       next_url = NULL,
+       pages_processed = 0,
+       articles_saved = 0,
+       status = 'in_progress',
+       error_message = NULL,
+       started_at = NOW(),
+       updated_at = NOW()
+     RETURNING *`,
+    [job.id, job.target, job.since, job.until ?? null]
+  );
+  return mapBackfillJobRow(row!);
+}
+
+/**
+ * Save a backfill checkpoint after a page has been processed
+ */
+export async function updateBackfillCheckpoint(
+  id: string,
+  checkpoint: { nextPage: number; nextUrl?: string; pagesProcessed: number; articlesSaved: number }
+): Promise<void> {
+  await query(
+    `UPDATE backfill_jobs SET
+       next_page = $2,
+       next_url = $3,
+       pages_processed = $4,
+       articles_saved = $5,
+       status = 'in_progress',
+       updated_at = NOW()
+     WHERE id = $1`,
+    [
+      id,
+      checkpoint.nextPage,
+      checkpoint.nextUrl ?? null,
+      checkpoint.pagesProcessed,
+      checkpoint.articlesSaved,
+    ]
+  );
+}
+
+/**
+ * Set the final status of a backfill job
+ */
+export async function setBackfillStatus(
+  id: string,
+  status: BackfillStatus,
+  errorMessage?: string
+): Promise<void> {
+  await query(
+    `UPDATE backfill_jobs SET status = $2, error_message = $3, updated_at = NOW()
+     WHERE id = $1`,
+    [id, status, errorMessage ?? null]
+  );
+}
+
+/**
+ * Get recent backfill jobs
+ */
+export async function getBackfillJobs(limit: number = 20): Promise<BackfillJob[]> {
+  const rows = await query<BackfillJobRow>(
+    'SELECT * FROM backfill_jobs ORDER BY updated_at DESC LIMIT $1',
+    [limit]
+  );
+  return rows.map(mapBackfillJobRow);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Extraction Retry Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get the extraction retry state of an article
+ */
+export async function getExtractionRetry(articleId: string): Promise<ExtractionRetry | null> {
+  const row = await queryOne<ExtractionRetryRow>(
+    'SELECT * FROM extraction_retries WHERE article_id = $1',
+    [articleId]
+  );
+  return row ? mapExtractionRetryRow(row) : null;
+}
+
+/**
+ * Save the extraction retry state of an article
+ */
+export async function saveExtractionRetry(
+  retry: Omit<ExtractionRetry, 'updatedAt'>
+): Promise<void> {
+  await query(
+    `INSERT INTO extraction_retries (article_id, attempts, status, next_attempt_at, last_error, updated_at)
+     VALUES ($1, $2, $3, $4, $5, NOW())
+     ON CONFLICT (article_id) DO UPDATE SET
+       attempts = EXCLUDED.attempts,
+       status = EXCLUDED.status,
+       next_attempt_at = EXCLUDED.next_attempt_at,
+       last_error = EXCLUDED.last_error,
+       updated_at = NOW()`,
+    [retry.articleId, retry.attempts, retry.status, retry.nextAttemptAt, retry.lastError ?? null]
+  );
+}
+
+/**
+ * Clear the extraction retry state of articles (after success, or to requeue them)
+ * Returns the number of articles cleared
+ */
+export async function clearExtractionRetries(articleIds: string[]): Promise<number> {
+  if (articleIds.length === 0) {
+    return 0;
+  }
+  const rows = await query<{ article_id: string }>(
+    'DELETE FROM extraction_retries WHERE article_id = ANY($1) RETURNING article_id',
+    [articleIds]
+  );
+  return rows.length;
+}
+
+/**
+ * Get articles whose extraction is in a given retry status, most recent failures first
+ */
+export async function getArticlesByExtractionStatus(
+  status: ExtractionRetryStatus
+): Promise<Array<{ article: Article; retry: ExtractionRetry }>> {
+  const rows = await query<ArticleRow & { retry_json: ExtractionRetryRow }>(
+    `SELECT a.*, row_to_json(r) as retry_json FROM articles a
+     INNER JOIN extraction_retries r ON r.article_id = a.id
+     WHERE r.status = $1
+     ORDER BY r.updated_at DESC`,
+    [status]
   );
+  return rows.map((row) => ({
+    article: mapArticleRow(row),
+    retry: mapExtractionRetryRow(row.retry_json),
+  }));
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// Page Snapshot Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/** page_snapshots columns without the html */
+const PAGE_SNAPSHOT_COLUMNS = `id, article_id, url, final_url, extractor, status_code, content_type,
+  content_hash, html_size, content_length, succeeded, error_message, screenshot_path, duration_ms,
+  fetched_at`;
+
 /**
- * Update article content
+ * Save the page fetched by an extraction attempt, html gzipped
  */
-export async function updateArticleContent(id: string, content: string): Promise<void> {
-  await query('UPDATE articles SET content = $1 WHERE id = $2', [content, id]);
+export async function savePageSnapshot(
+  snapshot: Omit<PageSnapshot, 'id' | 'fetchedAt'>,
+  html: Buffer
+): Promise<number> {
+  const row = await queryOne<{ id: number }>(
+    `INSERT INTO page_snapshots (
+       article_id, url, final_url, extractor, status_code, content_type, html, content_hash,
+       html_size, content_length, succeeded, error_message, screenshot_path, duration_ms
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+     RETURNING id`,
+    [
+      snapshot.articleId,
+      snapshot.url,
+      snapshot.finalUrl,
+      snapshot.extractor,
+      snapshot.statusCode ?? null,
+      snapshot.contentType ?? null,
+      html,
+      snapshot.contentHash,
+      snapshot.htmlSize,
+      snapshot.contentLength,
+      snapshot.succeeded,
+      snapshot.errorMessage ?? null,
+      snapshot.screenshotPath ?? null,
+      snapshot.durationMs ?? null,
+    ]
+  );
+  return row!.id;
 }
 
 /**
- * Get articles with empty content
+ * Get the snapshots of an article, newest first (without their html)
  */
-export async function getArticlesWithEmptyContent(limit: number = 50): Promise<Article[]> {
+export async function getPageSnapshots(articleId: string, limit = 20): Promise<PageSnapshot[]> {
+  const rows = await query<PageSnapshotRow>(
+    `SELECT ${PAGE_SNAPSHOT_COLUMNS} FROM page_snapshots
+     WHERE article_id = $1
+     ORDER BY fetched_at DESC
+     LIMIT $2`,
+    [articleId, limit]
+  );
+  return rows.map(mapPageSnapshotRow);
+}
+
+/**
+ * Get a snapshot and its gzipped html
+ */
+export async function getPageSnapshot(
+  id: number
+): Promise<{ snapshot: PageSnapshot; html: Buffer } | null> {
+  const row = await queryOne<PageSnapshotRow & { html: Buffer }>(
+    `SELECT ${PAGE_SNAPSHOT_COLUMNS}, html FROM page_snapshots WHERE id = $1`,
+    [id]
+  );
+  return row ? { snapshot: mapPageSnapshotRow(row), html: row.html } : null;
+}
+
+/**
+ * Delete snapshots fetched before a date
+ * Returns the screenshot paths of the deleted snapshots
+ */
+export async function deletePageSnapshotsBefore(
+  before: Date
+): Promise<{ deleted: number; screenshots: string[] }> {
+  const rows = await query<{ screenshot_path: string | null }>(
+    'DELETE FROM page_snapshots WHERE fetched_at < $1 RETURNING screenshot_path',
+    [before]
+  );
+  return {
+    deleted: rows.length,
+    screenshots: rows.map((row) => row.screenshot_path).filter((p): p is string => p !== null),
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// Story Cluster Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Get articles not assigned to a story yet, oldest first
+ * Articles still waiting for their content are left for a later run
+ */
+export async function getUnclusteredArticles(limit = 200): Promise<Article[]> {
   const rows = await query<ArticleRow>(
-    `SELECT * FROM articles
-     WHERE content IS NULL OR content = ''
-     ORDER BY published_at DESC
+    `SELECT a.* FROM articles a
+     LEFT JOIN story_clusters sc ON sc.article_id = a.id
+     LEFT JOIN extraction_retries r ON r.article_id = a.id
+     WHERE sc.article_id IS NULL
+       AND (COALESCE(a.content, '') <> '' OR r.status = 'dead')
+     ORDER BY a.published_at ASC
      LIMIT $1`,
     [limit]
   );
@@ -75,75 +1146,135 @@ export async function getArticlesWithEmptyContent(limit: number = 50): Promise<A
 }
 
 /**
- * Get article by ID
+ * Get the story clusters of articles published since a date
  */
-export async function getArticleById(id: string): Promise<Article | null> {
-  const row = await queryOne<ArticleRow>('SELECT * FROM articles WHERE id = $1', [id]);
-  return row ? mapArticleRow(row) : null;
+export async function getStoryClustersSince(since: Date): Promise<StoryClusterEntry[]> {
+  const rows = await query<StoryClusterRow>(
+    `SELECT sc.*, a.published_at FROM story_clusters sc
+     INNER JOIN articles a ON a.id = sc.article_id
+     WHERE a.published_at >= $1`,
+    [since]
+  );
+  return rows.map(mapStoryClusterRow);
 }
 
 /**
- * Get articles by stage and status
+ * Assign an article to a story cluster
  */
-export async function getArticlesByStage(
-  stage: ProcessingStage,
-  status: ProcessingStatus = 'success'
-): Promise<Article[]> {
-  const rows = await query<ArticleRow>(
-    `SELECT DISTINCT a.* FROM articles a
-     INNER JOIN processing_log pl ON a.id = pl.article_id
-     WHERE pl.stage = $1 AND pl.status = $2
-     ORDER BY a.published_at DESC`,
-    [stage, status]
+export async function saveStoryCluster(
+  entry: Omit<StoryClusterEntry, 'publishedAt'>
+): Promise<void> {
+  await query(
+    `INSERT INTO story_clusters (article_id, cluster_id, signature, similarity)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (article_id) DO UPDATE SET
+       cluster_id = EXCLUDED.cluster_id,
+       signature = EXCLUDED.signature,
+       similarity = EXCLUDED.similarity,
+       clustered_at = NOW()`,
+    [entry.articleId, entry.clusterId, entry.signature, entry.similarity ?? null]
   );
-  return rows.map(mapArticleRow);
 }
 
 /**
- * Get articles that need processing at a specific stage
+ * Find which of the given articles duplicate a story whose primary passed the filter
+ * Returns article id -> primary article id
  */
-export async function getArticlesNeedingProcessing(stage: ProcessingStage): Promise<Article[]> {
-  const previousStage = getPreviousStage(stage);
-
-  let rows: ArticleRow[];
-  if (previousStage) {
-    rows = await query<ArticleRow>(
-      `SELECT a.* FROM articles a
-       INNER JOIN processing_log pl ON a.id = pl.article_id
-       WHERE pl.stage = $1 AND pl.status = 'success'
-       AND a.id NOT IN (
-         SELECT article_id FROM processing_log WHERE stage = $2
-       )
-       ORDER BY a.published_at DESC`,
-      [previousStage, stage]
-    );
-  } else {
-    // For 'scraped' stage, get articles not in processing_log at all
-    rows = await query<ArticleRow>(
-      `SELECT a.* FROM articles a
-       WHERE a.id NOT IN (
-         SELECT DISTINCT article_id FROM processing_log
-       )
-       ORDER BY a.published_at DESC`
-    );
+export async function getStoryDuplicates(articleIds: string[]): Promise<Map<string, string>> {
+  if (articleIds.length === 0) {
+    return new Map();
   }
-  return rows.map(mapArticleRow);
+  const rows = await query<{ article_id: string; cluster_id: string }>(
+    `SELECT sc.article_id, sc.cluster_id FROM story_clusters sc
+     WHERE sc.article_id = ANY($1)
+       AND sc.cluster_id <> sc.article_id
+       AND EXISTS (
+         SELECT 1 FROM processing_log pl
+         WHERE pl.article_id = sc.cluster_id AND pl.stage = 'filtered' AND pl.status = 'success'
+       )`,
+    [articleIds]
+  );
+  return new Map(rows.map((row) => [row.article_id, row.cluster_id]));
 }
 
 /**
- * Get unsynced articles (summarized but not pushed to Notion)
+ * Get the other articles of a story ("also reported by"), first published first
  */
-export async function getUnsyncedArticles(): Promise<Article[]> {
+export async function getStoryDuplicateArticles(clusterId: string): Promise<Article[]> {
   const rows = await query<ArticleRow>(
     `SELECT a.* FROM articles a
-     INNER JOIN processing_log pl ON a.id = pl.article_id
-     WHERE pl.stage = 'summarized' AND pl.status = 'success'
-     AND a.id NOT IN (SELECT article_id FROM notion_sync)
-     ORDER BY a.published_at DESC`
+     INNER JOIN story_clusters sc ON sc.article_id = a.id
+     WHERE sc.cluster_id = $1 AND a.id <> $1
+     ORDER BY a.published_at ASC`,
+    [clusterId]
   );
   return rows.map(mapArticleRow);
 }
 
+// ═══════════════════════════════════════════════════════════════════════════════
+// Article Match Operations
+// ═══════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Save the keyword match results of filter decisions, replacing previous ones
+ */
+export async function saveArticleMatches(matches: ArticleMatch[]): Promise<void> {
+  for (const match of matches) {
+    await query(
+      `INSERT INTO article_matches (article_id, matched, score, keywords, categories,
+         title_matches, content_matches, keyword_version, decision, accepted,
+         ai_relevant, ai_confidence, ai_reason, ai_tokens)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       ON CONFLICT (article_id) DO UPDATE SET
+         matched = EXCLUDED.matched,
+         score = EXCLUDED.score,
+         keywords = EXCLUDED.keywords,
+         categories = EXCLUDED.categories,
+         title_matches = EXCLUDED.title_matches,
+         content_matches = EXCLUDED.content_matches,
+         keyword_version = EXCLUDED.keyword_version,
+         decision = EXCLUDED.decision,
+         accepted = EXCLUDED.accepted,
+         ai_relevant = EXCLUDED.ai_relevant,
+         ai_confidence = EXCLUDED.ai_confidence,
+         ai_reason = EXCLUDED.ai_reason,
+         ai_tokens = EXCLUDED.ai_tokens,
+         matched_at = NOW()`,
+      [
+        match.articleId,
+        match.matched,
+        match.score,
+        match.keywords,
+        match.categories,
+        match.titleMatches,
+        match.contentMatches,
+        match.keywordVersion,
+        match.decision ?? null,
+        match.accepted ?? match.matched,
+        match.ai?.relevant ?? null,
+        match.ai?.confidence ?? null,
+        match.ai?.reason ?? null,
+        match.ai?.tokensUsed ?? null,
+      ]
+    );
+  }
+}
+
+/**
+ * Get the keyword match results of articles
+ * Returns article id -> match, articles never filtered are left out
+ */
+export async function getArticleMatches(articleIds: string[]): Promise<Map<string, ArticleMatch>> {
+  if (articleIds.length === 0) {
+    return new Map();
+  }
+  const rows = await query<ArticleMatchRow>(
+    'SELECT * FROM article_matches WHERE article_id = ANY($1)',
+    [articleIds]
+  );
+  return new Map(rows.map((row) => [row.article_id, mapArticleMatchRow(row)]));
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // Processing Log Operations
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -155,13 +1286,55 @@ export async function logProcessing(
   articleId: string,
   stage: ProcessingStage,
   status: ProcessingStatus,
-  errorMessage?: string
+  errorMessage?: string,
+  keywordVersion?: number
 ): Promise<void> {
   await query(
-    `INSERT INTO processing_log (article_id, stage, status, error_message)
-     VALUES ($1, $2, $3, $4)`,
-    [articleId, stage, status, errorMessage ?? null]
+    `INSERT INTO processing_log (article_id, stage, status, error_message, keyword_version)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [articleId, stage, status, errorMessage ?? null, keywordVersion ?? null]
+  );
+}
+
+/**
+ * Record a URL refused by robots.txt, against its article when there is one
+ */
+export async function logBlockedUrl(
+  url: string,
+  reason: string,
+  articleId?: string
+): Promise<void> {
+  await query(
+    `INSERT INTO processing_log (article_id, url, stage, status, error_message)
+     VALUES ($1, $2, 'scraped', 'skipped', $3)`,
+    [articleId ?? null, url, reason]
+  );
+}
+
+/**
+ * Get URLs refused by robots.txt, most recent first
+ */
+export async function getBlockedUrls(
+  limit = 100
+): Promise<Array<{ url: string; articleId?: string; reason: string; blockedAt: Date }>> {
+  const rows = await query<{
+    url: string;
+    article_id: string | null;
+    error_message: string;
+    processed_at: Date;
+  }>(
+    `SELECT url, article_id, error_message, processed_at FROM processing_log
+     WHERE url IS NOT NULL AND stage = 'scraped' AND status = 'skipped'
+     ORDER BY processed_at DESC
+     LIMIT $1`,
+    [limit]
   );
+  return rows.map((row) => ({
+    url: row.url,
+    articleId: row.article_id ?? undefined,
+    reason: row.error_message,
+    blockedAt: new Date(row.processed_at),
+  }));
 }
 
 /**
@@ -320,32 +1493,46 @@ export async function getStats(): Promise<DbStats> {
 export interface ArticleWithSummary {
   article: Article;
   summary: ArticleSummary;
+  /** Other sources that reported the same story */
+  alsoReportedBy: string[];
+}
+
+interface SyncedStoryRow extends ArticleRow {
+  short_summary: string;
+  detailed_summary: string | null;
+  summary_created_at: Date;
+  also_reported_by: string[];
 }
 
 /**
- * Get today's synced articles with their summaries
+ * Synced articles with summaries, one per story (the first synced),
+ * with the other sources of the story
+ * Articles with an unknown publication date are left out
  */
-export async function getTodaySyncedArticles(): Promise<ArticleWithSummary[]> {
-  interface JoinedRow extends ArticleRow {
-    short_summary: string;
-    detailed_summary: string | null;
-    summary_created_at: Date;
-  }
-
-  const rows = await query<JoinedRow>(
-    `SELECT
-       a.*,
-       s.short_summary,
-       s.detailed_summary,
-       s.created_at as summary_created_at
-     FROM articles a
-     INNER JOIN notion_sync ns ON a.id = ns.article_id
-     INNER JOIN summaries s ON a.id = s.article_id
-     WHERE DATE(ns.synced_at AT TIME ZONE 'Europe/Paris') = CURRENT_DATE
-     ORDER BY a.published_at DESC`
-  );
+function syncedStoriesQuery(syncDateCondition: string): string {
+  return `SELECT * FROM (
+       SELECT DISTINCT ON (COALESCE(sc.cluster_id, a.id))
+         a.*,
+         s.short_summary,
+         s.detailed_summary,
+         s.created_at as summary_created_at,
+         ARRAY(
+           SELECT DISTINCT m.source FROM story_clusters o
+           INNER JOIN articles m ON m.id = o.article_id
+           WHERE o.cluster_id = sc.cluster_id AND m.source <> a.source
+         ) as also_reported_by
+       FROM articles a
+       INNER JOIN notion_sync ns ON a.id = ns.article_id
+       INNER JOIN summaries s ON a.id = s.article_id
+       LEFT JOIN story_clusters sc ON sc.article_id = a.id
+       WHERE ${syncDateCondition} AND NOT a.published_at_unknown
+       ORDER BY COALESCE(sc.cluster_id, a.id), ns.synced_at
+     ) stories
+     ORDER BY published_at DESC`;
+}
 
-  return rows.map((row) => ({
+function mapSyncedStoryRow(row: SyncedStoryRow): ArticleWithSummary {
+  return {
     article: mapArticleRow(row),
     summary: {
       articleId: row.id,
@@ -353,46 +1540,35 @@ export async function getTodaySyncedArticles(): Promise<ArticleWithSummary[]> {
       detailedSummary: row.detailed_summary ?? undefined,
       createdAt: new Date(row.summary_created_at),
     },
-  }));
+    alsoReportedBy: row.also_reported_by,
+  };
 }
 
 /**
- * Get synced articles with summaries for a date range
+ * Get today's synced stories with their summaries
+ */
+export async function getTodaySyncedArticles(): Promise<ArticleWithSummary[]> {
+  const rows = await query<SyncedStoryRow>(
+    syncedStoriesQuery(`DATE(ns.synced_at AT TIME ZONE 'Europe/Paris') = CURRENT_DATE`)
+  );
+  return rows.map(mapSyncedStoryRow);
+}
+
+/**
+ * Get synced stories with summaries for a date range
  */
 export async function getSyncedArticlesByDateRange(
   startDate: string,
   endDate: string
 ): Promise<ArticleWithSummary[]> {
-  interface JoinedRow extends ArticleRow {
-    short_summary: string;
-    detailed_summary: string | null;
-    summary_created_at: Date;
-  }
-
-  const rows = await query<JoinedRow>(
-    `SELECT
-       a.*,
-       s.short_summary,
-       s.detailed_summary,
-       s.created_at as summary_created_at
-     FROM articles a
-     INNER JOIN notion_sync ns ON a.id = ns.article_id
-     INNER JOIN summaries s ON a.id = s.article_id
-     WHERE DATE(ns.synced_at AT TIME ZONE 'Europe/Paris') >= $1::date
-       AND DATE(ns.synced_at AT TIME ZONE 'Europe/Paris') <= $2::date
-     ORDER BY a.published_at DESC`,
+  const rows = await query<SyncedStoryRow>(
+    syncedStoriesQuery(
+      `DATE(ns.synced_at AT TIME ZONE 'Europe/Paris') >= $1::date
+       AND DATE(ns.synced_at AT TIME ZONE 'Europe/Paris') <= $2::date`
+    ),
     [startDate, endDate]
   );
-
-  return rows.map((row) => ({
-    article: mapArticleRow(row),
-    summary: {
-      articleId: row.id,
-      shortSummary: row.short_summary,
-      detailedSummary: row.detailed_summary ?? undefined,
-      createdAt: new Date(row.summary_created_at),
-    },
-  }));
+  return rows.map(mapSyncedStoryRow);
 }
 
 /**
@@ -435,8 +1611,152 @@ interface ArticleRow {
   url: string;
   content: string | null;
   published_at: Date;
+  published_at_unknown: boolean;
+  source: string;
+  created_at: Date;
+  content_extractor: string | null;
+  metadata: ArticleMetadata | null;
+}
+
+interface SourceRow {
+  id: number;
+  name: string;
+  url: string;
+  type: string;
+  source: string;
+  enabled: boolean;
+  max_articles: number;
+  js_rendered: boolean;
+  proxy_url: string | null;
+  stale_after_hours: number | null;
+  failing_after_hours: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface SourceHealthRow {
+  name: string;
+  source: string;
+  first_run_at: Date;
+  last_run_at: Date;
+  last_success_at: Date | null;
+  last_new_item_at: Date | null;
+  last_failed: boolean;
+  last_error: string | null;
+  recent_runs: string;
+  recent_failures: string;
+  avg_items: string | null;
+  avg_new_articles: string | null;
+  extraction_attempts: string | null;
+  extracted: string | null;
+  stale_after_hours: number | null;
+  failing_after_hours: number | null;
+}
+
+interface SourceAlertRow {
+  id: number;
+  name: string;
   source: string;
+  kind: string;
+  since: Date;
+  threshold_hours: number;
+  message: string;
+  raised_at: Date;
+  resolved_at: Date | null;
+}
+
+interface KeywordRow {
+  id: number;
+  keyword: string;
+  category: string;
+  weight: number | null;
+  rule: string | null;
+  enabled: boolean;
+  version: number;
   created_at: Date;
+  updated_at: Date;
+}
+
+interface KeywordVersionRow {
+  version: number;
+  change: string;
+  created_at: Date;
+}
+
+interface FeedStateRow {
+  url: string;
+  etag: string | null;
+  last_modified: string | null;
+  last_item_guid: string | null;
+  last_fetched_at: Date;
+}
+
+interface BackfillJobRow {
+  id: string;
+  target: string;
+  since: Date;
+  until: Date | null;
+  next_page: number;
+  next_url: string | null;
+  pages_processed: number;
+  articles_saved: number;
+  status: string;
+  error_message: string | null;
+  started_at: Date;
+  updated_at: Date;
+}
+
+interface ExtractionRetryRow {
+  article_id: string;
+  attempts: number;
+  status: string;
+  next_attempt_at: Date | string;
+  last_error: string | null;
+  updated_at: Date | string;
+}
+
+interface PageSnapshotRow {
+  id: number;
+  article_id: string;
+  url: string;
+  final_url: string;
+  extractor: string;
+  status_code: number | null;
+  content_type: string | null;
+  content_hash: string;
+  html_size: number;
+  content_length: number;
+  succeeded: boolean;
+  error_message: string | null;
+  screenshot_path: string | null;
+  duration_ms: number | null;
+  fetched_at: Date;
+}
+
+interface StoryClusterRow {
+  article_id: string;
+  cluster_id: string;
+  signature: number[];
+  similarity: number | null;
+  published_at: Date;
+}
+
+interface ArticleMatchRow {
+  article_id: string;
+  matched: boolean;
+  score: number;
+  keywords: string[];
+  categories: string[];
+  title_matches: string[];
+  content_matches: string[];
+  keyword_version: number;
+  decision: string | null;
+  accepted: boolean | null;
+  ai_relevant: boolean | null;
+  ai_confidence: number | null;
+  ai_reason: string | null;
+  ai_tokens: number | null;
+  matched_at: Date;
 }
 
 interface ProcessingLogRow {
@@ -445,6 +1765,8 @@ interface ProcessingLogRow {
   stage: string;
   status: string;
   error_message: string | null;
+  url: string | null;
+  keyword_version: number | null;
   processed_at: Date;
 }
 
@@ -470,8 +1792,172 @@ function mapArticleRow(row: ArticleRow): Article {
     url: row.url,
     content: row.content ?? '',
     publishedAt: new Date(row.published_at),
-    source: row.source as ArticleSource,
+    publishedAtUnknown: row.published_at_unknown || undefined,
+    source: row.source,
+    createdAt: new Date(row.created_at),
+    contentExtractor: (row.content_extractor as ContentExtractor | null) ?? undefined,
+    metadata: row.metadata ?? {},
+  };
+}
+
+function mapSourceRow(row: SourceRow): SourceRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    type: row.type as SourceType,
+    source: row.source,
+    enabled: row.enabled,
+    maxArticles: row.max_articles,
+    jsRendered: row.js_rendered,
+    proxyUrl: row.proxy_url ?? undefined,
+    staleAfterHours: row.stale_after_hours ?? undefined,
+    failingAfterHours: row.failing_after_hours ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function mapSourceHealthRow(row: SourceHealthRow): SourceHealth {
+  const recentRuns = parseInt(row.recent_runs, 10);
+  const extractionAttempts = parseInt(row.extraction_attempts ?? '0', 10);
+  return {
+    name: row.name,
+    source: row.source,
+    firstRunAt: new Date(row.first_run_at),
+    lastRunAt: new Date(row.last_run_at),
+    lastSuccessAt: row.last_success_at ? new Date(row.last_success_at) : undefined,
+    lastNewItemAt: row.last_new_item_at ? new Date(row.last_new_item_at) : undefined,
+    lastFailed: row.last_failed,
+    lastError: row.last_error ?? undefined,
+    recentRuns,
+    errorRate: recentRuns > 0 ? parseInt(row.recent_failures, 10) / recentRuns : 0,
+    avgItemsPerRun: parseFloat(row.avg_items ?? '0'),
+    avgNewArticlesPerRun: parseFloat(row.avg_new_articles ?? '0'),
+    extractionAttempts,
+    extractionSuccessRate:
+      extractionAttempts > 0 ? parseInt(row.extracted ?? '0', 10) / extractionAttempts : undefined,
+    staleAfterHours: row.stale_after_hours ?? undefined,
+    failingAfterHours: row.failing_after_hours ?? undefined,
+  };
+}
+
+function mapSourceAlertRow(row: SourceAlertRow): SourceAlert {
+  return {
+    name: row.name,
+    source: row.source,
+    kind: row.kind as SourceAlertKind,
+    since: new Date(row.since),
+    thresholdHours: row.threshold_hours,
+    message: row.message,
+    raisedAt: new Date(row.raised_at),
+  };
+}
+
+function mapKeywordRow(row: KeywordRow): KeywordRecord {
+  return {
+    id: row.id,
+    keyword: row.keyword,
+    category: row.category as KeywordCategory,
+    weight: row.weight ?? undefined,
+    rule: row.rule ?? undefined,
+    enabled: row.enabled,
+    version: row.version,
     createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function mapFeedStateRow(row: FeedStateRow): FeedState {
+  return {
+    url: row.url,
+    etag: row.etag ?? undefined,
+    lastModified: row.last_modified ?? undefined,
+    lastItemGuid: row.last_item_guid ?? undefined,
+    lastFetchedAt: new Date(row.last_fetched_at),
+  };
+}
+
+function mapBackfillJobRow(row: BackfillJobRow): BackfillJob {
+  return {
+    id: row.id,
+    target: row.target,
+    since: new Date(row.since),
+    until: row.until ? new Date(row.until) : undefined,
+    nextPage: row.next_page,
+    nextUrl: row.next_url ?? undefined,
+    pagesProcessed: row.pages_processed,
+    articlesSaved: row.articles_saved,
+    status: row.status as BackfillStatus,
+    errorMessage: row.error_message ?? undefined,
+    startedAt: new Date(row.started_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function mapExtractionRetryRow(row: ExtractionRetryRow): ExtractionRetry {
+  return {
+    articleId: row.article_id,
+    attempts: row.attempts,
+    status: row.status as ExtractionRetryStatus,
+    nextAttemptAt: new Date(row.next_attempt_at),
+    lastError: row.last_error ?? undefined,
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function mapPageSnapshotRow(row: PageSnapshotRow): PageSnapshot {
+  return {
+    id: row.id,
+    articleId: row.article_id,
+    url: row.url,
+    finalUrl: row.final_url,
+    extractor: row.extractor as ContentExtractor,
+    statusCode: row.status_code ?? undefined,
+    contentType: row.content_type ?? undefined,
+    contentHash: row.content_hash,
+    htmlSize: row.html_size,
+    contentLength: row.content_length,
+    succeeded: row.succeeded,
+    errorMessage: row.error_message ?? undefined,
+    screenshotPath: row.screenshot_path ?? undefined,
+    durationMs: row.duration_ms ?? undefined,
+    fetchedAt: new Date(row.fetched_at),
+  };
+}
+
+function mapStoryClusterRow(row: StoryClusterRow): StoryClusterEntry {
+  return {
+    articleId: row.article_id,
+    clusterId: row.cluster_id,
+    signature: row.signature,
+    similarity: row.similarity ?? undefined,
+    publishedAt: new Date(row.published_at),
+  };
+}
+
+function mapArticleMatchRow(row: ArticleMatchRow): ArticleMatch {
+  return {
+    articleId: row.article_id,
+    matched: row.matched,
+    score: row.score,
+    keywords: row.keywords,
+    categories: row.categories,
+    titleMatches: row.title_matches,
+    contentMatches: row.content_matches,
+    keywordVersion: row.keyword_version,
+    decision: (row.decision as FilterDecisionPath | null) ?? undefined,
+    accepted: row.accepted ?? row.matched,
+    ai:
+      row.ai_relevant === null
+        ? undefined
+        : {
+            relevant: row.ai_relevant,
+            confidence: row.ai_confidence ?? 0,
+            reason: row.ai_reason ?? '',
+            tokensUsed: row.ai_tokens ?? 0,
+          },
+    matchedAt: new Date(row.matched_at),
   };
 }
 
@@ -482,6 +1968,8 @@ function mapProcessingLogRow(row: ProcessingLogRow): ProcessingLog {
     stage: row.stage as ProcessingStage,
     status: row.status as ProcessingStatus,
     errorMessage: row.error_message ?? undefined,
+    url: row.url ?? undefined,
+    keywordVersion: row.keyword_version ?? undefined,
     processedAt: new Date(row.processed_at),
   };
 }
@@ -15,6 +15,138 @@ CREATE TABLE IF NOT EXISTS articles (
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Extractor that produced the content (NULL when it came from the feed)
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS content_extractor TEXT
+  CHECK (content_extractor IN ('http', 'browser'));
+
+-- Author, categories, image, section, keywords, word count (see ArticleMetadata)
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Source date unparseable: published_at is the fetch time until the page gives a date
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS published_at_unknown BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Sources Table
+-- Catalogue of feeds fetched by the pipeline (seeded from DEFAULT_FEEDS)
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS sources (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  url TEXT NOT NULL UNIQUE,
+  type TEXT NOT NULL DEFAULT 'rss',
+  source TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  max_articles INTEGER NOT NULL DEFAULT 50,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Article pages need a browser to render their content
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS js_rendered BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- HTTP proxy feeds, robots.txt and article pages are fetched through (NULL: direct)
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS proxy_url TEXT;
+
+-- Health alert thresholds in hours (NULL: SOURCE_STALE_HOURS / SOURCE_FAILING_HOURS)
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS stale_after_hours INTEGER;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS failing_after_hours INTEGER;
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Source Runs Table
+-- Outcome of every source run, source health is computed from it
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS source_runs (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,                   -- registry scraper name (sources.name for the catalogue)
+  source TEXT NOT NULL,
+  items_found INTEGER NOT NULL DEFAULT 0,
+  new_articles INTEGER NOT NULL DEFAULT 0,
+  errors INTEGER NOT NULL DEFAULT 0,
+  failed BOOLEAN NOT NULL DEFAULT FALSE,
+  error_message TEXT,
+  duration_ms INTEGER,
+  ran_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Source Alerts Table
+-- Stale and failing sources, one open alert per source and kind
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS source_alerts (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  source TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('stale', 'failing')),
+  since TIMESTAMPTZ NOT NULL,           -- last new article (stale) or last successful run (failing)
+  threshold_hours INTEGER NOT NULL,
+  message TEXT NOT NULL,
+  raised_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ
+);
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Keywords Tables
+-- Filter keywords (seeded from TECH_KEYWORDS), every change bumps the set version
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS keyword_versions (
+  version SERIAL PRIMARY KEY,
+  change TEXT NOT NULL,                 -- e.g. "add Mistral AI", "import keywords.json"
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS keywords (
+  id SERIAL PRIMARY KEY,
+  keyword TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('companies', 'themes', 'terms')),
+  weight REAL,                          -- overrides the category weight (NULL: FilterConfig)
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  version INTEGER NOT NULL REFERENCES keyword_versions(version),  -- set version of the last change
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Feed State Table
+-- Conditional request validators and last seen item per feed URL
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS feed_state (
+  url TEXT PRIMARY KEY,
+  etag TEXT,
+  last_modified TEXT,
+  last_item_guid TEXT,
+  last_fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Newsletter Links Table
+-- Article URL each newsletter link (often a tracking redirect) resolved to,
+-- so a link is only followed once
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS newsletter_links (
+  link TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  resolved_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Backfill Jobs Table
+-- Historical crawls by date range, checkpointed so they can resume
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS backfill_jobs (
+  id TEXT PRIMARY KEY,                  -- target:since..until
+  target TEXT NOT NULL,                 -- e.g. zonebourse:economie, feed:ABC Bourse - Analyses
+  since TIMESTAMPTZ NOT NULL,
+  until TIMESTAMPTZ,
+  next_page INTEGER NOT NULL DEFAULT 1,
+  next_url TEXT,
+  pages_processed INTEGER NOT NULL DEFAULT 0,
+  articles_saved INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'failed')),
+  error_message TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- ═══════════════════════════════════════════════════════════════════════════════
 -- Processing Log Table
 -- Tracks article processing through pipeline stages
@@ -28,6 +160,89 @@ CREATE TABLE IF NOT EXISTS processing_log (
   processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Pages refused by robots.txt are logged by URL, listing pages have no article
+ALTER TABLE processing_log ADD COLUMN IF NOT EXISTS url TEXT;
+ALTER TABLE processing_log ALTER COLUMN article_id DROP NOT NULL;
+
+-- Keyword set version a filter decision was made with
+ALTER TABLE processing_log ADD COLUMN IF NOT EXISTS keyword_version INTEGER;
+
+-- Rule source of keywords with modifiers, e.g. '=Block +Square' (see filter/keyword-rules.ts)
+ALTER TABLE keywords ADD COLUMN IF NOT EXISTS rule TEXT;
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Extraction Retries Table
+-- Failed content extractions: attempt count, backoff and dead-letter state
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS extraction_retries (
+  article_id TEXT PRIMARY KEY REFERENCES articles(id) ON DELETE CASCADE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'retrying' CHECK (status IN ('retrying', 'dead')),
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_error TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Page Snapshots Table
+-- Gzipped HTML and fetch metadata of every extraction attempt, replayable offline
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS page_snapshots (
+  id SERIAL PRIMARY KEY,
+  article_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  final_url TEXT NOT NULL,
+  extractor TEXT NOT NULL CHECK (extractor IN ('http', 'browser')),
+  status_code INTEGER,
+  content_type TEXT,
+  html BYTEA NOT NULL,
+  content_hash TEXT NOT NULL,
+  html_size INTEGER NOT NULL,
+  content_length INTEGER NOT NULL DEFAULT 0,
+  succeeded BOOLEAN NOT NULL,
+  error_message TEXT,
+  screenshot_path TEXT,
+  duration_ms INTEGER,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Story Clusters Table
+-- Near-duplicate articles grouped by story, cluster_id is the primary article
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS story_clusters (
+  article_id TEXT PRIMARY KEY REFERENCES articles(id) ON DELETE CASCADE,
+  cluster_id TEXT NOT NULL REFERENCES articles(id) ON DELETE CASCADE,
+  signature INTEGER[] NOT NULL,
+  similarity REAL,
+  clustered_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Article Matches Table
+-- Keyword match result of the latest filter decision on each article
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS article_matches (
+  article_id TEXT PRIMARY KEY REFERENCES articles(id) ON DELETE CASCADE,
+  matched BOOLEAN NOT NULL,
+  score REAL NOT NULL,
+  keywords TEXT[] NOT NULL DEFAULT '{}',
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  title_matches TEXT[] NOT NULL DEFAULT '{}',
+  content_matches TEXT[] NOT NULL DEFAULT '{}',  -- content keywords not already in the title
+  keyword_version INTEGER NOT NULL,
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Hybrid filter decision: score band, final verdict, AI verdict on borderline scores
+ALTER TABLE article_matches ADD COLUMN IF NOT EXISTS decision TEXT
+  CHECK (decision IN ('auto-accept', 'auto-reject', 'ai', 'keyword-fallback'));
+ALTER TABLE article_matches ADD COLUMN IF NOT EXISTS accepted BOOLEAN;
+ALTER TABLE article_matches ADD COLUMN IF NOT EXISTS ai_relevant BOOLEAN;
+ALTER TABLE article_matches ADD COLUMN IF NOT EXISTS ai_confidence REAL;
+ALTER TABLE article_matches ADD COLUMN IF NOT EXISTS ai_reason TEXT;
+ALTER TABLE article_matches ADD COLUMN IF NOT EXISTS ai_tokens INTEGER;
+
 -- ═══════════════════════════════════════════════════════════════════════════════
 -- Summaries Table
 -- Stores AI-generated article summaries
@@ -87,14 +302,33 @@ CREATE TABLE IF NOT EXISTS monthly_briefings (
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Schema Migrations Table
+-- Data migrations already applied, see db/migrations.ts, and one-time seeds
+-- ('seed-sources')
+-- ═══════════════════════════════════════════════════════════════════════════════
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  name TEXT PRIMARY KEY,
+  applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- ═══════════════════════════════════════════════════════════════════════════════
 -- Indexes for Performance
 -- ═══════════════════════════════════════════════════════════════════════════════
 CREATE INDEX IF NOT EXISTS idx_articles_published_at ON articles(published_at DESC);
 CREATE INDEX IF NOT EXISTS idx_articles_source ON articles(source);
+CREATE INDEX IF NOT EXISTS idx_sources_type_enabled ON sources(type, enabled);
+CREATE INDEX IF NOT EXISTS idx_source_runs_name ON source_runs(name, ran_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_source_alerts_open ON source_alerts(name, kind) WHERE resolved_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_keywords_keyword ON keywords(LOWER(keyword));
 CREATE INDEX IF NOT EXISTS idx_processing_log_article ON processing_log(article_id);
 CREATE INDEX IF NOT EXISTS idx_processing_log_stage_status ON processing_log(stage, status);
 CREATE INDEX IF NOT EXISTS idx_processing_log_processed_at ON processing_log(processed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_extraction_retries_status ON extraction_retries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_page_snapshots_article ON page_snapshots(article_id, fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_page_snapshots_fetched_at ON page_snapshots(fetched_at);
+CREATE INDEX IF NOT EXISTS idx_story_clusters_cluster ON story_clusters(cluster_id);
+CREATE INDEX IF NOT EXISTS idx_article_matches_categories ON article_matches USING GIN (categories);
 CREATE INDEX IF NOT EXISTS idx_notion_sync_synced_at ON notion_sync(synced_at DESC);
 CREATE INDEX IF NOT EXISTS idx_daily_briefings_date ON daily_briefings(date DESC);
 CREATE INDEX IF NOT EXISTS idx_weekly_briefings_week ON weekly_briefings(week_start DESC);
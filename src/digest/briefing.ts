@@ -10,6 +10,7 @@ import { query, queryOne } from '../db/index.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import type { DailyDigest } from './index.js';
+import type { ArticleMetadata } from '../types/index.js';
 
 /**
  * Daily briefing record from database
@@ -30,6 +31,9 @@ export interface BriefingArticle {
   shortSummary: string;
   url: string;
   source: string;
+  section?: string;
+  author?: string;
+  alsoReportedBy?: string[];
   notionPageId?: string;
 }
 
@@ -107,20 +111,36 @@ export async function getArticlesWithNotionIds(date: string): Promise<BriefingAr
     source: string;
     short_summary: string;
     notion_page_id: string;
+    metadata: ArticleMetadata | null;
+    also_reported_by: string[];
   }
 
+  // One entry per story, the first synced article of the cluster
+  // Articles without a known publication date may be old stories, they stay out
   const rows = await query<ArticleRow>(
-    `SELECT
-       a.title,
-       a.url,
-       a.source,
-       s.short_summary,
-       ns.notion_page_id
-     FROM articles a
-     INNER JOIN notion_sync ns ON a.id = ns.article_id
-     INNER JOIN summaries s ON a.id = s.article_id
-     WHERE DATE(ns.synced_at AT TIME ZONE 'Europe/Paris') = $1::date
-     ORDER BY a.published_at DESC`,
+    `SELECT * FROM (
+       SELECT DISTINCT ON (COALESCE(sc.cluster_id, a.id))
+         a.title,
+         a.url,
+         a.source,
+         a.published_at,
+         a.metadata,
+         s.short_summary,
+         ns.notion_page_id,
+         ARRAY(
+           SELECT DISTINCT m.source FROM story_clusters o
+           INNER JOIN articles m ON m.id = o.article_id
+           WHERE o.cluster_id = sc.cluster_id AND m.source <> a.source
+         ) as also_reported_by
+       FROM articles a
+       INNER JOIN notion_sync ns ON a.id = ns.article_id
+       INNER JOIN summaries s ON a.id = s.article_id
+       LEFT JOIN story_clusters sc ON sc.article_id = a.id
+       WHERE DATE(ns.synced_at AT TIME ZONE 'Europe/Paris') = $1::date
+       AND NOT a.published_at_unknown
+       ORDER BY COALESCE(sc.cluster_id, a.id), ns.synced_at
+     ) stories
+     ORDER BY published_at DESC`,
     [date]
   );
 
@@ -129,6 +149,9 @@ export async function getArticlesWithNotionIds(date: string): Promise<BriefingAr
     shortSummary: row.short_summary,
     url: row.url,
     source: row.source,
+    section: row.metadata?.section,
+    author: row.metadata?.author,
+    alsoReportedBy: row.also_reported_by,
     notionPageId: row.notion_page_id,
   }));
 }
@@ -178,10 +201,14 @@ export async function createNotionBriefingPage(
         });
       }
 
-      // Source tag
+      // Source tag with section and author, and the other sources of the story
+      const sources = article.alsoReportedBy?.length
+        ? `${article.source}, aussi : ${article.alsoReportedBy.join(', ')}`
+        : article.source;
+      const details = [article.section, article.author].filter(Boolean).join(' · ');
       richText.push({
         type: 'text' as const,
-        text: { content: ` (${article.source})` },
+        text: { content: ` (${details ? `${sources} · ${details}` : sources})` },
         annotations: { color: 'gray' as const },
       });
 
@@ -221,7 +248,7 @@ export async function createNotionBriefingPage(
               {
                 type: 'text',
                 text: {
-                  content: `${digest.articleCount} articles tech/finance traités le ${displayDate}`,
+                  content: `${digest.articleCount} sujets tech/finance traités le ${displayDate}`,
                 },
               },
             ],
@@ -259,9 +286,7 @@ export async function createNotionBriefingPage(
           object: 'block',
           type: 'heading_2',
           heading_2: {
-            rich_text: [
-              { type: 'text', text: { content: `Articles du jour (${articles.length})` } },
-            ],
+            rich_text: [{ type: 'text', text: { content: `Sujets du jour (${articles.length})` } }],
           },
         },
         // Article list with links
@@ -27,6 +27,7 @@ import {
  */
 export interface DailyDigest {
   date: string;
+  /** Stories, near-duplicate articles count once */
   articleCount: number;
   globalSummary: string;
   articles: {
@@ -34,6 +35,8 @@ export interface DailyDigest {
     shortSummary: string;
     url: string;
     source: string;
+    section?: string;
+    author?: string;
   }[];
 }
 
@@ -64,7 +67,13 @@ export async function generateDailyDigest(): Promise<DailyDigest | null> {
 
   // Build context for GPT
   const articlesContext = articlesWithSummaries
-    .map((a, i) => `${i + 1}. ${a.article.title}\n   ${a.summary.shortSummary}`)
+    .map((a, i) => {
+      const alsoReported = a.alsoReportedBy.length
+        ? ` (aussi : ${a.alsoReportedBy.join(', ')})`
+        : '';
+      const section = a.article.metadata?.section ? `[${a.article.metadata.section}] ` : '';
+      return `${i + 1}. ${section}${a.article.title}${alsoReported}\n   ${a.summary.shortSummary}`;
+    })
     .join('\n\n');
 
   // Generate global summary via GPT
@@ -82,6 +91,8 @@ export async function generateDailyDigest(): Promise<DailyDigest | null> {
       shortSummary: a.summary.shortSummary,
       url: a.article.url,
       source: a.article.source,
+      section: a.article.metadata?.section,
+      author: a.article.metadata?.author,
     })),
   };
 
@@ -96,7 +107,7 @@ export async function generateDailyDigest(): Promise<DailyDigest | null> {
 async function generateGlobalSummary(context: string, count: number): Promise<string> {
   if (!config.openai.apiKey) {
     logger.warn('OpenAI API key not configured, using fallback summary');
-    return `${count} articles traités aujourd'hui. Consultez les détails ci-dessous.`;
+    return `${count} sujets traités aujourd'hui. Consultez les détails ci-dessous.`;
   }
 
   try {
@@ -127,7 +138,7 @@ Sois concis, factuel et orienté business/investissement.`,
     return response.choices[0]?.message?.content ?? 'Résumé non disponible.';
   } catch (error) {
     logger.error({ error }, 'Failed to generate global summary');
-    return `${count} articles traités aujourd'hui. Erreur lors de la génération du résumé.`;
+    return `${count} sujets traités aujourd'hui. Erreur lors de la génération du résumé.`;
   }
 }
 
@@ -158,7 +169,9 @@ export async function pushDigestToNotion(digest: DailyDigest): Promise<string |
           },
           {
             type: 'text' as const,
-            text: { content: ` (${article.source})` },
+            text: {
+              content: ` (${[article.source, article.section, article.author].filter(Boolean).join(' · ')})`,
+            },
             annotations: { color: 'gray' as const },
           },
         ],
@@ -186,7 +199,7 @@ export async function pushDigestToNotion(digest: DailyDigest): Promise<string |
               {
                 type: 'text',
                 text: {
-                  content: `${digest.articleCount} articles traités le ${digest.date}`,
+                  content: `${digest.articleCount} sujets traités le ${digest.date}`,
                 },
               },
             ],
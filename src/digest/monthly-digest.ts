@@ -36,6 +36,8 @@ export interface MonthlyDigest {
     shortSummary: string;
     url: string;
     source: string;
+    section?: string;
+    author?: string;
   }[];
 }
 
@@ -181,7 +183,13 @@ export async function generateMonthlyDigest(yearMonth?: string): Promise<Monthly
   // Build context for GPT (limit to top 100 articles to avoid token limits)
   const topArticles = articlesWithSummaries.slice(0, 100);
   const articlesContext = topArticles
-    .map((a, i) => `${i + 1}. ${a.article.title}\n   ${a.summary.shortSummary}`)
+    .map((a, i) => {
+      const alsoReported = a.alsoReportedBy.length
+        ? ` (aussi : ${a.alsoReportedBy.join(', ')})`
+        : '';
+      const section = a.article.metadata?.section ? `[${a.article.metadata.section}] ` : '';
+      return `${i + 1}. ${section}${a.article.title}${alsoReported}\n   ${a.summary.shortSummary}`;
+    })
     .join('\n\n');
 
   // Generate global summary via GPT
@@ -200,6 +208,8 @@ export async function generateMonthlyDigest(yearMonth?: string): Promise<Monthly
       shortSummary: a.summary.shortSummary,
       url: a.article.url,
       source: a.article.source,
+      section: a.article.metadata?.section,
+      author: a.article.metadata?.author,
     })),
   };
 
@@ -222,7 +232,7 @@ async function generateMonthlySummary(
   if (!config.openai.apiKey) {
     logger.warn('OpenAI API key not configured, using fallback summary');
     const monthName = getMonthNameFr(yearMonth);
-    return `${count} articles traites en ${monthName}. Consultez les details ci-dessous.`;
+    return `${count} sujets traites en ${monthName}. Consultez les details ci-dessous.`;
   }
 
   try {
@@ -255,7 +265,7 @@ Sois concis, factuel et oriente business/investissement. Identifie les grandes t
         },
         {
           role: 'user',
-          content: `Voici les principales actualites tech/finance du mois de ${monthName} (${count} articles au total, les 100 premiers sont presentes ici):\n\n${context}\n\nGenere un resume executif mensuel complet.`,
+          content: `Voici les principales actualites tech/finance du mois de ${monthName} (${count} sujets au total, les 100 premiers sont presentes ici):\n\n${context}\n\nGenere un resume executif mensuel complet.`,
         },
       ],
       max_tokens: 1000,
@@ -265,7 +275,7 @@ Sois concis, factuel et oriente business/investissement. Identifie les grandes t
     return response.choices[0]?.message?.content ?? 'Resume non disponible.';
   } catch (error) {
     logger.error({ error }, 'Failed to generate monthly summary');
-    return `${count} articles traites ce mois. Erreur lors de la generation du resume.`;
+    return `${count} sujets traites ce mois. Erreur lors de la generation du resume.`;
   }
 }
 
@@ -305,7 +315,9 @@ export async function createNotionMonthlyBriefingPage(
           },
           {
             type: 'text' as const,
-            text: { content: ` (${article.source})` },
+            text: {
+              content: ` (${[article.source, article.section, article.author].filter(Boolean).join(' · ')})`,
+            },
             annotations: { color: 'gray' as const },
           },
         ],
@@ -335,7 +347,7 @@ export async function createNotionMonthlyBriefingPage(
               {
                 type: 'text',
                 text: {
-                  content: `${digest.articleCount} articles tech/finance traites en ${monthName}`,
+                  content: `${digest.articleCount} sujets tech/finance traites en ${monthName}`,
                 },
               },
             ],
@@ -38,6 +38,8 @@ export interface WeeklyDigest {
     shortSummary: string;
     url: string;
     source: string;
+    section?: string;
+    author?: string;
   }[];
 }
 
@@ -203,7 +205,13 @@ export async function generateWeeklyDigest(weekStartDate?: string): Promise<Week
 
   // Build context for GPT
   const articlesContext = articlesWithSummaries
-    .map((a, i) => `${i + 1}. ${a.article.title}\n   ${a.summary.shortSummary}`)
+    .map((a, i) => {
+      const alsoReported = a.alsoReportedBy.length
+        ? ` (aussi : ${a.alsoReportedBy.join(', ')})`
+        : '';
+      const section = a.article.metadata?.section ? `[${a.article.metadata.section}] ` : '';
+      return `${i + 1}. ${section}${a.article.title}${alsoReported}\n   ${a.summary.shortSummary}`;
+    })
     .join('\n\n');
 
   // Generate global summary via GPT
@@ -224,6 +232,8 @@ export async function generateWeeklyDigest(weekStartDate?: string): Promise<Week
       shortSummary: a.summary.shortSummary,
       url: a.article.url,
       source: a.article.source,
+      section: a.article.metadata?.section,
+      author: a.article.metadata?.author,
     })),
   };
 
@@ -246,7 +256,7 @@ async function generateWeeklySummary(
 ): Promise<string> {
   if (!config.openai.apiKey) {
     logger.warn('OpenAI API key not configured, using fallback summary');
-    return `${count} articles traites cette semaine (${weekStart} - ${weekEnd}). Consultez les details ci-dessous.`;
+    return `${count} sujets traites cette semaine (${weekStart} - ${weekEnd}). Consultez les details ci-dessous.`;
   }
 
   try {
@@ -283,7 +293,7 @@ Sois concis, factuel et oriente business/investissement. Identifie les tendances
     return response.choices[0]?.message?.content ?? 'Resume non disponible.';
   } catch (error) {
     logger.error({ error }, 'Failed to generate weekly summary');
-    return `${count} articles traites cette semaine. Erreur lors de la generation du resume.`;
+    return `${count} sujets traites cette semaine. Erreur lors de la generation du resume.`;
   }
 }
 
@@ -323,7 +333,9 @@ export async function createNotionWeeklyBriefingPage(
           },
           {
             type: 'text' as const,
-            text: { content: ` (${article.source})` },
+            text: {
+              content: ` (${[article.source, article.section, article.author].filter(Boolean).join(' · ')})`,
+            },
             annotations: { color: 'gray' as const },
           },
         ],
@@ -362,7 +374,7 @@ export async function createNotionWeeklyBriefingPage(
               {
                 type: 'text',
                 text: {
-                  content: `${digest.articleCount} articles tech/finance traites du ${startDisplay} au ${endDisplay}`,
+                  content: `${digest.articleCount} sujets tech/finance traites du ${startDisplay} au ${endDisplay}`,
                 },
               },
             ],
@@ -401,7 +413,7 @@ export async function createNotionWeeklyBriefingPage(
           type: 'heading_2',
           heading_2: {
             rich_text: [
-              { type: 'text', text: { content: `Articles de la semaine (${digest.articleCount})` } },
+              { type: 'text', text: { content: `Sujets de la semaine (${digest.articleCount})` } },
             ],
           },
         },
@@ -0,0 +1,104 @@
+/**
+ * Aho-Corasick Automaton
+ *
+ * Finds every occurrence of a set of patterns in a single pass over a text,
+ * whatever the number of patterns. Patterns and texts are compared code unit
+ * by code unit: normalize both the same way before building and searching
+ */
+
+/**
+ * Occurrence of a pattern, [start, end) offsets in the searched text
+ */
+export interface PatternMatch {
+  /** Index of the pattern in the list the automaton was built from */
+  pattern: number;
+  start: number;
+  end: number;
+}
+
+export interface Automaton {
+  patternCount: number;
+  /** Find every occurrence, overlapping ones included, ordered by end offset */
+  search(text: string): PatternMatch[];
+}
+
+interface AutomatonNode {
+  next: Map<number, AutomatonNode>;
+  /** Node of the longest proper suffix that is also a pattern prefix */
+  fail: AutomatonNode | null;
+  /** Patterns ending here, including those ending on the fail chain */
+  outputs: number[];
+}
+
+function createNode(): AutomatonNode {
+  return { next: new Map(), fail: null, outputs: [] };
+}
+
+/**
+ * Build the automaton of a pattern list (empty patterns never match)
+ */
+export function buildAutomaton(patterns: readonly string[]): Automaton {
+  const root = createNode();
+
+  patterns.forEach((pattern, index) => {
+    if (!pattern) {
+      return;
+    }
+    let node = root;
+    for (let i = 0; i < pattern.length; i++) {
+      const code = pattern.charCodeAt(i);
+      let child = node.next.get(code);
+      if (!child) {
+        child = createNode();
+        node.next.set(code, child);
+      }
+      node = child;
+    }
+    node.outputs.push(index);
+  });
+
+  // Fail links, breadth first so shorter suffixes are linked before longer ones
+  const queue: AutomatonNode[] = [];
+  for (const child of root.next.values()) {
+    child.fail = root;
+    queue.push(child);
+  }
+  for (let i = 0; i < queue.length; i++) {
+    const node = queue[i]!;
+    for (const [code, child] of node.next) {
+      let fail = node.fail;
+      while (fail && !fail.next.has(code)) {
+        fail = fail.fail;
+      }
+      child.fail = fail?.next.get(code) ?? root;
+      child.outputs.push(...child.fail.outputs);
+      queue.push(child);
+    }
+  }
+
+  const lengths = patterns.map((p) => p.length);
+
+  return {
+    patternCount: patterns.length,
+    search(text: string): PatternMatch[] {
+      const matches: PatternMatch[] = [];
+      let node = root;
+
+      for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        let next = node.next.get(code);
+        while (!next && node.fail) {
+          node = node.fail;
+          next = node.next.get(code);
+        }
+        node = next ?? root;
+
+        for (const pattern of node.outputs) {
+          matches.push({ pattern, start: i + 1 - lengths[pattern]!, end: i + 1 });
+        }
+      }
+
+      return matches;
+    },
+  };
+}
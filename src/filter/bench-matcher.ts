@@ -0,0 +1,129 @@
+/**
+ * Keyword Matcher Benchmark
+ *
+ * Matches generated articles against the default keyword set and reports
+ * the throughput (offline, no database)
+ *
+ * Run with: npm run bench:matcher [-- <articles>]  (default: 10000)
+ */
+
+import { matchArticle, DEFAULT_FILTER_CONFIG } from './matcher.js';
+import { DEFAULT_KEYWORD_SET } from '../config/keywords.js';
+import { logger } from '../utils/logger.js';
+import type { Article } from '../types/index.js';
+
+const PASSES = 3;
+
+const FILLER = (
+  'le la les un une des du de et à en pour sur dans avec par au aux ce cette ses leur ' +
+  'groupe société marché bourse action actions titre séance hausse baisse résultats ' +
+  'trimestre chiffre affaires milliards millions euros dollars croissance analystes ' +
+  'investisseurs prévisions annonce annoncé publié rapport exercice bénéfice perte ' +
+  'Paris Francfort Londres New-York secteur énergie banque assurance automobile ' +
+  'luxe distribution industrie santé immobilier consommation dividende objectif cours'
+).split(' ');
+
+// Keywords, rule terms and near misses (métaux, Saint-Cloud, Square mètres)
+const KEYWORDY = [
+  ...DEFAULT_KEYWORD_SET.keywords.map((k) => k.keyword),
+  'Saint-Cloud',
+  'nucléaire',
+  'Jack Dorsey',
+  'métaux',
+  'meta',
+  'block',
+  'square',
+  'l’application',
+  'startup',
+  'logiciel',
+];
+
+/**
+ * Deterministic random numbers (mulberry32), so runs are comparable
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function generateArticles(count: number): Article[] {
+  const random = createRandom(42);
+  const pick = (words: readonly string[]): string => words[Math.floor(random() * words.length)]!;
+  const sentence = (length: number): string =>
+    Array.from({ length }, () => (random() < 0.005 ? pick(KEYWORDY) : pick(FILLER))).join(' ');
+
+  return Array.from({ length: count }, (_, i) => ({
+    id: `bench-${i}`,
+    title: sentence(8 + Math.floor(random() * 8)),
+    content: Array.from({ length: 8 + Math.floor(random() * 12) }, () =>
+      sentence(12 + Math.floor(random() * 18))
+    ).join('. '),
+    url: `https://example.com/bench-${i}`,
+    publishedAt: new Date(),
+    source: 'abcbourse',
+    createdAt: new Date(),
+  }));
+}
+
+function benchMatcher(): void {
+  const count = parseInt(process.argv[2] ?? '10000', 10);
+  if (isNaN(count) || count <= 0) {
+    throw new Error(`Article count must be a positive number: ${process.argv[2]}`);
+  }
+
+  const articles = generateArticles(count);
+  const bytes = articles.reduce(
+    (sum, a) => sum + Buffer.byteLength(a.title) + Buffer.byteLength(a.content),
+    0
+  );
+  logger.info(
+    {
+      articles: count,
+      textMb: +(bytes / 1e6).toFixed(1),
+      keywords: DEFAULT_KEYWORD_SET.keywords.length,
+    },
+    'Benchmarking keyword matcher'
+  );
+
+  // First match compiles the keyword set
+  let start = performance.now();
+  matchArticle(articles[0]!, DEFAULT_FILTER_CONFIG, DEFAULT_KEYWORD_SET);
+  const compileMs = performance.now() - start;
+
+  let bestMs = Infinity;
+  let matched = 0;
+  for (let pass = 0; pass < PASSES; pass++) {
+    matched = 0;
+    start = performance.now();
+    for (const article of articles) {
+      if (matchArticle(article, DEFAULT_FILTER_CONFIG, DEFAULT_KEYWORD_SET).matched) {
+        matched++;
+      }
+    }
+    bestMs = Math.min(bestMs, performance.now() - start);
+  }
+
+  logger.info(
+    {
+      compileMs: +compileMs.toFixed(1),
+      bestOfPasses: PASSES,
+      totalMs: Math.round(bestMs),
+      articlesPerSecond: Math.round(count / (bestMs / 1000)),
+      mbPerSecond: +(bytes / 1e6 / (bestMs / 1000)).toFixed(1),
+      matched,
+    },
+    '=== Keyword Matcher Benchmark Complete ==='
+  );
+}
+
+try {
+  benchMatcher();
+} catch (error) {
+  logger.fatal({ error }, 'Benchmark failed');
+  process.exit(1);
+}
@@ -0,0 +1,188 @@
+/**
+ * Hybrid Filter
+ *
+ * Orchestrates keyword matching and AI validation: articles scoring above
+ * the auto-accept threshold pass, articles below the auto-reject threshold
+ * are skipped, and the borderline band in between is sent to the AI validator.
+ * When AI validation is off or fails, borderline articles keep their keyword verdict.
+ */
+
+import { DEFAULT_KEYWORD_SET, type KeywordSet } from '../config/keywords.js';
+import { logger } from '../utils/logger.js';
+import { matchArticle, toArticleMatch, DEFAULT_FILTER_CONFIG } from './matcher.js';
+import { validateArticlesWithAi, type AiValidationResult } from './ai-validator.js';
+import type { FilterConfig, MatchResult } from './matcher.js';
+import type { Article, ArticleMatch, FilterDecisionPath } from '../types/index.js';
+
+export type ScoreBand = 'accept' | 'reject' | 'borderline';
+
+/**
+ * Filter decision on an article
+ */
+export interface FilterDecision {
+  accepted: boolean;
+  path: FilterDecisionPath;
+  match: MatchResult;
+  ai?: AiValidationResult;
+}
+
+/**
+ * Hybrid filter run counts
+ */
+export interface HybridFilterStats {
+  total: number;
+  autoAccepted: number;
+  autoRejected: number;
+  aiValidated: number;
+  aiAccepted: number;
+  /** Borderline articles decided by their keyword score */
+  keywordFallback: number;
+  aiTokens: number;
+}
+
+export interface HybridFilterResult {
+  accepted: Article[];
+  rejected: Article[];
+  decisions: Map<string, FilterDecision>;
+  stats: HybridFilterStats;
+}
+
+/**
+ * Options of a hybrid filter run
+ */
+export interface HybridFilterOptions {
+  config?: FilterConfig;
+  keywordSet?: KeywordSet;
+  /** Send borderline articles to AI validation (default: true) */
+  useAi?: boolean;
+  /** AI validator, validateArticlesWithAi by default */
+  validate?: (articles: Article[]) => Promise<Map<string, AiValidationResult>>;
+}
+
+/**
+ * Get the score band of a keyword score
+ */
+export function getScoreBand(
+  score: number,
+  config: FilterConfig = DEFAULT_FILTER_CONFIG
+): ScoreBand {
+  if (score >= config.autoAcceptScore) {
+    return 'accept';
+  }
+  if (score < config.autoRejectScore) {
+    return 'reject';
+  }
+  return 'borderline';
+}
+
+/**
+ * Convert a filter decision to the ArticleMatch of an article (for database storage)
+ */
+export function toDecisionMatch(articleId: string, decision: FilterDecision): ArticleMatch {
+  return {
+    ...toArticleMatch(articleId, decision.match),
+    decision: decision.path,
+    accepted: decision.accepted,
+    ai: decision.ai
+      ? {
+          relevant: decision.ai.isRelevant,
+          confidence: decision.ai.confidence,
+          reason: decision.ai.reason,
+          tokensUsed: decision.ai.tokensUsed,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Explain a rejection (processing_log error message)
+ */
+export function getRejectionReason(decision: FilterDecision, config: FilterConfig): string {
+  if (decision.path === 'ai' && decision.ai) {
+    return `AI: ${decision.ai.reason}`;
+  }
+  if (decision.match.matchedKeywords.length === 0) {
+    return 'No tech keywords matched';
+  }
+  const threshold = decision.path === 'auto-reject' ? config.autoRejectScore : config.minScore;
+  return `Score ${decision.match.score} below ${threshold}`;
+}
+
+/**
+ * Filter articles with keyword score bands and AI validation of the borderline band
+ */
+export async function filterArticlesHybrid(
+  articles: Article[],
+  options: HybridFilterOptions = {}
+): Promise<HybridFilterResult> {
+  const {
+    config = DEFAULT_FILTER_CONFIG,
+    keywordSet = DEFAULT_KEYWORD_SET,
+    useAi = true,
+    validate = validateArticlesWithAi,
+  } = options;
+
+  const decisions = new Map<string, FilterDecision>();
+  const borderline: Article[] = [];
+  const stats: HybridFilterStats = {
+    total: articles.length,
+    autoAccepted: 0,
+    autoRejected: 0,
+    aiValidated: 0,
+    aiAccepted: 0,
+    keywordFallback: 0,
+    aiTokens: 0,
+  };
+
+  for (const article of articles) {
+    const match = matchArticle(article, config, keywordSet);
+    const band = getScoreBand(match.score, config);
+
+    if (band === 'accept') {
+      decisions.set(article.id, { accepted: true, path: 'auto-accept', match });
+      stats.autoAccepted++;
+    } else if (band === 'reject') {
+      decisions.set(article.id, { accepted: false, path: 'auto-reject', match });
+      stats.autoRejected++;
+    } else {
+      // Keyword verdict until the AI validator answers
+      decisions.set(article.id, { accepted: match.matched, path: 'keyword-fallback', match });
+      borderline.push(article);
+    }
+  }
+
+  if (borderline.length > 0 && useAi) {
+    let verdicts = new Map<string, AiValidationResult>();
+    try {
+      verdicts = await validate(borderline);
+    } catch (error) {
+      logger.warn({ error }, 'AI validation unavailable, keeping keyword verdicts');
+    }
+
+    for (const [articleId, ai] of verdicts) {
+      const decision = decisions.get(articleId);
+      if (decision?.path === 'keyword-fallback') {
+        decisions.set(articleId, { ...decision, accepted: ai.isRelevant, path: 'ai', ai });
+        stats.aiValidated++;
+        stats.aiAccepted += ai.isRelevant ? 1 : 0;
+        stats.aiTokens += ai.tokensUsed;
+      }
+    }
+  }
+  stats.keywordFallback = borderline.length - stats.aiValidated;
+
+  const accepted = articles.filter((a) => decisions.get(a.id)?.accepted);
+  const rejected = articles.filter((a) => !decisions.get(a.id)?.accepted);
+
+  logger.info(
+    {
+      ...stats,
+      accepted: accepted.length,
+      rejected: rejected.length,
+      keywordVersion: keywordSet.version,
+    },
+    'Hybrid filter complete'
+  );
+
+  return { accepted, rejected, decisions, stats };
+}
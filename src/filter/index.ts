@@ -8,6 +8,7 @@ export {
   matchArticle,
   filterArticles,
   toKeywordMatch,
+  toArticleMatch,
   DEFAULT_FILTER_CONFIG,
   type MatchResult,
   type FilterConfig,
@@ -20,4 +21,29 @@ export {
   type AiValidationResult,
 } from './ai-validator.js';
 
-export { TECH_KEYWORDS, type KeywordCategory } from '../config/keywords.js';
+export {
+  filterArticlesHybrid,
+  getScoreBand,
+  getRejectionReason,
+  toDecisionMatch,
+  type ScoreBand,
+  type FilterDecision,
+  type HybridFilterStats,
+  type HybridFilterResult,
+  type HybridFilterOptions,
+} from './hybrid-filter.js';
+
+export { loadKeywordSet, getCurrentKeywordSet } from './keyword-set.js';
+
+export { parseKeywordRule, hasRuleModifiers, type KeywordRule } from './keyword-rules.js';
+
+export {
+  TECH_KEYWORDS,
+  KEYWORD_CATEGORIES,
+  DEFAULT_KEYWORD_SET,
+  getDefaultKeywords,
+  toKeywordEntry,
+  type KeywordCategory,
+  type KeywordEntry,
+  type KeywordSet,
+} from '../config/keywords.js';
@@ -0,0 +1,98 @@
+/**
+ * Keyword Rules
+ *
+ * Parses the rule language of filter keywords: the keyword, then optional
+ * modifiers that disambiguate it.
+ *
+ *   =Meta                          case-sensitive, whole word
+ *   Block +Square +"Jack Dorsey"   only when one of the + terms is in the article
+ *   cloud -"Saint-Cloud"           not when a - term is in the article
+ *   fusion +logiciel -nucléaire ~8 + and - terms looked for within 8 words of the keyword
+ *
+ * A plain keyword ("intelligence artificielle") is a rule without modifiers.
+ * Multi-word terms after + and - are quoted; + and - terms ignore case.
+ */
+
+/**
+ * Parsed keyword rule
+ */
+export interface KeywordRule {
+  keyword: string;
+  caseSensitive: boolean;
+  /** The keyword only counts when one of these terms co-occurs */
+  requires: string[];
+  /** The keyword does not count when one of these terms co-occurs */
+  excludes: string[];
+  /** Words on each side of an occurrence where terms are looked for (whole article when unset) */
+  window?: number;
+}
+
+/**
+ * Rule tokens: optional modifier prefix, then a quoted or bare term
+ */
+const TOKEN_PATTERN = /([+\-~]?)(?:"([^"]*)"|(\S+))/g;
+
+/**
+ * Check if a keyword source uses modifiers (plain keywords are stored as is)
+ */
+export function hasRuleModifiers(rule: KeywordRule): boolean {
+  return (
+    rule.caseSensitive ||
+    rule.requires.length > 0 ||
+    rule.excludes.length > 0 ||
+    rule.window !== undefined
+  );
+}
+
+/**
+ * Parse a keyword rule
+ * Throws on malformed rules (unterminated quote, empty term, misplaced words)
+ */
+export function parseKeywordRule(source: string): KeywordRule {
+  let text = source.trim();
+  const caseSensitive = text.startsWith('=');
+  if (caseSensitive) {
+    text = text.slice(1).trimStart();
+  }
+
+  const keywordWords: string[] = [];
+  const rule: KeywordRule = { keyword: '', caseSensitive, requires: [], excludes: [] };
+  let inModifiers = false;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const prefix = match[1] ?? '';
+    const quoted = match[2];
+    const term = (quoted ?? match[3] ?? '').trim();
+
+    if (quoted === undefined && term.includes('"')) {
+      throw new Error(`Unterminated quote in keyword rule: ${source}`);
+    }
+    if (!term) {
+      throw new Error(`Empty term in keyword rule: ${source}`);
+    }
+
+    if (prefix === '+') {
+      rule.requires.push(term);
+    } else if (prefix === '-') {
+      rule.excludes.push(term);
+    } else if (prefix === '~') {
+      const window = Number(term);
+      if (!Number.isInteger(window) || window < 1) {
+        throw new Error(`Window must be a positive number of words: ${source}`);
+      }
+      rule.window = window;
+    } else if (inModifiers) {
+      throw new Error(`Unexpected "${term}" after modifiers (quote multi-word terms): ${source}`);
+    } else {
+      keywordWords.push(term);
+      continue;
+    }
+    inModifiers = true;
+  }
+
+  rule.keyword = keywordWords.join(' ');
+  if (!rule.keyword) {
+    throw new Error(`Missing keyword in rule: ${source}`);
+  }
+  return rule;
+}
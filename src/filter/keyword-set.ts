@@ -0,0 +1,43 @@
+/**
+ * Keyword Set Loader
+ *
+ * Keeps the enabled keywords of the keywords table in memory and reloads
+ * them when the set version changes, so keyword edits apply from the next
+ * pipeline run without a restart
+ */
+
+import { DEFAULT_KEYWORD_SET, getDefaultKeywords, type KeywordSet } from '../config/keywords.js';
+import { getKeywordSet, getKeywordSetVersion, seedKeywords } from '../db/queries.js';
+import { logger } from '../utils/logger.js';
+
+let current: KeywordSet | null = null;
+
+/**
+ * Get the keyword set, reloaded if its version changed since the last load
+ * Seeds the keywords table with TECH_KEYWORDS when it was never set
+ */
+export async function loadKeywordSet(): Promise<KeywordSet> {
+  if (!current) {
+    const seeded = await seedKeywords(getDefaultKeywords());
+    if (seeded > 0) {
+      logger.info({ count: seeded }, 'Keywords table seeded with default keywords');
+    }
+  }
+
+  const version = await getKeywordSetVersion();
+  if (current?.version !== version) {
+    current = await getKeywordSet();
+    logger.info(
+      { version: current.version, keywords: current.keywords.length },
+      'Keyword set loaded'
+    );
+  }
+  return current;
+}
+
+/**
+ * Get the last loaded keyword set (the built-in set before the first load)
+ */
+export function getCurrentKeywordSet(): KeywordSet {
+  return current ?? DEFAULT_KEYWORD_SET;
+}
@@ -1,12 +1,25 @@
 /**
  * Keyword Matcher
  *
- * Matches articles against tech keywords and calculates relevance scores
+ * Matches articles against tech keywords and calculates relevance scores.
+ * Keywords with rule modifiers (case, co-occurrence, exclusions) only count
+ * when their rule holds, see keyword-rules.ts.
+ *
+ * Each keyword set is compiled once into an Aho-Corasick automaton of all its
+ * keywords and rule terms; an article field is normalized and scanned once
  */
 
-import { TECH_KEYWORDS, type KeywordCategory } from '../config/keywords.js';
+import {
+  DEFAULT_KEYWORD_SET,
+  KEYWORD_CATEGORIES,
+  type KeywordCategory,
+  type KeywordEntry,
+  type KeywordSet,
+} from '../config/keywords.js';
+import { parseKeywordRule, type KeywordRule } from './keyword-rules.js';
+import { buildAutomaton, type Automaton } from './aho-corasick.js';
 import { logger } from '../utils/logger.js';
-import type { Article, KeywordMatch } from '../types/index.js';
+import type { Article, ArticleMatch, KeywordMatch } from '../types/index.js';
 
 /**
  * Match result with detailed scoring
@@ -16,6 +29,8 @@ export interface MatchResult {
   score: number;
   matchedKeywords: string[];
   matchedCategories: KeywordCategory[];
+  /** Keyword set version the article was matched with */
+  keywordVersion: number;
   details: {
     titleMatches: string[];
     contentMatches: string[];
@@ -26,7 +41,12 @@ export interface MatchResult {
  * Filter configuration
  */
 export interface FilterConfig {
+  /** Keyword-only verdict, used when a borderline score cannot be sent to AI validation */
   minScore: number;
+  /** Hybrid filter: scores at or above this are accepted without AI validation */
+  autoAcceptScore: number;
+  /** Hybrid filter: scores below this are rejected without AI validation */
+  autoRejectScore: number;
   titleWeight: number;
   contentWeight: number;
   companyWeight: number;
@@ -39,6 +59,8 @@ export interface FilterConfig {
  */
 export const DEFAULT_FILTER_CONFIG: FilterConfig = {
   minScore: 2,
+  autoAcceptScore: 6,
+  autoRejectScore: 2,
   titleWeight: 3,
   contentWeight: 1,
   companyWeight: 2,
@@ -46,71 +68,337 @@ export const DEFAULT_FILTER_CONFIG: FilterConfig = {
   termWeight: 1,
 };
 
+/**
+ * Text looked for in articles: a keyword, or a + / - term of a keyword rule
+ */
+interface Term {
+  id: number;
+  /** Automaton pattern of the normalized text */
+  pattern: number;
+  /** Occurrences must start and end on word boundaries */
+  wholeWord: boolean;
+  /** Case-sensitive terms: the occurrence must be this text (accents removed) */
+  exact?: string;
+}
+
+/**
+ * Keyword entry with its parsed rule and terms
+ */
+interface CompiledKeyword {
+  entry: KeywordEntry;
+  rule: KeywordRule;
+  term: number;
+  requires: number[];
+  excludes: number[];
+}
+
+/**
+ * Keyword set compiled into one automaton
+ */
+interface CompiledKeywordSet {
+  automaton: Automaton;
+  /** Terms of each automaton pattern */
+  patternTerms: Term[][];
+  keywords: Record<KeywordCategory, CompiledKeyword[]>;
+}
+
+/**
+ * Term occurrences in an article field
+ */
+interface FieldScan {
+  /** Normalized text */
+  text: string;
+  /** [start, end) offsets of each term found */
+  occurrences: Map<number, Array<[number, number]>>;
+  /** Word index of each offset, computed by the first window check */
+  words?: Uint32Array;
+}
+
+/**
+ * Compiled keyword sets (one per set version)
+ */
+const compiledSets = new WeakMap<KeywordSet, CompiledKeywordSet>();
+
+/**
+ * Remove accents
+ */
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Lowercase text, keeping its length so offsets match the original
+ */
+function toLowerCase(text: string): string {
+  const lower = text.toLowerCase();
+  if (lower.length === text.length) {
+    return lower;
+  }
+  return Array.from(text, (c) => {
+    const l = c.toLowerCase();
+    return l.length === c.length ? l : c;
+  }).join('');
+}
+
 /**
  * Normalize text for matching (lowercase, remove accents)
  */
 function normalizeText(text: string): string {
-  return text
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '');
+  return toLowerCase(stripAccents(text));
+}
+
+/**
+ * Check if a character code is a word character (same as \w)
+ */
+function isWordChar(code: number): boolean {
+  return (
+    (code >= 48 && code <= 57) ||
+    (code >= 65 && code <= 90) ||
+    (code >= 97 && code <= 122) ||
+    code === 95
+  );
+}
+
+/**
+ * Check if an offset is on a word boundary (same as \b)
+ */
+function isWordBoundary(text: string, offset: number): boolean {
+  return isWordChar(text.charCodeAt(offset - 1)) !== isWordChar(text.charCodeAt(offset));
+}
+
+/**
+ * Check if a character code is whitespace (same as \s for Latin text)
+ */
+function isSpace(code: number): boolean {
+  return code === 32 || (code >= 9 && code <= 13) || code === 160 || code === 0x202f;
+}
+
+/**
+ * Parse the rules of a keyword set and build its automaton (once per set)
+ * Invalid rules are left out
+ */
+function compileKeywordSet(keywordSet: KeywordSet): CompiledKeywordSet {
+  const cached = compiledSets.get(keywordSet);
+  if (cached) {
+    return cached;
+  }
+
+  const patterns: string[] = [];
+  const patternIds = new Map<string, number>();
+  const patternTerms: Term[][] = [];
+  const termIds = new Map<string, number>();
+  let termCount = 0;
+
+  // Keywords and rule terms sharing a normalized text share a pattern
+  const addTerm = (text: string, caseSensitive: boolean): number => {
+    const normalized = normalizeText(text);
+    // Short keywords (< 4 chars) and case-sensitive ones require word boundaries
+    const wholeWord = caseSensitive || normalized.length < 4;
+    const exact = caseSensitive ? stripAccents(text) : undefined;
+
+    const key = JSON.stringify([normalized, wholeWord, exact]);
+    const existing = termIds.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    let pattern = patternIds.get(normalized);
+    if (pattern === undefined) {
+      pattern = patterns.length;
+      patterns.push(normalized);
+      patternIds.set(normalized, pattern);
+      patternTerms.push([]);
+    }
+
+    const term: Term = { id: termCount++, pattern, wholeWord, exact };
+    patternTerms[pattern]!.push(term);
+    termIds.set(key, term.id);
+    return term.id;
+  };
+
+  const keywords: Record<KeywordCategory, CompiledKeyword[]> = {
+    companies: [],
+    themes: [],
+    terms: [],
+  };
+  for (const entry of keywordSet.keywords) {
+    let rule: KeywordRule;
+    try {
+      rule = entry.rule
+        ? parseKeywordRule(entry.rule)
+        : { keyword: entry.keyword, caseSensitive: false, requires: [], excludes: [] };
+    } catch (error) {
+      logger.warn({ error, keyword: entry.keyword }, 'Invalid keyword rule, keyword ignored');
+      continue;
+    }
+
+    keywords[entry.category].push({
+      entry,
+      rule,
+      term: addTerm(rule.keyword, rule.caseSensitive),
+      requires: rule.requires.map((t) => addTerm(t, false)),
+      excludes: rule.excludes.map((t) => addTerm(t, false)),
+    });
+  }
+
+  const compiled = { automaton: buildAutomaton(patterns), patternTerms, keywords };
+  compiledSets.set(keywordSet, compiled);
+  logger.debug(
+    { version: keywordSet.version, patterns: patterns.length, terms: termCount },
+    'Keyword automaton built'
+  );
+  return compiled;
 }
 
 /**
- * Check if text contains a keyword (word boundary aware)
+ * Find the terms of a keyword set in an article field, in one pass
+ * Case-sensitive terms are checked against the text without accents
  */
-function containsKeyword(text: string, keyword: string): boolean {
-  const normalizedText = normalizeText(text);
-  const normalizedKeyword = normalizeText(keyword);
+function scanField(text: string, compiled: CompiledKeywordSet): FieldScan {
+  const stripped = stripAccents(text);
+  const normalized = toLowerCase(stripped);
+  const occurrences = new Map<number, Array<[number, number]>>();
+
+  for (const { pattern, start, end } of compiled.automaton.search(normalized)) {
+    for (const term of compiled.patternTerms[pattern] ?? []) {
+      if (
+        term.wholeWord &&
+        !(isWordBoundary(normalized, start) && isWordBoundary(normalized, end))
+      ) {
+        continue;
+      }
+      if (term.exact !== undefined && !stripped.startsWith(term.exact, start)) {
+        continue;
+      }
+
+      const spans = occurrences.get(term.id);
+      if (spans) {
+        spans.push([start, end]);
+      } else {
+        occurrences.set(term.id, [[start, end]]);
+      }
+    }
+  }
+
+  return { text: normalized, occurrences };
+}
 
-  // For short keywords (< 4 chars), require word boundaries
-  if (normalizedKeyword.length < 4) {
-    const regex = new RegExp(`\\b${escapeRegex(normalizedKeyword)}\\b`, 'i');
-    return regex.test(normalizedText);
+/**
+ * Get the word index (whitespace-separated) of each offset of a field
+ */
+function getWordIndex(field: FieldScan): Uint32Array {
+  if (!field.words) {
+    const { text } = field;
+    const words = new Uint32Array(text.length + 1);
+    let word = 0;
+    for (let i = 0; i < text.length; i++) {
+      if (i > 0 && isSpace(text.charCodeAt(i - 1)) && !isSpace(text.charCodeAt(i))) {
+        word++;
+      }
+      words[i] = word;
+    }
+    words[text.length] = word;
+    field.words = words;
   }
+  return field.words;
+}
 
-  // For longer keywords, simple includes is sufficient
-  return normalizedText.includes(normalizedKeyword);
+/**
+ * Check if a term occurs within `window` words of an occurrence [start, end)
+ */
+function hasTermInWindow(
+  field: FieldScan,
+  term: number,
+  start: number,
+  end: number,
+  window: number
+): boolean {
+  const words = getWordIndex(field);
+  const first = words[start]! - window;
+  const last = words[end - 1]! + window;
+  return (field.occurrences.get(term) ?? []).some(
+    ([s, e]) => words[s]! >= first && words[e - 1]! <= last
+  );
 }
 
 /**
- * Escape regex special characters
+ * Check if a keyword rule holds in an article field
+ * Co-occurring terms are looked for around each occurrence, or in the whole article
  */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+function matchesRule(
+  field: FieldScan,
+  article: readonly FieldScan[],
+  keyword: CompiledKeyword
+): boolean {
+  const occurrences = field.occurrences.get(keyword.term);
+  if (!occurrences) {
+    return false;
+  }
+
+  const { requires, excludes, rule } = keyword;
+  if (requires.length === 0 && excludes.length === 0) {
+    return true;
+  }
+
+  const { window } = rule;
+  if (window === undefined) {
+    const found = (term: number): boolean => article.some((f) => f.occurrences.has(term));
+    return (requires.length === 0 || requires.some(found)) && !excludes.some(found);
+  }
+
+  return occurrences.some(([start, end]) => {
+    const found = (term: number): boolean => hasTermInWindow(field, term, start, end, window);
+    return (requires.length === 0 || requires.some(found)) && !excludes.some(found);
+  });
 }
 
 /**
- * Find all matching keywords in text
+ * Find all matching keywords in an article field
  */
-function findMatches(text: string, keywords: readonly string[]): string[] {
-  const matches: string[] = [];
+function findMatches(
+  field: FieldScan,
+  article: readonly FieldScan[],
+  keywords: readonly CompiledKeyword[]
+): KeywordEntry[] {
+  const matches: KeywordEntry[] = [];
 
   for (const keyword of keywords) {
-    if (containsKeyword(text, keyword)) {
-      matches.push(keyword);
+    if (matchesRule(field, article, keyword)) {
+      matches.push(keyword.entry);
     }
   }
 
   return matches;
 }
 
+/**
+ * Sum the weights of matched keywords, the category weight unless overridden
+ */
+function sumWeights(matches: KeywordEntry[], categoryWeight: number): number {
+  return matches.reduce((sum, m) => sum + (m.weight ?? categoryWeight), 0);
+}
+
 /**
  * Match an article against tech keywords
  */
 export function matchArticle(
   article: Article,
-  config: FilterConfig = DEFAULT_FILTER_CONFIG
+  config: FilterConfig = DEFAULT_FILTER_CONFIG,
+  keywordSet: KeywordSet = DEFAULT_KEYWORD_SET
 ): MatchResult {
   const titleMatches: string[] = [];
   const contentMatches: string[] = [];
   const matchedCategories = new Set<KeywordCategory>();
 
   let score = 0;
+  const compiled = compileKeywordSet(keywordSet);
+  const title = scanField(article.title, compiled);
+  const content = scanField(article.content, compiled);
+  const fields = [title, content];
 
   // Check each category
-  for (const [category, keywords] of Object.entries(TECH_KEYWORDS)) {
-    const categoryKey = category as KeywordCategory;
+  for (const categoryKey of KEYWORD_CATEGORIES) {
+    const keywords = compiled.keywords[categoryKey];
 
     // Get weight for this category
     let categoryWeight: number;
@@ -129,27 +417,27 @@ export function matchArticle(
     }
 
     // Check title
-    const titleCategoryMatches = findMatches(article.title, keywords);
+    const titleCategoryMatches = findMatches(title, fields, keywords);
     if (titleCategoryMatches.length > 0) {
-      titleMatches.push(...titleCategoryMatches);
+      titleMatches.push(...titleCategoryMatches.map((m) => m.keyword));
       matchedCategories.add(categoryKey);
-      score += titleCategoryMatches.length * config.titleWeight * categoryWeight;
+      score += sumWeights(titleCategoryMatches, categoryWeight) * config.titleWeight;
     }
 
     // Check content
-    const contentCategoryMatches = findMatches(article.content, keywords);
+    const contentCategoryMatches = findMatches(content, fields, keywords);
     if (contentCategoryMatches.length > 0) {
       // Only add unique matches not already in title
       const uniqueContentMatches = contentCategoryMatches.filter(
         (m) => !titleCategoryMatches.includes(m)
       );
-      contentMatches.push(...uniqueContentMatches);
+      contentMatches.push(...uniqueContentMatches.map((m) => m.keyword));
 
       if (uniqueContentMatches.length > 0) {
         matchedCategories.add(categoryKey);
       }
 
-      score += contentCategoryMatches.length * config.contentWeight * categoryWeight;
+      score += sumWeights(contentCategoryMatches, categoryWeight) * config.contentWeight;
     }
   }
 
@@ -160,6 +448,7 @@ export function matchArticle(
     score,
     matchedKeywords: allMatches,
     matchedCategories: Array.from(matchedCategories),
+    keywordVersion: keywordSet.version,
     details: {
       titleMatches: [...new Set(titleMatches)],
       contentMatches: [...new Set(contentMatches)],
@@ -191,19 +480,34 @@ export function toKeywordMatch(result: MatchResult): KeywordMatch {
   };
 }
 
+/**
+ * Convert MatchResult to the ArticleMatch of an article (for database storage)
+ */
+export function toArticleMatch(articleId: string, result: MatchResult): ArticleMatch {
+  return {
+    ...toKeywordMatch(result),
+    articleId,
+    score: result.score,
+    titleMatches: result.details.titleMatches,
+    contentMatches: result.details.contentMatches,
+    keywordVersion: result.keywordVersion,
+  };
+}
+
 /**
  * Filter multiple articles
  */
 export function filterArticles(
   articles: Article[],
-  config: FilterConfig = DEFAULT_FILTER_CONFIG
+  config: FilterConfig = DEFAULT_FILTER_CONFIG,
+  keywordSet: KeywordSet = DEFAULT_KEYWORD_SET
 ): { matched: Article[]; rejected: Article[]; results: Map<string, MatchResult> } {
   const matched: Article[] = [];
   const rejected: Article[] = [];
   const results = new Map<string, MatchResult>();
 
   for (const article of articles) {
-    const result = matchArticle(article, config);
+    const result = matchArticle(article, config, keywordSet);
     results.set(article.id, result);
 
     if (result.matched) {
@@ -218,6 +522,7 @@ export function filterArticles(
       total: articles.length,
       matched: matched.length,
       rejected: rejected.length,
+      keywordVersion: keywordSet.version,
     },
     'Articles filtered'
   );
@@ -0,0 +1,52 @@
+/**
+ * Aho-Corasick Test Script
+ *
+ * Run with: npx tsx src/filter/test-aho-corasick.ts
+ */
+
+import assert from 'assert/strict';
+import { buildAutomaton } from './aho-corasick.js';
+import { logger } from '../utils/logger.js';
+
+function testAhoCorasick(): void {
+  logger.info('Starting Aho-Corasick test');
+
+  const automaton = buildAutomaton(['he', 'she', 'his', 'hers', '', 'she']);
+  assert.equal(automaton.patternCount, 6);
+
+  // Overlapping occurrences, by end offset; duplicate patterns both report, empty ones never
+  assert.deepEqual(automaton.search('ushers'), [
+    { pattern: 1, start: 1, end: 4 },
+    { pattern: 5, start: 1, end: 4 },
+    { pattern: 0, start: 2, end: 4 },
+    { pattern: 3, start: 2, end: 6 },
+  ]);
+  assert.deepEqual(automaton.search('ahishe'), [
+    { pattern: 2, start: 1, end: 4 },
+    { pattern: 1, start: 3, end: 6 },
+    { pattern: 5, start: 3, end: 6 },
+    { pattern: 0, start: 4, end: 6 },
+  ]);
+  assert.deepEqual(automaton.search('xyz'), []);
+  assert.deepEqual(buildAutomaton([]).search('anything'), []);
+
+  // Fail links back to a shorter prefix
+  const cloud = buildAutomaton(['cloud computing', 'cloud']);
+  assert.deepEqual(
+    cloud.search('cloud cloud computing').map((m) => [m.pattern, m.start]),
+    [
+      [1, 0],
+      [1, 6],
+      [0, 6],
+    ]
+  );
+
+  logger.info('=== Aho-Corasick Test Complete ===');
+}
+
+try {
+  testAhoCorasick();
+} catch (error) {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+}
@@ -5,6 +5,8 @@
  */
 
 import { matchArticle, filterArticles, DEFAULT_FILTER_CONFIG } from './matcher.js';
+import { loadKeywordSet } from './keyword-set.js';
+import type { KeywordSet } from '../config/keywords.js';
 import { initDatabase, closeDatabase, query } from '../db/index.js';
 import { logger } from '../utils/logger.js';
 import type { Article } from '../types/index.js';
@@ -72,6 +74,37 @@ async function testFilter(): Promise<void> {
     });
   }
 
+  // Keyword set with an analyst keyword and a weight override
+  logger.info('=== Testing with a custom keyword set ===');
+
+  const customSet: KeywordSet = {
+    version: 42,
+    keywords: [
+      { keyword: 'Mistral AI', category: 'companies', weight: 4 },
+      { keyword: 'cloud', category: 'themes' },
+    ],
+  };
+  const custom = matchArticle(
+    {
+      id: 'test-custom',
+      title: 'Mistral AI lève 600 millions',
+      content: 'La start-up française renforce son offre cloud.',
+      url: 'https://example.com/mistral',
+      publishedAt: new Date(),
+      source: 'abcbourse',
+      createdAt: new Date(),
+    },
+    DEFAULT_FILTER_CONFIG,
+    customSet
+  );
+  logger.info({
+    matched: custom.matched,
+    // Title 4 x 3, content (4 + 1.5) x 1
+    score: custom.score,
+    keywords: custom.matchedKeywords,
+    keywordVersion: custom.keywordVersion,
+  });
+
   // Test with real articles from database
   logger.info('=== Testing with real articles from database ===');
 
@@ -107,12 +140,18 @@ async function testFilter(): Promise<void> {
     if (realArticles.length === 0) {
       logger.warn('No articles with content found. Run test-content.ts first.');
     } else {
-      const { matched, rejected, results } = filterArticles(realArticles);
+      const keywordSet = await loadKeywordSet();
+      const { matched, rejected, results } = filterArticles(
+        realArticles,
+        DEFAULT_FILTER_CONFIG,
+        keywordSet
+      );
 
       logger.info({
         total: realArticles.length,
         matched: matched.length,
         rejected: rejected.length,
+        keywordVersion: keywordSet.version,
       }, 'Filter results');
 
       logger.info('Matched articles:');
@@ -0,0 +1,129 @@
+/**
+ * Hybrid Filter Test Script
+ *
+ * Checks the score bands and the AI validation of borderline articles,
+ * with a stub validator (offline, no database, no OpenAI call)
+ *
+ * Run with: npx tsx src/filter/test-hybrid.ts
+ */
+
+import assert from 'assert/strict';
+import { filterArticlesHybrid, getRejectionReason, getScoreBand } from './hybrid-filter.js';
+import { DEFAULT_FILTER_CONFIG } from './matcher.js';
+import { logger } from '../utils/logger.js';
+import type { AiValidationResult } from './ai-validator.js';
+import type { Article } from '../types/index.js';
+
+function article(id: string, title: string, content: string): Article {
+  return {
+    id,
+    title,
+    content,
+    url: `https://example.com/${id}`,
+    publishedAt: new Date(),
+    source: 'abcbourse',
+    createdAt: new Date(),
+  };
+}
+
+const ARTICLES = [
+  // Company and themes in the title: auto-accept
+  article('nvidia', "NVIDIA annonce de nouveaux GPU pour l'IA", 'Les puces GPU de NVIDIA.'),
+  // Nothing tech: auto-reject
+  article('bce', 'Les taux restent stables', 'La BCE maintient ses taux directeurs.'),
+  // Content-only mentions: borderline
+  article(
+    'cloud',
+    'Les résultats du trimestre',
+    'Le groupe investit dans le cloud et la cybersécurité.'
+  ),
+  article(
+    'fusion',
+    'Un groupe agroalimentaire en fusion',
+    'Le projet de fusion mise sur la technologie.'
+  ),
+];
+
+async function testHybridFilter(): Promise<void> {
+  logger.info('Starting hybrid filter test');
+
+  // Bands: [autoRejectScore, autoAcceptScore) is borderline
+  assert.equal(getScoreBand(0), 'reject');
+  assert.equal(getScoreBand(1.5), 'reject');
+  assert.equal(getScoreBand(2), 'borderline');
+  assert.equal(getScoreBand(5.9), 'borderline');
+  assert.equal(getScoreBand(6), 'accept');
+  assert.equal(getScoreBand(3, { ...DEFAULT_FILTER_CONFIG, autoAcceptScore: 3 }), 'accept');
+
+  // Only borderline articles reach the validator, its verdict wins
+  const sent: string[] = [];
+  const validate = (articles: Article[]): Promise<Map<string, AiValidationResult>> => {
+    sent.push(...articles.map((a) => a.id));
+    return Promise.resolve(
+      new Map([
+        [
+          'cloud',
+          { isRelevant: true, confidence: 0.8, reason: 'Cloud et cybersécurité', tokensUsed: 120 },
+        ],
+        [
+          'fusion',
+          { isRelevant: false, confidence: 0.9, reason: 'Agroalimentaire', tokensUsed: 110 },
+        ],
+      ])
+    );
+  };
+
+  const result = await filterArticlesHybrid(ARTICLES, { validate });
+  assert.deepEqual(sent, ['cloud', 'fusion']);
+  assert.deepEqual(
+    result.accepted.map((a) => a.id),
+    ['nvidia', 'cloud']
+  );
+  assert.deepEqual(
+    result.rejected.map((a) => a.id),
+    ['bce', 'fusion']
+  );
+  assert.deepEqual(result.stats, {
+    total: 4,
+    autoAccepted: 1,
+    autoRejected: 1,
+    aiValidated: 2,
+    aiAccepted: 1,
+    keywordFallback: 0,
+    aiTokens: 230,
+  });
+
+  const fusion = result.decisions.get('fusion');
+  assert.ok(fusion);
+  assert.equal(fusion.path, 'ai');
+  assert.equal(fusion.match.matched, true);
+  assert.equal(getRejectionReason(fusion, DEFAULT_FILTER_CONFIG), 'AI: Agroalimentaire');
+
+  const bce = result.decisions.get('bce');
+  assert.ok(bce);
+  assert.equal(bce.path, 'auto-reject');
+  assert.equal(getRejectionReason(bce, DEFAULT_FILTER_CONFIG), 'No tech keywords matched');
+
+  // Validator down: borderline articles keep their keyword verdict
+  const fallback = await filterArticlesHybrid(ARTICLES, {
+    validate: () => Promise.reject(new Error('OpenAI unavailable')),
+  });
+  assert.deepEqual(
+    fallback.accepted.map((a) => a.id),
+    ['nvidia', 'cloud', 'fusion']
+  );
+  assert.equal(fallback.stats.keywordFallback, 2);
+  assert.equal(fallback.decisions.get('cloud')?.path, 'keyword-fallback');
+
+  // AI disabled: the validator is not called
+  sent.length = 0;
+  await filterArticlesHybrid(ARTICLES, { validate, useAi: false });
+  assert.deepEqual(sent, []);
+
+  logger.info('=== Hybrid Filter Test Complete ===');
+}
+
+testHybridFilter().catch((error: unknown) => {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+});
@@ -0,0 +1,109 @@
+/**
+ * Keyword Rules Test Script
+ *
+ * Checks the rule parser and the disambiguation of ambiguous keywords
+ * by the matcher (offline, no database)
+ *
+ * Run with: npx tsx src/filter/test-keyword-rules.ts
+ */
+
+import assert from 'assert/strict';
+import { parseKeywordRule } from './keyword-rules.js';
+import { matchArticle, DEFAULT_FILTER_CONFIG } from './matcher.js';
+import { toKeywordEntry, type KeywordCategory, type KeywordSet } from '../config/keywords.js';
+import { logger } from '../utils/logger.js';
+import type { Article } from '../types/index.js';
+
+function article(title: string, content: string): Article {
+  return {
+    id: 'test',
+    title,
+    content,
+    url: 'https://example.com/test',
+    publishedAt: new Date(),
+    source: 'abcbourse',
+    createdAt: new Date(),
+  };
+}
+
+function keywordSet(rules: Array<[string, KeywordCategory]>): KeywordSet {
+  return {
+    version: 1,
+    keywords: rules.map(([source, category]) => toKeywordEntry(source, category)),
+  };
+}
+
+function matched(set: KeywordSet, title: string, content = ''): string[] {
+  return matchArticle(article(title, content), DEFAULT_FILTER_CONFIG, set).matchedKeywords;
+}
+
+function testKeywordRules(): void {
+  logger.info('Starting keyword rules test');
+
+  // Parser
+  assert.deepEqual(parseKeywordRule('intelligence artificielle'), {
+    keyword: 'intelligence artificielle',
+    caseSensitive: false,
+    requires: [],
+    excludes: [],
+  });
+  assert.deepEqual(parseKeywordRule('=Block +Square +"Jack Dorsey" -"Block Party" ~10'), {
+    keyword: 'Block',
+    caseSensitive: true,
+    requires: ['Square', 'Jack Dorsey'],
+    excludes: ['Block Party'],
+    window: 10,
+  });
+  assert.throws(() => parseKeywordRule('Block +"Jack Dorsey'), /Unterminated quote/);
+  assert.throws(() => parseKeywordRule('Block +""'), /Empty term/);
+  assert.throws(() => parseKeywordRule('Block +Jack Dorsey'), /Unexpected "Dorsey"/);
+  assert.throws(() => parseKeywordRule('+Square'), /Missing keyword/);
+  assert.throws(() => parseKeywordRule('fusion ~0'), /positive number/);
+
+  const plain = toKeywordEntry('  cloud ', 'themes');
+  assert.equal(plain.keyword, 'cloud');
+  assert.equal(plain.rule, undefined);
+  assert.equal(toKeywordEntry('=Meta', 'companies').rule, '=Meta');
+
+  const set = keywordSet([
+    ['=Meta', 'companies'],
+    ['=Block +Square +"Jack Dorsey"', 'companies'],
+    ['cloud -"Saint-Cloud" ~2', 'themes'],
+    ['fusion +logiciel +startup -nucléaire ~5', 'terms'],
+  ]);
+
+  // Case-sensitive whole words
+  assert.deepEqual(matched(set, 'Meta dévoile ses lunettes'), ['Meta']);
+  assert.deepEqual(matched(set, 'Le prix des métaux recule'), []);
+  assert.deepEqual(matched(set, 'Les metadonnées du meta-verse'), []);
+
+  // Required co-occurrence, anywhere in the article without a window
+  assert.deepEqual(matched(set, 'Block publie ses résultats', 'Le groupe de Jack Dorsey...'), [
+    'Block',
+  ]);
+  assert.deepEqual(matched(set, 'Un Block de titres cédé', 'Une cession hors marché.'), []);
+
+  // Exclusions within the window: Saint-Cloud does not hide other cloud mentions
+  assert.deepEqual(matched(set, 'Un hippodrome à Saint-Cloud'), []);
+  assert.deepEqual(matched(set, 'Le cloud progresse', "Siège à Saint-Cloud, loin d'ici."), [
+    'cloud',
+  ]);
+
+  // Window: terms must be close to the keyword
+  assert.deepEqual(matched(set, 'Une fusion dans le logiciel'), ['fusion']);
+  assert.deepEqual(matched(set, 'Fusion de deux coopératives laitières'), []);
+  assert.deepEqual(
+    matched(set, 'Fusion de deux coopératives', 'Un mot sur le logiciel, bien plus loin.'),
+    []
+  );
+  assert.deepEqual(matched(set, 'Fusion nucléaire: une startup lève des fonds'), []);
+
+  logger.info('=== Keyword Rules Test Complete ===');
+}
+
+try {
+  testKeywordRules();
+} catch (error) {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+}
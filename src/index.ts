@@ -22,6 +22,7 @@ import { logger } from './utils/logger.js';
 import { initDatabase, closeDatabase } from './db/index.js';
 import { getStats } from './db/queries.js';
 import { runPipeline } from './pipeline.js';
+import { loadKeywordSet } from './filter/keyword-set.js';
 
 // Parse command line arguments
 const args = process.argv.slice(2);
@@ -40,7 +41,10 @@ async function executePipeline(): Promise<void> {
 
     logger.info('');
     logger.info('Pipeline Complete:');
-    logger.info(`  ✓ Scraped:    ${result.scraped} articles`);
+    logger.info(`  ✓ Scraped:    ${result.scraped} articles (${result.scrapePath ?? 'skipped'})`);
+    if (result.fallbackReason) {
+      logger.info(`  ⚠ Fallback:   ${result.fallbackReason}`);
+    }
     logger.info(`  ✓ Filtered:   ${result.filtered} articles`);
     logger.info(`  ✓ Summarized: ${result.summarized} articles`);
     logger.info(`  ✓ Pushed:     ${result.pushed} articles`);
@@ -109,6 +113,11 @@ async function main(): Promise<void> {
     setInterval(() => {
       logger.debug('Service heartbeat');
     }, 60000); // Heartbeat every minute
+
+    // Seed the keywords table; each pipeline run loads the current keyword set itself
+    await loadKeywordSet().catch((error: unknown) => {
+      logger.error({ error }, 'Failed to load keyword set');
+    });
   }
 }
 
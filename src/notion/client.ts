@@ -5,12 +5,20 @@
  * Auto-detects database schema and ensures required properties exist
  */
 
-import { Client } from '@notionhq/client';
+import { APIErrorCode, APIResponseError, Client } from '@notionhq/client';
 import type { CreatePageParameters } from '@notionhq/client/build/src/api-endpoints.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { withRetry } from '../utils/retry.js';
-import { recordNotionSync, logProcessing, getSummary, isArticleSynced } from '../db/queries.js';
+import { formatParisDate } from '../utils/date.js';
+import {
+  recordNotionSync,
+  logProcessing,
+  getSummary,
+  isArticleSynced,
+  getNotionSync,
+  getStoryDuplicateArticles,
+} from '../db/queries.js';
 import type { Article, ArticleSummary } from '../types/index.js';
 
 /**
@@ -43,6 +51,11 @@ interface DatabaseSchema {
   hasPublishedDate: boolean;
   hasProcessedDate: boolean;
   hasUrl: boolean;
+  hasAlsoReportedBy: boolean;
+  hasAuthor: boolean;
+  hasSection: boolean;
+  hasTags: boolean;
+  hasWordCount: boolean;
   initialized: boolean;
 }
 
@@ -51,7 +64,22 @@ let cachedSchema: DatabaseSchema | null = null;
 /**
  * Required property names for the database
  */
-const REQUIRED_PROPERTY_NAMES = ['Source', 'Published Date', 'Processed Date', 'URL'] as const;
+const REQUIRED_PROPERTY_NAMES = [
+  'Source',
+  'Published Date',
+  'Processed Date',
+  'URL',
+  'Also Reported By',
+  'Author',
+  'Section',
+  'Tags',
+  'Word Count',
+] as const;
+
+/**
+ * Tags set on a page at most
+ */
+const MAX_TAGS = 10;
 
 /**
  * Create Notion client
@@ -118,6 +146,14 @@ async function ensureDatabaseProperties(
           updateProps[propName] = { date: {} };
         } else if (propName === 'URL') {
           updateProps[propName] = { url: {} };
+        } else if (propName === 'Also Reported By' || propName === 'Author') {
+          updateProps[propName] = { rich_text: {} };
+        } else if (propName === 'Section') {
+          updateProps[propName] = { select: { options: [] } };
+        } else if (propName === 'Tags') {
+          updateProps[propName] = { multi_select: { options: [] } };
+        } else if (propName === 'Word Count') {
+          updateProps[propName] = { number: {} };
         }
       }
 
@@ -136,6 +172,11 @@ async function ensureDatabaseProperties(
       hasPublishedDate: true,
       hasProcessedDate: true,
       hasUrl: true,
+      hasAlsoReportedBy: true,
+      hasAuthor: true,
+      hasSection: true,
+      hasTags: true,
+      hasWordCount: true,
       initialized: true,
     };
 
@@ -151,6 +192,11 @@ async function ensureDatabaseProperties(
       hasPublishedDate: false,
       hasProcessedDate: false,
       hasUrl: false,
+      hasAlsoReportedBy: false,
+      hasAuthor: false,
+      hasSection: false,
+      hasTags: false,
+      hasWordCount: false,
       initialized: true,
     };
 
@@ -158,13 +204,38 @@ async function ensureDatabaseProperties(
   }
 }
 
+/**
+ * Select option names cannot contain commas and are limited to 100 characters
+ */
+function toSelectOption(value: string): string {
+  return value.replace(/,/g, ' ').trim().slice(0, 100);
+}
+
+/**
+ * "Also Reported By" value: the other sources of the story, linked to their article
+ */
+function createAlsoReportedByProperty(duplicates: Article[]): {
+  rich_text: Array<{ text: { content: string; link?: { url: string } } }>;
+} {
+  const richText: Array<{ text: { content: string; link?: { url: string } } }> = [];
+  for (const duplicate of duplicates) {
+    if (richText.length > 0) {
+      richText.push({ text: { content: ', ' } });
+    }
+    richText.push({ text: { content: duplicate.source, link: { url: duplicate.url } } });
+  }
+  return { rich_text: richText.slice(0, 100) }; // Notion limit
+}
+
 /**
  * Create Notion page properties from article
- * Includes: title, source, dates, URL (based on schema availability)
+ * Includes: title, source, dates, URL, other sources of the story, metadata
+ * (based on schema availability)
  */
 function createPageProperties(
   article: Article,
-  schema: DatabaseSchema
+  schema: DatabaseSchema,
+  duplicates: Article[]
 ): CreatePageParameters['properties'] {
   const properties: CreatePageParameters['properties'] = {
     // Title property (always required)
@@ -188,11 +259,11 @@ function createPageProperties(
     };
   }
 
-  // Add Published Date property
-  if (schema.hasPublishedDate) {
+  // Add Published Date property (left empty when the source gave no usable date)
+  if (schema.hasPublishedDate && !article.publishedAtUnknown) {
     properties['Published Date'] = {
       date: {
-        start: article.publishedAt.toISOString().split('T')[0]!,
+        start: formatParisDate(article.publishedAt),
       },
     };
   }
@@ -213,6 +284,35 @@ function createPageProperties(
     };
   }
 
+  // Add Also Reported By property
+  if (schema.hasAlsoReportedBy && duplicates.length > 0) {
+    properties['Also Reported By'] = createAlsoReportedByProperty(duplicates);
+  }
+
+  // Add metadata properties
+  const metadata = article.metadata ?? {};
+  if (schema.hasAuthor && metadata.author) {
+    properties['Author'] = {
+      rich_text: [{ text: { content: metadata.author.slice(0, 2000) } }],
+    };
+  }
+  if (schema.hasSection && metadata.section) {
+    properties['Section'] = {
+      select: { name: toSelectOption(metadata.section) },
+    };
+  }
+  const tags = [...new Set([...(metadata.categories ?? []), ...(metadata.keywords ?? [])])];
+  if (schema.hasTags && tags.length > 0) {
+    properties['Tags'] = {
+      multi_select: tags.slice(0, MAX_TAGS).map((tag) => ({ name: toSelectOption(tag) })),
+    };
+  }
+  if (schema.hasWordCount && metadata.wordCount !== undefined) {
+    properties['Word Count'] = {
+      number: metadata.wordCount,
+    };
+  }
+
   return properties;
 }
 
@@ -312,6 +412,36 @@ function createPageContent(
   return blocks;
 }
 
+/**
+ * Longest external URL Notion accepts
+ */
+const MAX_NOTION_URL_LENGTH = 2000;
+
+/**
+ * Get the page cover of an article image, if Notion can take its URL
+ */
+function getPageCover(imageUrl?: string): CreatePageParameters['cover'] {
+  if (!imageUrl || imageUrl.length > MAX_NOTION_URL_LENGTH) {
+    return undefined;
+  }
+  try {
+    const { protocol } = new URL(imageUrl);
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+  return { type: 'external', external: { url: imageUrl } };
+}
+
+/**
+ * Check if Notion rejected a request as invalid, which no retry can fix
+ */
+function isValidationError(error: unknown): boolean {
+  return error instanceof APIResponseError && error.code === APIErrorCode.ValidationError;
+}
+
 /**
  * Push article summary to Notion
  */
@@ -334,24 +464,47 @@ export async function pushToNotion(
 
     // Create content blocks
     const contentBlocks = createPageContent(article, summary);
+    const duplicates = await getStoryDuplicateArticles(article.id);
+
+    const createPage = (
+      cover: CreatePageParameters['cover']
+    ): ReturnType<typeof client.pages.create> =>
+      withRetry(
+        async () => {
+          return client.pages.create({
+            parent: {
+              database_id: databaseId,
+            },
+            properties: createPageProperties(article, schema, duplicates),
+            cover,
+            children: contentBlocks,
+          });
+        },
+        {
+          maxAttempts: 3,
+          initialDelayMs: 1000,
+          maxDelayMs: 10000,
+          factor: 2,
+          // A rejected request is rejected again, the cover fallback handles it
+          isRetryable: (error) => !isValidationError(error),
+        }
+      );
 
-    const response = await withRetry(
-      async () => {
-        return client.pages.create({
-          parent: {
-            database_id: databaseId,
-          },
-          properties: createPageProperties(article, schema),
-          children: contentBlocks,
-        });
-      },
-      {
-        maxAttempts: 3,
-        initialDelayMs: 1000,
-        maxDelayMs: 10000,
-        factor: 2,
+    const cover = getPageCover(article.metadata?.imageUrl);
+    let response: Awaited<ReturnType<typeof client.pages.create>>;
+    try {
+      response = await createPage(cover);
+    } catch (error) {
+      // A cover Notion refuses (unreachable or odd image URL) must not keep the article out
+      if (!cover || !isValidationError(error)) {
+        throw error;
       }
-    );
+      logger.warn(
+        { error, articleId: article.id, imageUrl: article.metadata?.imageUrl },
+        'Notion rejected the page, retrying without cover'
+      );
+      response = await createPage(undefined);
+    }
 
     const pageId = response.id;
 
@@ -444,6 +597,48 @@ export async function pushArticlesToNotion(
   return result;
 }
 
+/**
+ * Refresh "Also Reported By" on the pages of stories that gained duplicates
+ * after their primary was pushed. Returns the number of pages updated.
+ */
+export async function syncAlsoReportedBy(clusterIds: string[]): Promise<number> {
+  const databaseId = config.notion.databaseId;
+  if (!databaseId || clusterIds.length === 0) {
+    return 0;
+  }
+
+  const client = createClient();
+  const schema = await ensureDatabaseProperties(client, databaseId);
+  if (!schema.hasAlsoReportedBy) {
+    return 0;
+  }
+
+  let updated = 0;
+  for (const clusterId of clusterIds) {
+    const sync = await getNotionSync(clusterId);
+    if (!sync) {
+      continue; // Not pushed yet, the page gets the full list when it is
+    }
+
+    try {
+      const duplicates = await getStoryDuplicateArticles(clusterId);
+      await withRetry(
+        () =>
+          client.pages.update({
+            page_id: sync.notionPageId,
+            properties: { 'Also Reported By': createAlsoReportedByProperty(duplicates) },
+          }),
+        config.retry
+      );
+      updated++;
+    } catch (error) {
+      logger.warn({ error, articleId: clusterId }, 'Failed to update Also Reported By');
+    }
+  }
+
+  return updated;
+}
+
 /**
  * Check if Notion integration is available
  */
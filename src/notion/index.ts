@@ -8,6 +8,7 @@ export {
   pushToNotion,
   pushArticleToNotion,
   pushArticlesToNotion,
+  syncAlsoReportedBy,
   isNotionAvailable,
   type NotionPushResult,
   type BatchPushResult,
@@ -2,28 +2,45 @@
  * Main Pipeline
  *
  * Orchestrates the full news processing workflow:
- * 1. Fetch articles from RSS feeds
- * 2. Extract full content
- * 3. Filter by tech keywords
- * 4. Generate AI summaries
+ * 1. Fetch articles from every enabled source
+ * 2. Extract full content, group near-duplicates into stories
+ * 3. Filter by tech keywords, AI validation of borderline scores
+ * 4. Generate AI summaries (one per story)
  * 5. Push to Notion
  */
 
-import { fetchRssFeeds, saveScrapedArticles } from './scraper/index.js';
+import {
+  registerSources,
+  scrapeWithFallback,
+  saveScrapedArticles,
+  saveFeedStates,
+} from './scraper/index.js';
 import { extractArticleContents } from './scraper/content-extractor.js';
-import { filterArticles } from './filter/index.js';
+import { checkSourceHealth, recordSourceRuns } from './scraper/health-monitor.js';
+import { clusterArticles } from './cluster/index.js';
+import {
+  filterArticlesHybrid,
+  getRejectionReason,
+  toDecisionMatch,
+  isAiValidationAvailable,
+  DEFAULT_FILTER_CONFIG,
+} from './filter/index.js';
+import { loadKeywordSet } from './filter/keyword-set.js';
 import { summarizeArticles, isSummarizationAvailable } from './summarizer/index.js';
-import { pushArticlesToNotion, isNotionAvailable } from './notion/index.js';
+import { pushArticlesToNotion, syncAlsoReportedBy, isNotionAvailable } from './notion/index.js';
 import { runDailyDigest } from './digest/index.js';
 import { runWeeklyDigest } from './digest/weekly-digest.js';
 import { runMonthlyDigest } from './digest/monthly-digest.js';
 import { initDatabase, closeDatabase } from './db/index.js';
 import {
   getArticlesWithEmptyContent,
+  getUnclusteredArticles,
+  getStoryDuplicates,
   getArticlesNeedingProcessing,
   getUnsyncedArticles,
   getStats,
   logProcessing,
+  saveArticleMatches,
 } from './db/queries.js';
 import { logger } from './utils/logger.js';
 import type { PipelineResult } from './types/index.js';
@@ -62,6 +79,7 @@ export async function runPipeline(options: PipelineOptions = {}): Promise<Pipeli
   const startTime = Date.now();
   const result: PipelineResult = {
     scraped: 0,
+    duplicates: 0,
     filtered: 0,
     summarized: 0,
     pushed: 0,
@@ -74,17 +92,34 @@ export async function runPipeline(options: PipelineOptions = {}): Promise<Pipeli
   try {
     await initDatabase();
 
-    // Step 1: Fetch articles from RSS feeds
+    // Step 1: Fetch articles from every enabled source
     if (!skipScrape) {
-      logger.info('Step 1: Fetching articles from RSS feeds...');
-      const scrapeResult = await fetchRssFeeds({ maxArticlesPerFeed: maxArticles });
+      logger.info('Step 1: Fetching articles from sources...');
+      await registerSources();
+      const scrapeResult = await scrapeWithFallback({ maxArticles, dryRun });
       result.scraped = scrapeResult.newArticles;
+      result.scrapePath = scrapeResult.path;
+      result.fallbackReason = scrapeResult.fallbackReason;
 
       if (scrapeResult.articles.length > 0 && !dryRun) {
         await saveScrapedArticles(scrapeResult.articles);
       }
+      if (!dryRun) {
+        // Only now: a feed marked as read before its items are saved would skip them next run
+        await saveFeedStates(scrapeResult);
+        await recordSourceRuns(scrapeResult.sources);
+        await checkSourceHealth();
+      }
 
-      logger.info({ scraped: result.scraped }, 'RSS fetch complete');
+      logger.info(
+        {
+          scraped: result.scraped,
+          sources: scrapeResult.sources.length,
+          path: result.scrapePath,
+          fallbackReason: result.fallbackReason,
+        },
+        'Source fetch complete'
+      );
     }
 
     // Step 2: Extract full article content
@@ -98,7 +133,13 @@ export async function runPipeline(options: PipelineOptions = {}): Promise<Pipeli
           limit: maxArticles,
         });
         logger.info(
-          { extracted: contentResult.successful, failed: contentResult.failed },
+          {
+            extracted: contentResult.successful,
+            failed: contentResult.failed,
+            blocked: contentResult.blocked,
+            byExtractor: contentResult.byExtractor,
+            consent: contentResult.consent,
+          },
           'Content extraction complete'
         );
         result.errors += contentResult.failed;
@@ -107,36 +148,76 @@ export async function runPipeline(options: PipelineOptions = {}): Promise<Pipeli
       }
     }
 
-    // Step 3: Filter articles by tech keywords
+    // Step 2b: Group near-duplicate articles into stories
+    // Stories that gained duplicates after being pushed get their Notion page updated in step 5
+    let updatedClusters: string[] = [];
+    if (!dryRun) {
+      logger.info('Step 2b: Clustering stories...');
+      const clusterResult = await clusterArticles(await getUnclusteredArticles());
+      result.duplicates = clusterResult.duplicates;
+      updatedClusters = clusterResult.updatedClusters;
+    }
+
+    // Step 3: Filter articles by keyword score, borderline scores validated by AI
     if (!skipFilter) {
       logger.info('Step 3: Filtering articles...');
       const articlesToFilter = await getArticlesNeedingProcessing('filtered');
 
       if (articlesToFilter.length > 0) {
-        const { matched, rejected, results } = filterArticles(articlesToFilter);
-        result.filtered = matched.length;
+        const keywordSet = await loadKeywordSet();
+        const { accepted, rejected, decisions, stats } = await filterArticlesHybrid(
+          articlesToFilter,
+          {
+            config: DEFAULT_FILTER_CONFIG,
+            keywordSet,
+            // No paid API calls on dry runs: borderline articles keep their keyword verdict
+            useAi: !dryRun && isAiValidationAvailable(),
+          }
+        );
+        result.filtered = accepted.length;
 
         if (!dryRun) {
+          // Keep the match details of every decision, rejected articles included
+          await saveArticleMatches(
+            [...decisions].map(([articleId, decision]) => toDecisionMatch(articleId, decision))
+          );
+
           // Log filter results
-          for (const article of matched) {
-            const matchResult = results.get(article.id);
-            await logProcessing(article.id, 'filtered', 'success');
+          for (const article of accepted) {
+            const decision = decisions.get(article.id);
+            await logProcessing(article.id, 'filtered', 'success', undefined, keywordSet.version);
             logger.debug(
               {
                 id: article.id,
-                score: matchResult?.score,
-                keywords: matchResult?.matchedKeywords.length,
+                score: decision?.match.score,
+                keywords: decision?.match.matchedKeywords.length,
+                path: decision?.path,
               },
               'Article passed filter'
             );
           }
 
           for (const article of rejected) {
-            await logProcessing(article.id, 'filtered', 'skipped', 'No tech keywords matched');
+            const decision = decisions.get(article.id);
+            await logProcessing(
+              article.id,
+              'filtered',
+              'skipped',
+              decision ? getRejectionReason(decision, DEFAULT_FILTER_CONFIG) : undefined,
+              keywordSet.version
+            );
           }
         }
 
-        logger.info({ matched: matched.length, rejected: rejected.length }, 'Filtering complete');
+        logger.info(
+          {
+            matched: accepted.length,
+            rejected: rejected.length,
+            aiValidated: stats.aiValidated,
+            aiTokens: stats.aiTokens,
+          },
+          'Filtering complete'
+        );
       } else {
         logger.info('No articles need filtering');
       }
@@ -149,7 +230,16 @@ export async function runPipeline(options: PipelineOptions = {}): Promise<Pipeli
       if (!isSummarizationAvailable()) {
         logger.warn('OpenAI API key not configured, skipping summarization');
       } else {
-        const articlesToSummarize = await getArticlesNeedingProcessing('summarized');
+        const pending = await getArticlesNeedingProcessing('summarized');
+
+        // Only the primary of a story is summarised
+        const duplicates = await getStoryDuplicates(pending.map((a) => a.id));
+        const articlesToSummarize = pending.filter((a) => !duplicates.has(a.id));
+        if (!dryRun) {
+          for (const [articleId, primaryId] of duplicates) {
+            await logProcessing(articleId, 'summarized', 'skipped', `Duplicate of ${primaryId}`);
+          }
+        }
 
         if (articlesToSummarize.length > 0 && !dryRun) {
           const summaryResult = await summarizeArticles(articlesToSummarize.slice(0, maxArticles));
@@ -184,6 +274,11 @@ export async function runPipeline(options: PipelineOptions = {}): Promise<Pipeli
         } else {
           logger.info('No articles need to be pushed to Notion');
         }
+
+        if (updatedClusters.length > 0 && !dryRun) {
+          const updated = await syncAlsoReportedBy(updatedClusters);
+          logger.info({ updated }, 'Also Reported By updated on existing pages');
+        }
       }
     }
 
@@ -303,7 +398,8 @@ async function main(): Promise<void> {
 
     logger.info('');
     logger.info('Pipeline Summary:');
-    logger.info(`  Scraped:    ${result.scraped} articles`);
+    logger.info(`  Scraped:    ${result.scraped} articles (${result.scrapePath ?? 'skipped'})`);
+    logger.info(`  Duplicates: ${result.duplicates} articles`);
     logger.info(`  Filtered:   ${result.filtered} articles`);
     logger.info(`  Summarized: ${result.summarized} articles`);
     logger.info(`  Pushed:     ${result.pushed} articles`);
@@ -0,0 +1,289 @@
+/**
+ * Historical Backfill
+ *
+ * Pages back through Zone Bourse listings or paged feeds until a target date.
+ * Progress is checkpointed in backfill_jobs after every page, so an
+ * interrupted crawl resumes where it stopped.
+ */
+
+import {
+  initBrowser,
+  createPage,
+  navigateTo,
+  closePage,
+  closeBrowser,
+  waitForRateLimit,
+} from './browser.js';
+import { handleConsent } from './consent.js';
+import {
+  extractArticleListings,
+  getListingPageUrl,
+  listingToArticle,
+  saveScrapedArticles,
+  type ZoneBourseSection,
+} from './zonebourse.js';
+import { feedEntryToArticle, requestFeed, type RssFeedConfig } from './rss-fetcher.js';
+import { parseFeed } from './feed-parser.js';
+import { logger } from '../utils/logger.js';
+import { formatParisDate } from '../utils/date.js';
+import {
+  getBackfillJob,
+  startBackfillJob,
+  updateBackfillCheckpoint,
+  setBackfillStatus,
+  getExistingArticleUrls,
+} from '../db/queries.js';
+import type { Article, BackfillJob, BackfillStatus } from '../types/index.js';
+
+/**
+ * Backfill options
+ */
+export interface BackfillOptions {
+  /** Oldest publication date to collect */
+  since: Date;
+  /** Newest publication date to collect, inclusive (defaults to now) */
+  until?: Date;
+  /** Page budget for this invocation, the job resumes on the next one */
+  maxPages?: number;
+  /** Ignore an existing checkpoint and start from the first page */
+  restart?: boolean;
+}
+
+/**
+ * Backfill result
+ */
+export interface BackfillResult {
+  jobId: string;
+  status: BackfillStatus;
+  pagesProcessed: number;
+  articlesSaved: number;
+  /** True once pages older than `since` (or the last page) were reached */
+  complete: boolean;
+}
+
+/**
+ * Build the job ID for a target and date range (Europe/Paris days)
+ */
+function getJobId(target: string, options: BackfillOptions): string {
+  const { since, until } = options;
+  return `${target}:${formatParisDate(since)}..${until ? formatParisDate(until) : ''}`;
+}
+
+/**
+ * Load the checkpoint of a job, or start a new one
+ */
+async function resumeOrStartJob(target: string, options: BackfillOptions): Promise<BackfillJob> {
+  const id = getJobId(target, options);
+  const existing = await getBackfillJob(id);
+
+  if (existing && !options.restart && existing.status !== 'completed') {
+    logger.info(
+      { id, nextPage: existing.nextPage, pagesProcessed: existing.pagesProcessed },
+      'Resuming backfill job'
+    );
+    return existing;
+  }
+
+  logger.info({ id }, 'Starting backfill job');
+  return startBackfillJob({ id, target, since: options.since, until: options.until });
+}
+
+/**
+ * Keep articles inside the date range that are not in the database yet
+ */
+async function selectNewArticles(
+  articles: Article[],
+  options: BackfillOptions
+): Promise<Article[]> {
+  const until = options.until ?? new Date();
+  const inRange = articles.filter((a) => a.publishedAt >= options.since && a.publishedAt <= until);
+  const existingUrls = await getExistingArticleUrls(inRange.map((a) => a.url));
+  return inRange.filter((a) => !existingUrls.has(a.url));
+}
+
+/**
+ * Get the oldest publication date of a batch
+ */
+function getOldestDate(articles: Article[]): Date | null {
+  return articles.reduce<Date | null>(
+    (oldest, a) => (!oldest || a.publishedAt < oldest ? a.publishedAt : oldest),
+    null
+  );
+}
+
+/**
+ * Backfill a Zone Bourse section
+ */
+export async function backfillZoneBourse(
+  section: ZoneBourseSection,
+  options: BackfillOptions
+): Promise<BackfillResult> {
+  const { maxPages = 50 } = options;
+  const job = await resumeOrStartJob(`zonebourse:${section}`, options);
+
+  const result: BackfillResult = {
+    jobId: job.id,
+    status: job.status,
+    pagesProcessed: job.pagesProcessed,
+    articlesSaved: job.articlesSaved,
+    complete: job.status === 'completed',
+  };
+
+  if (result.complete) {
+    logger.info({ id: job.id }, 'Backfill job already completed');
+    return result;
+  }
+
+  try {
+    await initBrowser({ headless: true });
+    const page = await createPage();
+
+    const lastPage = job.nextPage + maxPages - 1;
+    for (let pageNum = job.nextPage; pageNum <= lastPage; pageNum++) {
+      const url = getListingPageUrl(section, pageNum);
+      logger.info({ url, page: pageNum }, 'Backfilling page');
+
+      await navigateTo(page, url, { waitUntil: 'domcontentloaded' });
+      await page.waitForTimeout(2000); // Wait for dynamic content
+      await handleConsent(page, url);
+
+      const listings = await extractArticleListings(page);
+      if (listings.length === 0) {
+        logger.info({ page: pageNum }, 'No more listings, end of section reached');
+        result.complete = true;
+        break;
+      }
+
+      const articles = listings.map(listingToArticle);
+      const newArticles = await selectNewArticles(articles, options);
+      result.articlesSaved += await saveScrapedArticles(newArticles);
+      result.pagesProcessed++;
+
+      await updateBackfillCheckpoint(job.id, {
+        nextPage: pageNum + 1,
+        pagesProcessed: result.pagesProcessed,
+        articlesSaved: result.articlesSaved,
+      });
+
+      const oldest = getOldestDate(articles);
+      if (oldest && oldest < options.since) {
+        logger.info({ page: pageNum, oldest: oldest.toISOString() }, 'Target date reached');
+        result.complete = true;
+        break;
+      }
+
+      await waitForRateLimit();
+    }
+
+    await closePage(page);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error({ error, id: job.id }, 'Backfill failed, rerun to resume');
+    await setBackfillStatus(job.id, 'failed', errorMessage);
+    throw error;
+  } finally {
+    await closeBrowser();
+  }
+
+  return finishJob(result);
+}
+
+/**
+ * Backfill a paged feed (RFC 5005 rel="next" or JSON Feed next_url)
+ */
+export async function backfillFeed(
+  feed: RssFeedConfig,
+  options: BackfillOptions
+): Promise<BackfillResult> {
+  const { maxPages = 50 } = options;
+  const job = await resumeOrStartJob(`feed:${feed.name}`, options);
+
+  const result: BackfillResult = {
+    jobId: job.id,
+    status: job.status,
+    pagesProcessed: job.pagesProcessed,
+    articlesSaved: job.articlesSaved,
+    complete: job.status === 'completed',
+  };
+
+  if (result.complete) {
+    logger.info({ id: job.id }, 'Backfill job already completed');
+    return result;
+  }
+
+  let url: string | undefined = job.nextUrl ?? feed.url;
+  let pageNum = job.nextPage;
+
+  try {
+    for (let processed = 0; url && processed < maxPages; processed++) {
+      logger.info({ url, page: pageNum }, 'Backfilling feed page');
+
+      const response = await requestFeed(url, {}, feed.proxyUrl);
+      if (!response.ok) {
+        throw new Error(`Feed request failed with status ${response.status}`);
+      }
+
+      const parsed = await parseFeed(await response.text(), response.headers.get('content-type'));
+      const articles = parsed.entries.map((entry) => feedEntryToArticle(entry, feed.source));
+      const newArticles = await selectNewArticles(articles, options);
+      result.articlesSaved += await saveScrapedArticles(newArticles);
+      result.pagesProcessed++;
+      pageNum++;
+      url = parsed.nextUrl;
+
+      await updateBackfillCheckpoint(job.id, {
+        nextPage: pageNum,
+        nextUrl: url,
+        pagesProcessed: result.pagesProcessed,
+        articlesSaved: result.articlesSaved,
+      });
+
+      const oldest = getOldestDate(articles);
+      if (oldest && oldest < options.since) {
+        logger.info({ page: pageNum - 1, oldest: oldest.toISOString() }, 'Target date reached');
+        result.complete = true;
+        break;
+      }
+
+      if (!url) {
+        logger.info({ feed: feed.name }, 'Feed has no older page, end of history reached');
+        result.complete = true;
+        break;
+      }
+
+      await waitForRateLimit();
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error({ error, id: job.id }, 'Backfill failed, rerun to resume');
+    await setBackfillStatus(job.id, 'failed', errorMessage);
+    throw error;
+  }
+
+  return finishJob(result);
+}
+
+/**
+ * Mark a job completed, or leave it resumable when the page budget ran out
+ */
+async function finishJob(result: BackfillResult): Promise<BackfillResult> {
+  if (result.complete) {
+    await setBackfillStatus(result.jobId, 'completed');
+    result.status = 'completed';
+  } else {
+    result.status = 'in_progress';
+    logger.info({ id: result.jobId }, 'Page budget exhausted, rerun to resume');
+  }
+
+  logger.info(
+    {
+      id: result.jobId,
+      status: result.status,
+      pagesProcessed: result.pagesProcessed,
+      articlesSaved: result.articlesSaved,
+    },
+    'Backfill finished'
+  );
+
+  return result;
+}
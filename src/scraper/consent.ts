@@ -0,0 +1,90 @@
+/**
+ * Cookie Consent
+ *
+ * Dismisses consent banners by clicking their accept button (per-site recipes,
+ * then the common consent platforms) instead of deleting banner nodes, which
+ * could take article text with them. Accepted choices persist in the browser
+ * storage state, so a site's banner is normally handled once.
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { findDomainEntry } from '../utils/url.js';
+import type { Page } from './browser.js';
+import type { ConsentOutcome, ConsentRecipe } from '../types/index.js';
+
+/**
+ * Time allowed for a click and for the banner to go away
+ */
+const CLICK_TIMEOUT_MS = 3000;
+const SETTLE_MS = 500;
+
+/**
+ * Get the consent recipe of a URL: the site's selectors first, then the defaults
+ */
+export function getConsentRecipe(url: string): ConsentRecipe {
+  const recipes: Record<string, ConsentRecipe> = config.scraper.consentRecipes;
+  const site = findDomainEntry(recipes, url);
+  const defaults = config.scraper.defaultConsentRecipe;
+
+  return {
+    acceptSelectors: [...(site?.acceptSelectors ?? []), ...defaults.acceptSelectors],
+    wallSelectors: [...(site?.wallSelectors ?? []), ...(defaults.wallSelectors ?? [])],
+  };
+}
+
+/**
+ * Check if any element matching a selector is visible, in the page or its iframes
+ */
+async function findVisible(page: Page, selectors: string[]): Promise<string | undefined> {
+  for (const frame of page.frames()) {
+    for (const selector of selectors) {
+      const visible = await frame
+        .locator(selector)
+        .first()
+        .isVisible()
+        .catch(() => false);
+      if (visible) {
+        return selector;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Accept the consent banner of a loaded page, if there is one
+ * Returns 'blocked' when a consent wall is still shown afterwards
+ */
+export async function handleConsent(page: Page, url: string): Promise<ConsentOutcome> {
+  const recipe = getConsentRecipe(url);
+  let outcome: ConsentOutcome = 'none';
+
+  const button = await findVisible(page, recipe.acceptSelectors);
+  if (button) {
+    for (const frame of page.frames()) {
+      const clicked = await frame
+        .locator(button)
+        .first()
+        .click({ timeout: CLICK_TIMEOUT_MS })
+        .then(() => true)
+        .catch(() => false);
+      if (clicked) {
+        outcome = 'handled';
+        await page.waitForTimeout(SETTLE_MS);
+        break;
+      }
+    }
+  }
+
+  const wall = await findVisible(page, recipe.wallSelectors ?? []);
+  if (wall) {
+    logger.warn({ url, wall, button }, 'Consent wall could not be dismissed');
+    return 'blocked';
+  }
+
+  if (outcome === 'handled') {
+    logger.debug({ url, button }, 'Consent banner accepted');
+  }
+  return outcome;
+}
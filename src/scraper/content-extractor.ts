@@ -1,25 +1,51 @@
 /**
  * Article Content Extractor
  *
- * Fetches and extracts full article content from URLs
+ * Fetches and extracts full article content from URLs.
+ * Pages are fetched over plain HTTP first; the browser is only launched
+ * for JS-rendered sources or when the HTTP content is too short.
+ * Articles are extracted concurrently, with per-host concurrency and spacing.
+ * Every fetched page is archived as a snapshot (see snapshots.ts).
  */
 
-import type { Page } from 'playwright';
+import { navigateTo, isBrowserRunning, type Page } from './browser.js';
+import { createPagePool, type PagePool } from './page-pool.js';
+import { getRobotsVerdict, waitForCrawlDelay, type RobotsVerdict } from './politeness.js';
+import { recordSnapshot, captureScreenshot, pruneSnapshots } from './snapshots.js';
+import { handleConsent } from './consent.js';
 import {
-  initBrowser,
-  createPage,
-  navigateTo,
-  closePage,
-  closeBrowser,
-  waitForRateLimit,
-} from './browser.js';
+  extractMainContent,
+  extractPageMetadata,
+  findCanonicalUrl,
+  findPublishedDate,
+  getExtractionRule,
+  countWords,
+} from './html-extractor.js';
+import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { getBackoffDelay } from '../utils/retry.js';
+import { HostLimiter } from '../utils/rate-limiter.js';
+import { canonicalizeUrl } from '../utils/url.js';
 import {
   getArticlesWithEmptyContent,
+  getJsRenderedSources,
+  getSourceProxies,
   updateArticleContent,
   logProcessing,
+  getExtractionRetry,
+  saveExtractionRetry,
+  clearExtractionRetries,
+  generateArticleId,
+  mergeArticles,
 } from '../db/queries.js';
-import type { Article } from '../types/index.js';
+import type {
+  Article,
+  ArticleMetadata,
+  ConsentOutcome,
+  ContentExtractor,
+  ExtractionRetry,
+  ExtractionRule,
+} from '../types/index.js';
 
 /**
  * Content extraction result
@@ -29,129 +55,403 @@ export interface ContentExtractionResult {
   successful: number;
   failed: number;
   skipped: number;
+  /** Failed articles that ran out of attempts in this run */
+  deadLettered: number;
+  /** Articles refused by robots.txt, dead-lettered without a request */
+  blocked: number;
+  /** Successful extractions by extractor */
+  byExtractor: Record<ContentExtractor, number>;
+  /** Browser extractions whose consent banner was accepted, or left a consent wall */
+  consent: Record<Exclude<ConsentOutcome, 'none'>, number>;
 }
 
 /**
- * Extract text content from a page
- */
-async function extractPageContent(page: Page): Promise<string> {
-  return page.evaluate((): string => {
-    // Remove unwanted elements
-    const unwantedSelectors = [
-      'script',
-      'style',
-      'nav',
-      'header',
-      'footer',
-      'aside',
-      '.sidebar',
-      '.menu',
-      '.navigation',
-      '.comments',
-      '.social-share',
-      '.advertisement',
-      '.ads',
-      '[class*="cookie"]',
-      '[class*="popup"]',
-      '[class*="modal"]',
-      '[class*="banner"]',
-    ];
-
-    for (const selector of unwantedSelectors) {
-      document.querySelectorAll(selector).forEach((el) => el.remove());
-    }
-
-    // Try to find the main article content
-    const contentSelectors = [
-      'article',
-      '[class*="article-body"]',
-      '[class*="article-content"]',
-      '[class*="post-content"]',
-      '[class*="entry-content"]',
-      '.content',
-      'main',
-      '[role="main"]',
-    ];
-
-    let contentElement: Element | null = null;
-    for (const selector of contentSelectors) {
-      const el = document.querySelector(selector);
-      if (el && el.textContent && el.textContent.trim().length > 200) {
-        contentElement = el;
-        break;
-      }
+ * Minimum content length for an extraction to count as successful,
+ * unless the domain rule sets its own
+ */
+const MIN_CONTENT_LENGTH = 100;
+
+/**
+ * Headers sent with plain HTTP article requests
+ */
+const ARTICLE_HEADERS: Record<string, string> = {
+  'User-Agent':
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'fr-FR,fr;q=0.9,en-US;q=0.8,en;q=0.7',
+};
+
+/**
+ * Article request timeout
+ */
+const ARTICLE_TIMEOUT_MS = 20000;
+
+/**
+ * Redirects followed by a plain HTTP article request
+ */
+const MAX_REDIRECTS = 5;
+
+/**
+ * robots.txt verdict that stops an article from being requested
+ */
+type RobotsRefusal = Exclude<RobotsVerdict, 'allowed'>;
+
+/**
+ * Content of a fetched page, its metadata and the canonical URL it resolved to
+ * (after redirects and <link rel="canonical">)
+ */
+export interface PageContent {
+  content: string;
+  metadata: ArticleMetadata;
+  canonicalUrl: string;
+  /** Publication date declared by the page */
+  publishedAt?: Date;
+  /** Consent step of a browser extraction */
+  consent?: ConsentOutcome;
+}
+
+/**
+ * Extracted content and the extractor that produced it
+ */
+interface ExtractedContent extends PageContent {
+  extractor: ContentExtractor;
+}
+
+/**
+ * Outcome of fetching an article: its content when substantial enough,
+ * the consent step of the browser path, and the robots.txt verdict of a
+ * redirect target that stopped it
+ */
+interface FetchOutcome {
+  extracted: ExtractedContent | null;
+  consent?: ConsentOutcome;
+  robots?: RobotsRefusal;
+}
+
+/**
+ * Extract content, metadata and canonical URL from a page's HTML
+ * Pure function of the HTML, also used to replay stored snapshots offline
+ */
+export function extractPageContent(
+  html: string,
+  finalUrl: string,
+  rule: ExtractionRule = getExtractionRule(finalUrl)
+): PageContent {
+  const content = extractMainContent(html, rule);
+  return {
+    content,
+    metadata: { ...extractPageMetadata(html, finalUrl), wordCount: countWords(content) },
+    canonicalUrl: findCanonicalUrl(html, finalUrl) ?? canonicalizeUrl(finalUrl),
+    publishedAt: findPublishedDate(html),
+  };
+}
+
+/**
+ * Check that extracted content is long enough to count as a successful extraction
+ */
+export function hasEnoughContent(page: PageContent, rule: ExtractionRule): boolean {
+  return page.content.length > (rule.minContentLength ?? MIN_CONTENT_LENGTH);
+}
+
+/**
+ * Request an article, following redirects one hop at a time so that every
+ * target is checked against robots.txt before it is requested
+ */
+async function requestArticle(article: Article): Promise<Response | RobotsRefusal> {
+  let url = article.url;
+  for (let hop = 0; ; hop++) {
+    await waitForCrawlDelay(url);
+    const response = await fetch(url, {
+      headers: ARTICLE_HEADERS,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(ARTICLE_TIMEOUT_MS),
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    if (hop === MAX_REDIRECTS) {
+      throw new Error(`Too many redirects: ${article.url}`);
     }
 
-    // Fallback to body if no specific container found
-    if (!contentElement) {
-      contentElement = document.body;
+    url = new URL(location, url).toString();
+    const robots = await getRobotsVerdict(url, article.id);
+    if (robots !== 'allowed') {
+      logger.debug({ id: article.id, url, robots }, 'Redirect target refused by robots.txt');
+      return robots;
     }
+  }
+}
+
+/**
+ * Fast path: fetch the page over HTTP and extract in Node
+ * Returns the robots.txt verdict instead when a redirect target is refused
+ */
+async function fetchArticleContentHttp(
+  article: Article,
+  rule: ExtractionRule
+): Promise<PageContent | RobotsRefusal | null> {
+  try {
+    logger.debug({ url: article.url, id: article.id }, 'Fetching article over HTTP');
 
-    // Extract paragraphs
-    const paragraphs: string[] = [];
-    const pElements = contentElement.querySelectorAll('p');
+    const startedAt = Date.now();
+    const response = await requestArticle(article);
+    if (typeof response === 'string') {
+      return response;
+    }
 
-    if (pElements.length > 0) {
-      pElements.forEach((p) => {
-        const text = p.textContent?.trim();
-        if (text && text.length > 30) {
-          paragraphs.push(text);
-        }
-      });
+    const contentType = response.headers.get('content-type') ?? '';
+    if (!contentType.includes('html')) {
+      logger.debug({ id: article.id, status: response.status, contentType }, 'HTTP fetch unusable');
+      return null;
     }
 
-    // If no paragraphs found, get all text content
-    if (paragraphs.length === 0) {
-      const text = contentElement.textContent?.trim();
-      if (text) {
-        // Split by double newlines and filter
-        const blocks = text.split(/\n\s*\n/).filter((b) => b.trim().length > 30);
-        paragraphs.push(...blocks);
-      }
+    const html = await response.text();
+    // response.url is the URL of the last hop
+    const finalUrl = response.url || article.url;
+    const snapshot = {
+      articleId: article.id,
+      url: article.url,
+      finalUrl,
+      extractor: 'http' as const,
+      statusCode: response.status,
+      contentType,
+      html,
+      durationMs: Date.now() - startedAt,
+    };
+
+    if (!response.ok) {
+      logger.debug({ id: article.id, status: response.status, contentType }, 'HTTP fetch unusable');
+      await recordSnapshot({
+        ...snapshot,
+        contentLength: 0,
+        succeeded: false,
+        errorMessage: `HTTP ${response.status}`,
+      });
+      return null;
     }
 
-    return paragraphs.join('\n\n');
-  });
+    const page = extractPageContent(html, finalUrl, rule);
+    await recordSnapshot({
+      ...snapshot,
+      contentLength: page.content.length,
+      succeeded: hasEnoughContent(page, rule),
+    });
+    return page;
+  } catch (error) {
+    logger.debug({ error, url: article.url }, 'HTTP fetch failed');
+    return null;
+  }
 }
 
 /**
- * Fetch content for a single article
+ * Store the page a browser extraction failed on, with a screenshot
+ * Skipped when the page itself is gone (browser crash)
  */
-async function fetchArticleContent(
+async function snapshotBrowserFailure(
   page: Page,
-  article: Article
-): Promise<string | null> {
+  article: Article,
+  error: unknown,
+  startedAt: number
+): Promise<void> {
+  let html: string;
   try {
-    logger.debug({ url: article.url, id: article.id }, 'Fetching article content');
+    html = await page.content();
+  } catch {
+    return;
+  }
 
-    await navigateTo(page, article.url, { waitUntil: 'domcontentloaded' });
-    await page.waitForTimeout(1500); // Wait for dynamic content
+  await recordSnapshot({
+    articleId: article.id,
+    url: article.url,
+    finalUrl: page.url(),
+    extractor: 'browser',
+    html,
+    contentLength: 0,
+    succeeded: false,
+    errorMessage: error instanceof Error ? error.message : String(error),
+    screenshotPath: await captureScreenshot(page, article.id),
+    durationMs: Date.now() - startedAt,
+  });
+}
 
-    const content = await extractPageContent(page);
+/**
+ * Slow path: render the page in Playwright, then extract the rendered HTML
+ * Retried once on a relaunched browser if the browser crashed
+ */
+async function fetchArticleContentBrowser(
+  pool: PagePool,
+  article: Article,
+  rule: ExtractionRule,
+  proxyUrl?: string
+): Promise<PageContent | null> {
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    let page: Page | null = null;
+    let startedAt = Date.now();
+    try {
+      logger.debug({ url: article.url, id: article.id }, 'Rendering article in browser');
 
-    if (content && content.length > 100) {
+      page = await pool.acquire({ proxyUrl });
+      startedAt = Date.now();
+      const response = await navigateTo(page, article.url, {
+        waitUntil: 'domcontentloaded',
+        proxyUrl,
+      });
+      await page.waitForTimeout(1500); // Wait for dynamic content (and the consent banner)
+      const consent = await handleConsent(page, article.url);
+
+      const html = await page.content();
+      const content = { ...extractPageContent(html, page.url(), rule), consent };
+      const succeeded = hasEnoughContent(content, rule);
+      await recordSnapshot({
+        articleId: article.id,
+        url: article.url,
+        finalUrl: page.url(),
+        extractor: 'browser',
+        statusCode: response?.status(),
+        contentType: response?.headers()['content-type'],
+        html,
+        contentLength: content.content.length,
+        succeeded,
+        errorMessage: consent === 'blocked' ? 'Blocked by consent wall' : undefined,
+        screenshotPath: succeeded ? undefined : await captureScreenshot(page, article.id),
+        durationMs: Date.now() - startedAt,
+      });
+      return content;
+    } catch (error) {
+      if (attempt === 1 && !isBrowserRunning()) {
+        logger.warn({ id: article.id }, 'Browser crashed during extraction, retrying');
+        continue;
+      }
+      logger.error({ error, url: article.url }, 'Failed to fetch article content');
+      if (page) {
+        await snapshotBrowserFailure(page, article, error, startedAt);
+      }
+      return null;
+    } finally {
+      if (page) {
+        pool.release(page);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Fetch content for a single article
+ * Plain HTTP first, Playwright when the result is too short or the source is
+ * JS-rendered; sources behind a proxy always go through the browser
+ */
+async function fetchArticleContent(
+  article: Article,
+  options: { jsRendered: boolean; proxyUrl?: string; pool: PagePool }
+): Promise<FetchOutcome> {
+  const rule = getExtractionRule(article.url);
+
+  if (!options.jsRendered && !options.proxyUrl) {
+    const page = await fetchArticleContentHttp(article, rule);
+    if (typeof page === 'string') {
+      // The browser would follow the same redirect
+      return { extracted: null, robots: page };
+    }
+    if (page && hasEnoughContent(page, rule)) {
       logger.debug(
-        { id: article.id, contentLength: content.length },
-        'Content extracted'
+        { id: article.id, contentLength: page.content.length },
+        'Content extracted over HTTP'
       );
-      return content;
+      return { extracted: { ...page, extractor: 'http' } };
     }
+    logger.debug(
+      { id: article.id, contentLength: page?.content.length ?? 0 },
+      'HTTP content below threshold, falling back to browser'
+    );
+  }
 
-    logger.warn({ id: article.id, url: article.url }, 'No substantial content found');
-    return null;
-  } catch (error) {
-    logger.error({ error, url: article.url }, 'Failed to fetch article content');
-    return null;
+  const page = await fetchArticleContentBrowser(options.pool, article, rule, options.proxyUrl);
+  if (page && hasEnoughContent(page, rule)) {
+    logger.debug(
+      { id: article.id, contentLength: page.content.length, consent: page.consent },
+      'Content extracted in browser'
+    );
+    return { extracted: { ...page, extractor: 'browser' }, consent: page.consent };
+  }
+
+  logger.warn(
+    { id: article.id, url: article.url, consent: page?.consent },
+    'No substantial content found'
+  );
+  return { extracted: null, consent: page?.consent };
+}
+
+/**
+ * Count a failed attempt: schedule the next one with backoff, or dead-letter the article
+ */
+async function recordExtractionFailure(
+  articleId: string,
+  errorMessage: string
+): Promise<ExtractionRetry> {
+  const policy = config.scraper.extractionRetry;
+  const previous = await getExtractionRetry(articleId);
+  const attempts = (previous?.attempts ?? 0) + 1;
+
+  const retry: ExtractionRetry = {
+    articleId,
+    attempts,
+    status: attempts >= policy.maxAttempts ? 'dead' : 'retrying',
+    nextAttemptAt: new Date(Date.now() + getBackoffDelay(attempts, policy)),
+    lastError: errorMessage,
+    updatedAt: new Date(),
+  };
+  await saveExtractionRetry(retry);
+
+  return retry;
+}
+
+/**
+ * Get the host of an article URL
+ */
+function getHost(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Order articles round-robin across hosts so workers are not all held by the same host
+ */
+function interleaveByHost(articles: Article[]): Article[] {
+  const byHost = new Map<string, Article[]>();
+  for (const article of articles) {
+    const host = getHost(article.url);
+    byHost.set(host, [...(byHost.get(host) ?? []), article]);
   }
+
+  const queues = [...byHost.values()];
+  const ordered: Article[] = [];
+  for (let i = 0; ordered.length < articles.length; i++) {
+    for (const queue of queues) {
+      const article = queue[i];
+      if (article) {
+        ordered.push(article);
+      }
+    }
+  }
+  return ordered;
 }
 
 /**
  * Extract content for multiple articles
  */
-export async function extractArticleContents(options: {
-  limit?: number;
-  articles?: Article[];
-} = {}): Promise<ContentExtractionResult> {
+export async function extractArticleContents(
+  options: {
+    limit?: number;
+    articles?: Article[];
+  } = {}
+): Promise<ContentExtractionResult> {
   const { limit = 20 } = options;
 
   const result: ContentExtractionResult = {
@@ -159,6 +459,10 @@ export async function extractArticleContents(options: {
     successful: 0,
     failed: 0,
     skipped: 0,
+    deadLettered: 0,
+    blocked: 0,
+    byExtractor: { http: 0, browser: 0 },
+    consent: { handled: 0, blocked: 0 },
   };
 
   // Get articles that need content extraction
@@ -171,44 +475,161 @@ export async function extractArticleContents(options: {
 
   logger.info({ count: articles.length }, 'Starting content extraction');
 
-  try {
-    await initBrowser({ headless: true });
-    const page = await createPage();
+  const jsRenderedSources = await getJsRenderedSources();
+  const sourceProxies = await getSourceProxies();
+  const { pages: concurrency, perHost } = config.scraper.extractionConcurrency;
+  // Rate limit now spaces requests to the same host instead of every request
+  const hostLimiter = new HostLimiter(perHost, config.scraper.rateLimitMs);
+  // Browser is launched on first use only
+  const pool = createPagePool(concurrency);
+  const queue = interleaveByHost(articles);
 
-    for (const article of articles) {
-      result.processed++;
+  // Failed attempts back off, articles are dead-lettered after the last one
+  const recordFailure = async (article: Article, errorMessage: string): Promise<void> => {
+    await logProcessing(article.id, 'scraped', 'failed', errorMessage);
+    result.failed++;
 
-      // Skip if already has content
-      if (article.content && article.content.length > 100) {
-        result.skipped++;
-        continue;
-      }
+    const retry = await recordExtractionFailure(article.id, errorMessage);
+    if (retry.status === 'dead') {
+      result.deadLettered++;
+      logger.warn(
+        { id: article.id, url: article.url, attempts: retry.attempts },
+        'Article dead-lettered, requeue with: npm run extraction -- requeue'
+      );
+    } else {
+      logger.debug(
+        { id: article.id, attempts: retry.attempts, nextAttemptAt: retry.nextAttemptAt },
+        'Extraction retry scheduled'
+      );
+    }
+  };
 
-      const content = await fetchArticleContent(page, article);
+  // Disallowed pages are dead-lettered (requeue them if robots.txt changes),
+  // an unreachable robots.txt is retried
+  const recordRobotsRefusal = async (article: Article, robots: RobotsRefusal): Promise<void> => {
+    if (robots === 'unreachable') {
+      await recordFailure(article, 'robots.txt unreachable');
+      return;
+    }
+    const existing = await getExtractionRetry(article.id);
+    await saveExtractionRetry({
+      articleId: article.id,
+      attempts: existing?.attempts ?? 0,
+      status: 'dead',
+      nextAttemptAt: new Date(),
+      lastError: 'Blocked by robots.txt',
+    });
+    result.blocked++;
+  };
 
-      if (content) {
-        await updateArticleContent(article.id, content);
-        await logProcessing(article.id, 'scraped', 'success');
-        result.successful++;
+  const processArticle = async (article: Article): Promise<void> => {
+    result.processed++;
+
+    // Skip if already has content
+    if (article.content && article.content.length > MIN_CONTENT_LENGTH) {
+      result.skipped++;
+      return;
+    }
+
+    // Disallowed pages are never requested
+    const proxyUrl = sourceProxies.get(article.source);
+    const robots = await getRobotsVerdict(article.url, article.id, proxyUrl);
+    if (robots !== 'allowed') {
+      await recordRobotsRefusal(article, robots);
+      return;
+    }
+
+    const outcome = await hostLimiter.execute(getHost(article.url), () =>
+      fetchArticleContent(article, {
+        jsRendered: jsRenderedSources.has(article.source),
+        proxyUrl,
+        pool,
+      })
+    );
+    const { extracted, consent } = outcome;
+    if (outcome.robots) {
+      await recordRobotsRefusal(article, outcome.robots);
+      return;
+    }
+    if (consent && consent !== 'none') {
+      result.consent[consent]++;
+    }
+
+    if (extracted) {
+      // Redirect or rel=canonical revealed the real URL: re-key, merging a known duplicate
+      let articleId = article.id;
+      if (extracted.canonicalUrl !== article.url) {
+        articleId = generateArticleId(extracted.canonicalUrl);
+        try {
+          await mergeArticles([article.id], { id: articleId, url: extracted.canonicalUrl });
+        } catch (error) {
+          // e.g. another worker merging a duplicate into the same article; the retry merges it
+          logger.warn(
+            { error, id: article.id, canonicalId: articleId },
+            'Failed to re-key article on canonical URL'
+          );
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          await recordFailure(article, `Re-key on canonical URL failed: ${errorMessage}`);
+          return;
+        }
         logger.info(
-          { id: article.id, contentLength: content.length },
-          'Article content saved'
+          { id: article.id, canonicalId: articleId, canonicalUrl: extracted.canonicalUrl },
+          'Article re-keyed on canonical URL'
         );
-      } else {
-        await logProcessing(article.id, 'scraped', 'failed', 'Content extraction failed');
-        result.failed++;
       }
 
-      // Rate limit between requests
-      await waitForRateLimit();
+      await updateArticleContent(
+        articleId,
+        extracted.content,
+        extracted.extractor,
+        extracted.metadata,
+        extracted.publishedAt
+      );
+      await clearExtractionRetries([articleId]);
+      await logProcessing(articleId, 'scraped', 'success');
+      result.successful++;
+      result.byExtractor[extracted.extractor]++;
+      logger.info(
+        {
+          id: articleId,
+          contentLength: extracted.content.length,
+          extractor: extracted.extractor,
+        },
+        'Article content saved'
+      );
+      return;
     }
 
-    await closePage(page);
+    await recordFailure(
+      article,
+      consent === 'blocked' ? 'Blocked by consent wall' : 'Content extraction failed'
+    );
+  };
+
+  const worker = async (): Promise<void> => {
+    for (let article = queue.shift(); article; article = queue.shift()) {
+      try {
+        await processArticle(article);
+      } catch (error) {
+        // Stop the other workers, the error is rethrown once they are done
+        queue.length = 0;
+        throw error;
+      }
+    }
+  };
+
+  try {
+    const workers = Array.from({ length: Math.min(concurrency, queue.length) }, worker);
+    const outcomes = await Promise.allSettled(workers);
+    const failure = outcomes.find((o): o is PromiseRejectedResult => o.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
   } catch (error) {
     logger.error({ error }, 'Content extraction failed');
     throw error;
   } finally {
-    await closeBrowser();
+    await pool.close();
   }
 
   logger.info(
@@ -217,9 +638,20 @@ export async function extractArticleContents(options: {
       successful: result.successful,
       failed: result.failed,
       skipped: result.skipped,
+      deadLettered: result.deadLettered,
+      blocked: result.blocked,
+      consentHandled: result.consent.handled,
+      consentBlocked: result.consent.blocked,
+      http: result.byExtractor.http,
+      browser: result.byExtractor.browser,
     },
     'Content extraction completed'
   );
 
+  // Every attempt is archived: keep the archive within its retention period
+  await pruneSnapshots().catch((error: unknown) => {
+    logger.warn({ error }, 'Failed to prune page snapshots');
+  });
+
   return result;
 }
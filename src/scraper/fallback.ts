@@ -0,0 +1,99 @@
+/**
+ * Scraping Fallback
+ *
+ * Runs the primary sources (RSS feeds) and switches to the fallback
+ * scrapers (Zone Bourse) when every primary source failed, or when
+ * primary sources produced no new article for longer than the stale window
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { getLastArticleCreatedAt } from '../db/queries.js';
+import { getDueScrapers, getFallbackScrapers, scrapeSources } from './registry.js';
+import type { SourcesScrapeResult } from './registry.js';
+import type { ScrapeOptions } from './types.js';
+import type { FallbackReason, ScrapePath } from '../types/index.js';
+
+/**
+ * Scrape result annotated with the path that produced it
+ */
+export interface FallbackScrapeResult extends SourcesScrapeResult {
+  path: ScrapePath;
+  fallbackReason?: FallbackReason;
+}
+
+/**
+ * Decide whether the fallback path should run after a primary run
+ */
+async function getFallbackReason(
+  primary: SourcesScrapeResult,
+  staleAfterHours: number
+): Promise<FallbackReason | null> {
+  if (primary.sources.length === 0) {
+    return null;
+  }
+
+  if (primary.sources.every((s) => s.failed)) {
+    return 'primary-failed';
+  }
+
+  if (primary.newArticles > 0) {
+    return null;
+  }
+
+  const sourceTags = [...new Set(primary.sources.map((s) => s.source))];
+  const lastCreatedAt = await getLastArticleCreatedAt(sourceTags);
+  const staleSince = Date.now() - staleAfterHours * 60 * 60 * 1000;
+
+  if (lastCreatedAt && lastCreatedAt.getTime() < staleSince) {
+    logger.warn(
+      { lastCreatedAt: lastCreatedAt.toISOString(), staleAfterHours },
+      'Primary sources are stale'
+    );
+    return 'primary-stale';
+  }
+
+  return null;
+}
+
+/**
+ * Run primary sources, then fallback scrapers if needed
+ */
+export async function scrapeWithFallback(
+  options: ScrapeOptions & { staleAfterHours?: number } = {}
+): Promise<FallbackScrapeResult> {
+  const { staleAfterHours = config.scraper.fallback.staleAfterHours, ...scrapeOptions } = options;
+
+  const primary = await scrapeSources({ ...scrapeOptions, scrapers: getDueScrapers() });
+  const reason = await getFallbackReason(primary, staleAfterHours);
+
+  if (!reason) {
+    return { ...primary, path: 'primary' };
+  }
+
+  const fallbackScrapers = getFallbackScrapers();
+  if (fallbackScrapers.length === 0) {
+    logger.warn({ reason }, 'Fallback needed but no fallback scraper is enabled');
+    return { ...primary, path: 'primary' };
+  }
+
+  logger.warn(
+    { reason, scrapers: fallbackScrapers.map((s) => s.name) },
+    'Switching to fallback scrapers'
+  );
+
+  const fallback = await scrapeSources({ ...scrapeOptions, scrapers: fallbackScrapers });
+
+  return {
+    articles: [...primary.articles, ...fallback.articles],
+    scrapedAt: primary.scrapedAt,
+    pagesProcessed: primary.pagesProcessed + fallback.pagesProcessed,
+    totalFound: primary.totalFound + fallback.totalFound,
+    newArticles: primary.newArticles + fallback.newArticles,
+    errors: primary.errors + fallback.errors,
+    feedStates: [...(primary.feedStates ?? []), ...(fallback.feedStates ?? [])],
+    sources: [...primary.sources, ...fallback.sources],
+    path: 'fallback',
+    fallbackReason: reason,
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * Feed Parser
+ *
+ * Parses RSS 2.0, Atom and JSON Feed 1.1 documents into normalised entries
+ */
+
+import Parser from 'rss-parser';
+
+/**
+ * Supported feed formats
+ */
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+/**
+ * Feed item normalised across formats
+ */
+export interface FeedEntry {
+  /** Stable item identifier (guid, Atom id, JSON Feed id, or URL) */
+  guid: string;
+  title: string;
+  /** Canonical article URL */
+  url: string;
+  /** Plain-text excerpt */
+  content: string;
+  /** Raw publication date string, if any */
+  date?: string;
+  author?: string;
+  categories?: string[];
+  /** Item image (media:content, media:thumbnail, image enclosure, JSON Feed image) */
+  imageUrl?: string;
+}
+
+/**
+ * Parsed feed document
+ */
+export interface ParsedFeed {
+  format: FeedFormat;
+  title?: string;
+  entries: FeedEntry[];
+  /** Next (older) page of a paged feed (RFC 5005 rel="next", JSON Feed next_url) */
+  nextUrl?: string;
+}
+
+/**
+ * Media RSS element (media:content, media:thumbnail)
+ */
+interface MediaElement {
+  $?: { url?: string; medium?: string; type?: string };
+}
+
+/**
+ * Extra item fields read by rss-parser (Atom id and author are always copied)
+ */
+interface ExtraItemFields {
+  id?: string;
+  author?: string;
+  mediaContent?: MediaElement[];
+  mediaThumbnail?: MediaElement[];
+  /** Atom <category term="..."/>, rss-parser only reads RSS categories */
+  atomCategories?: Array<string | { $?: { term?: string } }>;
+}
+
+/**
+ * JSON Feed 1.1 item (https://www.jsonfeed.org/version/1.1/)
+ */
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  date_published?: string;
+  date_modified?: string;
+  image?: string;
+  banner_image?: string;
+  tags?: string[];
+  /** JSON Feed 1.1 */
+  authors?: Array<{ name?: string }>;
+  /** JSON Feed 1.0 */
+  author?: { name?: string };
+}
+
+/**
+ * JSON Feed 1.1 document
+ */
+interface JsonFeedDocument {
+  version?: string;
+  title?: string;
+  next_url?: string;
+  items?: JsonFeedItem[];
+}
+
+const parser = new Parser<Record<string, unknown>, ExtraItemFields>({
+  customFields: {
+    item: [
+      ['media:content', 'mediaContent', { keepArray: true }],
+      ['media:thumbnail', 'mediaThumbnail', { keepArray: true }],
+      ['category', 'atomCategories', { keepArray: true }],
+    ],
+  },
+});
+
+/**
+ * Check if a value looks like an absolute http(s) URL
+ */
+function isHttpUrl(value: string | undefined): value is string {
+  return !!value && /^https?:\/\//i.test(value.trim());
+}
+
+/**
+ * Strip HTML tags and collapse whitespace
+ */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Trimmed, de-duplicated non-empty strings, undefined when none is left
+ */
+function cleanList(values: Array<string | undefined>): string[] | undefined {
+  const list = [...new Set(values.map((v) => v?.trim()).filter((v): v is string => !!v))];
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Categories of an RSS or Atom item
+ * RSS categories with attributes come as { _: text }, Atom ones as { $: { term } }
+ */
+function getXmlCategories(item: Parser.Item & ExtraItemFields): string[] | undefined {
+  const raw: unknown[] = [...(item.categories ?? []), ...(item.atomCategories ?? [])];
+  return cleanList(
+    raw.map((category) => {
+      if (typeof category === 'string') {
+        return category;
+      }
+      const value = category as { _?: string; $?: { term?: string } };
+      return value._ ?? value.$?.term;
+    })
+  );
+}
+
+/**
+ * Image of an RSS or Atom item: media:content image, media:thumbnail, image enclosure
+ */
+function getXmlImage(item: Parser.Item & ExtraItemFields): string | undefined {
+  const mediaImage = item.mediaContent?.find(
+    (media) => media.$?.medium === 'image' || media.$?.type?.startsWith('image/')
+  );
+  const candidates = [
+    mediaImage?.$?.url,
+    item.mediaThumbnail?.[0]?.$?.url,
+    item.enclosure?.type?.startsWith('image/') ? item.enclosure.url : undefined,
+  ];
+  return candidates.find(isHttpUrl);
+}
+
+/**
+ * Find the rel="next" link of an RSS/Atom document
+ * Handles both <link> (Atom) and <atom:link> (RSS) elements
+ */
+function findNextLink(xml: string): string | undefined {
+  const links = xml.match(/<(?:atom:)?link\b[^>]*>/gi) ?? [];
+
+  for (const link of links) {
+    if (/\brel=["']next["']/i.test(link)) {
+      const href = link.match(/\bhref=["']([^"']+)["']/i)?.[1];
+      if (href) {
+        return href.replace(/&amp;/g, '&');
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Detect the format of a feed document
+ */
+export function detectFeedFormat(body: string, contentType?: string | null): FeedFormat {
+  const head = body.trimStart().slice(0, 500);
+
+  const isJsonType = contentType?.includes('json') ?? false;
+  if (isJsonType || head.startsWith('{')) {
+    return 'json';
+  }
+  if (/<feed[\s>]/i.test(head) && !/<rss[\s>]/i.test(head)) {
+    return 'atom';
+  }
+  return 'rss';
+}
+
+/**
+ * Normalise RSS/Atom items parsed by rss-parser
+ */
+function normalizeXmlItems(items: Array<Parser.Item & ExtraItemFields>): FeedEntry[] {
+  const entries: FeedEntry[] = [];
+
+  for (const item of items) {
+    // Canonical link: <link> (Atom rel="alternate"), then a permalink guid, then the enclosure
+    const url = isHttpUrl(item.link)
+      ? item.link
+      : isHttpUrl(item.guid)
+        ? item.guid
+        : isHttpUrl(item.enclosure?.url)
+          ? item.enclosure?.url
+          : undefined;
+
+    if (!url || !item.title) {
+      continue;
+    }
+
+    entries.push({
+      guid: item.guid ?? item.id ?? url,
+      title: item.title.trim(),
+      url: url.trim(),
+      content: item.contentSnippet ?? (item.summary ? stripHtml(item.summary) : ''),
+      date: item.pubDate ?? item.isoDate,
+      author: cleanList([item.creator, item.author])?.[0],
+      categories: getXmlCategories(item),
+      imageUrl: getXmlImage(item),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Normalise JSON Feed items
+ */
+function normalizeJsonItems(items: JsonFeedItem[]): FeedEntry[] {
+  const entries: FeedEntry[] = [];
+
+  for (const item of items) {
+    const id = item.id !== undefined ? String(item.id) : undefined;
+    const url = isHttpUrl(item.url)
+      ? item.url
+      : isHttpUrl(item.external_url)
+        ? item.external_url
+        : isHttpUrl(id)
+          ? id
+          : undefined;
+
+    if (!url || !item.title) {
+      continue;
+    }
+
+    entries.push({
+      guid: id ?? url,
+      title: item.title.trim(),
+      url: url.trim(),
+      content:
+        item.summary ??
+        item.content_text ??
+        (item.content_html ? stripHtml(item.content_html) : ''),
+      date: item.date_published ?? item.date_modified,
+      author: cleanList([...(item.authors ?? []), item.author].map((a) => a?.name))?.join(', '),
+      categories: cleanList(item.tags ?? []),
+      imageUrl: [item.image, item.banner_image].find(isHttpUrl),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Parse a feed document of any supported format
+ */
+export async function parseFeed(body: string, contentType?: string | null): Promise<ParsedFeed> {
+  const format = detectFeedFormat(body, contentType);
+
+  if (format === 'json') {
+    const document = JSON.parse(body) as JsonFeedDocument;
+    if (!document.version?.startsWith('https://jsonfeed.org/version/')) {
+      throw new Error('Document is not a JSON Feed');
+    }
+    return {
+      format,
+      title: document.title,
+      entries: normalizeJsonItems(document.items ?? []),
+      nextUrl: isHttpUrl(document.next_url) ? document.next_url : undefined,
+    };
+  }
+
+  const result = await parser.parseString(body);
+  return {
+    format,
+    title: result.title,
+    entries: normalizeXmlItems(result.items ?? []),
+    nextUrl: findNextLink(body),
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Source Health Monitor
+ *
+ * Records the outcome of every source run and raises an alert when a source
+ * has been stale or failing for longer than its threshold. Alerts are stored
+ * (one open alert per source and kind) and emitted on sourceHealthEvents:
+ * 'alert' when one is opened, 'recovered' when the source is healthy again.
+ */
+
+import { EventEmitter } from 'events';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import {
+  getOpenSourceAlerts,
+  getSourceHealth,
+  insertSourceRuns,
+  openSourceAlert,
+  resolveSourceAlert,
+} from '../db/queries.js';
+import { assessSourceHealth } from './health.js';
+import { getScrapers } from './registry.js';
+import type { SourceRunResult } from './registry.js';
+import type { SourceAlert } from '../types/index.js';
+
+export const sourceHealthEvents = new EventEmitter<{
+  alert: [SourceAlert];
+  recovered: [SourceAlert];
+}>();
+
+/**
+ * Record the outcome of source runs
+ */
+export async function recordSourceRuns(results: SourceRunResult[]): Promise<void> {
+  try {
+    await insertSourceRuns(
+      results.map((r) => ({
+        name: r.name,
+        source: r.source,
+        itemsFound: r.itemsFound,
+        newArticles: r.newArticles,
+        errors: r.errors,
+        failed: r.failed,
+        errorMessage: r.error,
+        durationMs: r.durationMs,
+      }))
+    );
+  } catch (error) {
+    logger.warn({ error }, 'Failed to record source runs');
+  }
+}
+
+/**
+ * Assess enabled primary sources, open and resolve their alerts
+ * Alerts of sources no longer run (disabled or removed) are resolved
+ * Returns the alerts opened by this check; never throws
+ */
+export async function checkSourceHealth(now: Date = new Date()): Promise<SourceAlert[]> {
+  const { windowRuns, extractionWindowDays, ...defaults } = config.scraper.health;
+  const opened: SourceAlert[] = [];
+
+  try {
+    const monitored = new Set(
+      getScrapers()
+        .filter((s) => s.enabled && !s.fallback)
+        .map((s) => s.name)
+    );
+    const records = await getSourceHealth({
+      windowRuns,
+      extractionSince: new Date(now.getTime() - extractionWindowDays * 24 * 60 * 60 * 1000),
+    });
+    const openAlerts = await getOpenSourceAlerts();
+
+    for (const health of records.filter((h) => monitored.has(h.name))) {
+      const { status, alerts } = assessSourceHealth(health, defaults, now);
+      const alert = alerts.find((a) => a.kind === status);
+      if (alert && (await openSourceAlert(alert))) {
+        logger.warn({ name: alert.name, kind: alert.kind, since: alert.since }, alert.message);
+        sourceHealthEvents.emit('alert', alert);
+        opened.push(alert);
+      }
+    }
+
+    for (const alert of openAlerts) {
+      const health = records.find((h) => h.name === alert.name);
+      const holds =
+        monitored.has(alert.name) &&
+        health !== undefined &&
+        assessSourceHealth(health, defaults, now).alerts.some((a) => a.kind === alert.kind);
+      if (!holds && (await resolveSourceAlert(alert.name, alert.kind))) {
+        logger.info({ name: alert.name, kind: alert.kind }, 'Source alert resolved');
+        sourceHealthEvents.emit('recovered', alert);
+      }
+    }
+  } catch (error) {
+    logger.warn({ error }, 'Source health check failed');
+  }
+
+  return opened;
+}
@@ -0,0 +1,80 @@
+/**
+ * Source Health Assessment
+ *
+ * Decides from a source's health record whether it is stale (no new article
+ * for longer than its threshold) or failing (its runs failed for longer than
+ * its threshold). Sources are judged from their first recorded run, so a new
+ * source gets a full threshold before its first alert.
+ */
+
+import type { SourceAlert, SourceAlertKind, SourceHealth } from '../types/index.js';
+
+/**
+ * Alert thresholds of a source
+ */
+export interface SourceHealthThresholds {
+  staleAfterHours: number;
+  failingAfterHours: number;
+}
+
+export type SourceStatus = 'ok' | SourceAlertKind;
+
+/**
+ * Outcome of a health assessment
+ */
+export interface SourceAssessment {
+  /** Failing takes precedence over stale */
+  status: SourceStatus;
+  /** Alerts whose condition holds (a failing source is usually stale too) */
+  alerts: SourceAlert[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Hours elapsed between two dates, one decimal
+ */
+function hoursBetween(from: Date, to: Date): number {
+  return Math.round(((to.getTime() - from.getTime()) / HOUR_MS) * 10) / 10;
+}
+
+/**
+ * Assess a source, its own thresholds overriding the defaults
+ */
+export function assessSourceHealth(
+  health: SourceHealth,
+  defaults: SourceHealthThresholds,
+  now: Date = new Date()
+): SourceAssessment {
+  const staleAfterHours = health.staleAfterHours ?? defaults.staleAfterHours;
+  const failingAfterHours = health.failingAfterHours ?? defaults.failingAfterHours;
+  const alerts: SourceAlert[] = [];
+
+  const failingSince = health.lastSuccessAt ?? health.firstRunAt;
+  const failingHours = hoursBetween(failingSince, now);
+  if (health.lastFailed && failingHours > failingAfterHours) {
+    alerts.push({
+      name: health.name,
+      source: health.source,
+      kind: 'failing',
+      since: failingSince,
+      thresholdHours: failingAfterHours,
+      message: `${health.name} failing for ${failingHours}h (threshold ${failingAfterHours}h)${health.lastError ? `: ${health.lastError}` : ''}`,
+    });
+  }
+
+  const staleSince = health.lastNewItemAt ?? health.firstRunAt;
+  const staleHours = hoursBetween(staleSince, now);
+  if (staleHours > staleAfterHours) {
+    alerts.push({
+      name: health.name,
+      source: health.source,
+      kind: 'stale',
+      since: staleSince,
+      thresholdHours: staleAfterHours,
+      message: `${health.name} has had no new article for ${staleHours}h (threshold ${staleAfterHours}h)`,
+    });
+  }
+
+  return { status: alerts[0]?.kind ?? 'ok', alerts };
+}
@@ -0,0 +1,279 @@
+/**
+ * HTML Content Extractor
+ *
+ * Readability-style main content extraction from raw HTML, run in Node.
+ * Used on pages fetched over plain HTTP and on HTML rendered by Playwright.
+ * Per-domain rules (config/extraction-rules.ts) refine the generic heuristics.
+ * Also reads the page metadata (author, og:image, article:section, keywords).
+ */
+
+import { parseHTML } from 'linkedom';
+import { config } from '../config/index.js';
+import { findDomainEntry, resolveCanonicalLink, resolveHttpUrl } from '../utils/url.js';
+import { parseFrenchDate } from '../utils/date.js';
+import type { ArticleMetadata, ExtractionRule } from '../types/index.js';
+
+/**
+ * Elements that never hold article text
+ */
+const UNWANTED_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'form',
+  '.sidebar',
+  '.menu',
+  '.navigation',
+  '.comments',
+  '.social-share',
+  '.advertisement',
+  '.ads',
+  // Consent banners of the common CMPs (a broad "cookie" class match removed article text)
+  '#didomi-host',
+  '#onetrust-consent-sdk',
+  '#axeptio_overlay',
+  '.qc-cmp2-container',
+  '#CybotCookiebotDialog',
+  '.fc-consent-root',
+  '[id^="cookie-banner"]',
+  '[class^="cookie-banner"]',
+  '[class*="popup"]',
+  '[class*="modal"]',
+  '[class*="banner"]',
+];
+
+/**
+ * Known article containers, tried in order
+ */
+const CONTENT_SELECTORS = [
+  'article',
+  '[class*="article-body"]',
+  '[class*="article-content"]',
+  '[class*="post-content"]',
+  '[class*="entry-content"]',
+  '.content',
+  'main',
+  '[role="main"]',
+];
+
+/**
+ * Minimum text length for a container or paragraph to count
+ */
+const MIN_CONTAINER_LENGTH = 200;
+const MIN_PARAGRAPH_LENGTH = 30;
+
+/**
+ * Paragraphs made mostly of links are navigation, not content
+ */
+const MAX_LINK_DENSITY = 0.5;
+
+function getText(el: Element): string {
+  return el.textContent?.trim() ?? '';
+}
+
+function getLinkDensity(el: Element, textLength: number): number {
+  if (textLength === 0) {
+    return 0;
+  }
+  let linkLength = 0;
+  el.querySelectorAll('a').forEach((a) => {
+    linkLength += getText(a).length;
+  });
+  return linkLength / textLength;
+}
+
+/**
+ * Find the container whose paragraphs hold the most text
+ * Each paragraph scores its parent fully and its grandparent by half
+ */
+function findBestContainer(root: Element): Element | null {
+  const scores = new Map<Element, number>();
+
+  root.querySelectorAll('p').forEach((p) => {
+    const length = getText(p).length;
+    if (length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+
+    const parent = p.parentElement;
+    if (parent) {
+      scores.set(parent, (scores.get(parent) ?? 0) + length);
+      const grandparent = parent.parentElement;
+      if (grandparent) {
+        scores.set(grandparent, (scores.get(grandparent) ?? 0) + length / 2);
+      }
+    }
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Get the extraction rule of a URL's domain (empty rule when none is configured)
+ */
+export function getExtractionRule(url: string): ExtractionRule {
+  const rules: Record<string, ExtractionRule> = config.scraper.extractionRules;
+  return findDomainEntry(rules, url) ?? {};
+}
+
+/**
+ * Extract the main text content of an HTML document
+ * Paragraphs are joined with blank lines
+ */
+export function extractMainContent(html: string, rule: ExtractionRule = {}): string {
+  const { document } = parseHTML(html);
+  const body = document.body as Element | null;
+  if (!body) {
+    return '';
+  }
+
+  const minParagraphLength = rule.minParagraphLength ?? MIN_PARAGRAPH_LENGTH;
+  const excludePatterns = rule.excludeParagraphs ?? [];
+  const keepParagraph = (text: string): boolean =>
+    text.length > minParagraphLength && !excludePatterns.some((pattern) => pattern.test(text));
+
+  for (const selector of [...UNWANTED_SELECTORS, ...(rule.removeSelectors ?? [])]) {
+    document.querySelectorAll(selector).forEach((el) => el.remove());
+  }
+
+  // Site rule first, then the known containers
+  let contentElement: Element | null = rule.contentSelector
+    ? document.querySelector(rule.contentSelector)
+    : null;
+
+  if (!contentElement) {
+    for (const selector of CONTENT_SELECTORS) {
+      const el = document.querySelector(selector);
+      if (el && getText(el).length > MIN_CONTAINER_LENGTH) {
+        contentElement = el;
+        break;
+      }
+    }
+  }
+
+  contentElement ??= findBestContainer(body) ?? body;
+
+  const paragraphs: string[] = [];
+  contentElement.querySelectorAll('p').forEach((p) => {
+    const text = getText(p).replace(/\s+/g, ' ');
+    if (keepParagraph(text) && getLinkDensity(p, text.length) <= MAX_LINK_DENSITY) {
+      paragraphs.push(text);
+    }
+  });
+
+  // No paragraph markup: split the raw text into blocks
+  if (paragraphs.length === 0) {
+    const blocks = getText(contentElement)
+      .split(/\n\s*\n/)
+      .map((b) => b.trim())
+      .filter(keepParagraph);
+    paragraphs.push(...blocks);
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * Get the canonical URL a page declares with <link rel="canonical">
+ * Ignored when it points to another host or to the site root,
+ * which some sites use as a catch-all
+ */
+export function findCanonicalUrl(html: string, pageUrl: string): string | undefined {
+  const { document } = parseHTML(html);
+  const href = document.querySelector('link[rel="canonical"]')?.getAttribute('href');
+  if (!href) {
+    return undefined;
+  }
+
+  const canonical = resolveCanonicalLink(href, pageUrl);
+  if (!canonical) {
+    return undefined;
+  }
+
+  const stripWww = (hostname: string): string => hostname.replace(/^www\./, '');
+  const { hostname, pathname } = new URL(canonical);
+  if (stripWww(hostname) !== stripWww(new URL(pageUrl).hostname) || pathname === '/') {
+    return undefined;
+  }
+  return canonical;
+}
+
+/**
+ * Get the metadata a page declares in its meta tags
+ * (author, og:image, article:section, article:tag and keywords)
+ */
+export function extractPageMetadata(html: string, pageUrl: string): ArticleMetadata {
+  const { document } = parseHTML(html);
+  const metaContent = (selector: string): string[] =>
+    Array.from(document.querySelectorAll(selector))
+      .map((el) => el.getAttribute('content')?.trim() ?? '')
+      .filter((value) => value.length > 0);
+
+  // article:author is often a profile URL rather than a name
+  const author = [
+    ...metaContent('meta[name="author"]'),
+    ...metaContent('meta[property="article:author"]'),
+  ].find((value) => !/^https?:\/\//i.test(value));
+
+  const image = metaContent('meta[property="og:image"], meta[name="twitter:image"]')[0];
+
+  const keywords = new Set(
+    [
+      ...metaContent('meta[property="article:tag"]'),
+      ...metaContent('meta[name="keywords"], meta[name="news_keywords"]').flatMap((value) =>
+        value.split(',')
+      ),
+    ]
+      .map((keyword) => keyword.trim())
+      .filter((keyword) => keyword.length > 0)
+  );
+
+  return {
+    author,
+    imageUrl: image ? resolveHttpUrl(image, pageUrl) : undefined,
+    section: metaContent('meta[property="article:section"]')[0],
+    keywords: keywords.size > 0 ? [...keywords] : undefined,
+  };
+}
+
+/**
+ * Get the publication date a page declares
+ * (article:published_time, datePublished microdata, then the first <time datetime>)
+ */
+export function findPublishedDate(html: string): Date | undefined {
+  const { document } = parseHTML(html);
+  const candidates = [
+    document.querySelector('meta[property="article:published_time"]')?.getAttribute('content'),
+    document.querySelector('meta[itemprop="datePublished"]')?.getAttribute('content'),
+    document.querySelector('[itemprop="datePublished"]')?.getAttribute('datetime'),
+    document.querySelector('meta[name="date"]')?.getAttribute('content'),
+    document.querySelector('time[datetime]')?.getAttribute('datetime'),
+  ];
+
+  for (const candidate of candidates) {
+    const date = parseFrenchDate(candidate ?? undefined);
+    if (date) {
+      return date;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Count the words of extracted content
+ */
+export function countWords(content: string): number {
+  return content.split(/\s+/).filter((word) => word.length > 0).length;
+}
@@ -7,18 +7,123 @@
 // RSS-based fetching (primary approach)
 export {
   fetchRssFeeds,
+  loadRssFeeds,
+  createRssScraper,
+  saveFeedStates,
   DEFAULT_FEEDS,
   type RssFeedConfig,
 } from './rss-fetcher.js';
 
+// Feed parsing (RSS 2.0, Atom, JSON Feed)
+export {
+  parseFeed,
+  detectFeedFormat,
+  type FeedFormat,
+  type FeedEntry,
+  type ParsedFeed,
+} from './feed-parser.js';
+
+// News sitemap discovery
+export {
+  fetchSitemaps,
+  loadSitemapSources,
+  createSitemapScraper,
+  sitemapEntryToArticle,
+  type SitemapSourceConfig,
+} from './sitemap-fetcher.js';
+export {
+  parseSitemap,
+  selectSitemaps,
+  type SitemapKind,
+  type SitemapRef,
+  type SitemapEntry,
+  type ParsedSitemap,
+} from './sitemap-parser.js';
+
+// Newsletters received by email
+export {
+  fetchNewsletters,
+  createNewsletterScraper,
+  getNewsletterConfig,
+  readMailbox,
+  type NewsletterConfig,
+} from './newsletter-fetcher.js';
+export { splitNewsletter, type NewsletterItem } from './newsletter-parser.js';
+export { parseMailMessage, splitMbox, type MailMessage, type MailAddress } from './mail-parser.js';
+
 // Web scraping (fallback for Zone Bourse if needed)
-export { scrapeZoneBourse, saveScrapedArticles } from './zonebourse.js';
+export {
+  scrapeZoneBourse,
+  createZoneBourseScraper,
+  saveScrapedArticles,
+  type ZoneBourseSection,
+} from './zonebourse.js';
+
+// Source registry
+export {
+  registerScraper,
+  unregisterScraper,
+  getScraper,
+  getScrapers,
+  getDueScrapers,
+  getFallbackScrapers,
+  clearScrapers,
+  isScheduled,
+  scrapeSources,
+  type SourceRunResult,
+  type SourcesScrapeResult,
+} from './registry.js';
+export { createBuiltinScrapers, registerSources } from './sources.js';
+export { scrapeWithFallback, type FallbackScrapeResult } from './fallback.js';
+
+// Source health
+export { recordSourceRuns, checkSourceHealth, sourceHealthEvents } from './health-monitor.js';
+export {
+  assessSourceHealth,
+  type SourceHealthThresholds,
+  type SourceStatus,
+  type SourceAssessment,
+} from './health.js';
+
+// Historical backfill
+export {
+  backfillZoneBourse,
+  backfillFeed,
+  type BackfillOptions,
+  type BackfillResult,
+} from './backfill.js';
 
 // Content extraction
 export {
   extractArticleContents,
+  extractPageContent,
+  hasEnoughContent,
   type ContentExtractionResult,
+  type PageContent,
 } from './content-extractor.js';
+export { extractMainContent, findPublishedDate, getExtractionRule } from './html-extractor.js';
+
+// robots.txt and Crawl-delay
+export {
+  isAllowedByRobots,
+  getRobotsVerdict,
+  waitForCrawlDelay,
+  getRobotsPolicy,
+  resetRobotsCache,
+  type RobotsVerdict,
+} from './politeness.js';
+export { parseRobotsTxt, checkPath, type RobotsPolicy, type RobotsCheck } from './robots.js';
+
+// Page snapshots
+export {
+  recordSnapshot,
+  captureScreenshot,
+  pruneSnapshots,
+  compressHtml,
+  decompressHtml,
+  hashHtml,
+  type SnapshotInput,
+} from './snapshots.js';
 
 // Browser utilities
 export {
@@ -29,7 +134,16 @@ export {
   closePage,
   waitForRateLimit,
   isBrowserRunning,
+  saveBrowserState,
 } from './browser.js';
+export { handleConsent, getConsentRecipe } from './consent.js';
 
-export type { BrowserOptions } from './browser.js';
-export type { Scraper, ScrapeResult, RawArticleListing } from './types.js';
+export type { BrowserOptions, PageOptions } from './browser.js';
+export type {
+  Scraper,
+  ScrapeResult,
+  ScrapeOptions,
+  SourceLimits,
+  SourceSchedule,
+  RawArticleListing,
+} from './types.js';
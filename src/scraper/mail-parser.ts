@@ -0,0 +1,269 @@
+/**
+ * Mail Parser
+ *
+ * Reads RFC 5322 messages (MIME multipart, base64 and quoted-printable
+ * bodies, encoded-word headers, any charset) and splits mbox files.
+ * Messages are handled as bytes: headers and bodies are decoded with their
+ * declared charset.
+ */
+
+/**
+ * Message fields used by the newsletter source
+ */
+export interface MailMessage {
+  messageId?: string;
+  subject: string;
+  from?: MailAddress;
+  /** Raw Date header */
+  date?: string;
+  /** First text/html part */
+  html?: string;
+  /** First text/plain part */
+  text?: string;
+}
+
+export interface MailAddress {
+  name?: string;
+  address: string;
+}
+
+/**
+ * Headers of a message or MIME part, names lowercased, values unfolded
+ */
+type MailHeaders = Map<string, string>;
+
+/**
+ * Parts nested deeper than this are ignored
+ */
+const MAX_MIME_DEPTH = 10;
+
+/**
+ * Characters of bytes 0x80-0x9F in windows-1252, which mail clients send as "iso-8859-1"
+ */
+const CP1252_HIGH =
+  '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+/**
+ * Decode bytes held in a latin1 string with a charset, UTF-8 when unknown
+ */
+function decodeCharset(binary: string, charset = 'utf-8'): string {
+  const bytes = Buffer.from(binary, 'latin1');
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+
+  // Node decodes the windows-1252 family as plain latin1
+  if (decoder.encoding === 'windows-1252') {
+    return binary.replace(/[\x80-\x9f]/g, (c) => CP1252_HIGH[c.charCodeAt(0) - 0x80] ?? c);
+  }
+  return decoder.decode(bytes);
+}
+
+/**
+ * Decode quoted-printable into bytes (latin1 string)
+ */
+function decodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/**
+ * Decode RFC 2047 encoded words ("=?UTF-8?Q?R=C3=A9sultats?=")
+ */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?)/gi, '$1')
+    .replace(
+      /=\?([^?*]+)(?:\*[^?]*)?\?([bq])\?([^?]*)\?=/gi,
+      (_, charset: string, encoding: string, text: string) => {
+        const binary =
+          encoding.toLowerCase() === 'b'
+            ? Buffer.from(text, 'base64').toString('latin1')
+            : decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return decodeCharset(binary, charset);
+      }
+    );
+}
+
+/**
+ * Split a message or part into its headers and body (both latin1 strings)
+ */
+function splitHeaders(binary: string): { headers: MailHeaders; body: string } {
+  const match = /\r?\n\r?\n/.exec(binary);
+  const head = match ? binary.slice(0, match.index) : binary;
+  const body = match ? binary.slice(match.index + match[0].length) : '';
+
+  const headers: MailHeaders = new Map();
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) {
+      continue;
+    }
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Unencoded 8-bit header values are UTF-8 in practice (RFC 6532)
+    const value = decodeEncodedWords(decodeCharset(line.slice(colon + 1).trim()));
+    if (!headers.has(name)) {
+      headers.set(name, value);
+    }
+  }
+  return { headers, body };
+}
+
+/**
+ * Split a structured header value ("text/html; charset=utf-8") into its value and parameters
+ */
+function parseHeaderParams(value: string | undefined): {
+  value: string;
+  params: Map<string, string>;
+} {
+  const [first = '', ...rest] = (value ?? '').split(';');
+  const params = new Map<string, string>();
+  for (const param of rest) {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      const key = param.slice(0, eq).trim().toLowerCase();
+      params.set(
+        key,
+        param
+          .slice(eq + 1)
+          .trim()
+          .replace(/^"(.*)"$/, '$1')
+      );
+    }
+  }
+  return { value: first.trim().toLowerCase(), params };
+}
+
+/**
+ * Decode a part body from its transfer encoding and charset
+ */
+function decodeBody(body: string, headers: MailHeaders, charset: string | undefined): string {
+  const encoding = headers.get('content-transfer-encoding')?.toLowerCase();
+  let binary = body;
+  if (encoding === 'base64') {
+    binary = Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('latin1');
+  } else if (encoding === 'quoted-printable') {
+    binary = decodeQuotedPrintable(body);
+  }
+  return decodeCharset(binary, charset);
+}
+
+/**
+ * Collect the first HTML and plain-text bodies of a part tree, attachments skipped
+ */
+function collectBodies(binary: string, message: MailMessage, depth = 0): void {
+  const { headers, body } = splitHeaders(binary);
+  const contentType = parseHeaderParams(headers.get('content-type') ?? 'text/plain');
+  const disposition = parseHeaderParams(headers.get('content-disposition')).value;
+
+  if (contentType.value.startsWith('multipart/')) {
+    const boundary = contentType.params.get('boundary');
+    if (!boundary || depth >= MAX_MIME_DEPTH) {
+      return;
+    }
+    const delimiter = `--${boundary}`;
+    const sections = body.split(delimiter);
+    // Preamble before the first boundary, epilogue after the closing one
+    for (const section of sections.slice(1)) {
+      if (section.startsWith('--')) {
+        break;
+      }
+      collectBodies(section.replace(/^[ \t]*\r?\n/, ''), message, depth + 1);
+    }
+    return;
+  }
+
+  if (disposition === 'attachment') {
+    return;
+  }
+
+  const charset = contentType.params.get('charset');
+  if (contentType.value === 'text/html' && message.html === undefined) {
+    message.html = decodeBody(body, headers, charset);
+  } else if (contentType.value === 'text/plain' && message.text === undefined) {
+    message.text = decodeBody(body, headers, charset);
+  }
+}
+
+/**
+ * Parse an address header ("Jane Doe" <jane@example.com>)
+ */
+export function parseMailAddress(value: string | undefined): MailAddress | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const match = value.match(/^\s*(?:"?([^"<]*?)"?\s*)?<([^>]+)>/);
+  if (match) {
+    const name = match[1]?.trim();
+    return { name: name ? name : undefined, address: match[2]!.trim().toLowerCase() };
+  }
+  const address = value.trim().toLowerCase();
+  return address.includes('@') ? { address } : undefined;
+}
+
+/**
+ * Check if a message comes from one of a list of addresses or domains
+ * An empty list accepts every sender
+ */
+export function isFromSender(message: Pick<MailMessage, 'from'>, senders: string[]): boolean {
+  if (senders.length === 0) {
+    return true;
+  }
+  const address = message.from?.address;
+  if (!address) {
+    return false;
+  }
+
+  const domain = address.slice(address.indexOf('@') + 1);
+  return senders.some((sender) => {
+    const senderDomain = sender.replace(/^@/, '');
+    return sender === address || senderDomain === domain || domain.endsWith(`.${senderDomain}`);
+  });
+}
+
+/**
+ * Parse a raw message
+ */
+export function parseMailMessage(raw: Buffer): MailMessage {
+  const binary = raw.toString('latin1');
+  const { headers } = splitHeaders(binary);
+
+  const message: MailMessage = {
+    messageId: headers.get('message-id')?.replace(/^<|>$/g, ''),
+    subject: headers.get('subject') ?? '',
+    from: parseMailAddress(headers.get('from')),
+    date: headers.get('date'),
+  };
+  collectBodies(binary, message);
+  return message;
+}
+
+/**
+ * Split an mbox file into raw messages
+ * "From " separator lines are dropped, ">From " escapes are undone (mboxrd)
+ */
+export function splitMbox(data: Buffer): Buffer[] {
+  const text = data.toString('latin1');
+  const starts: number[] = [];
+  const separator = /^From [^\r\n]*\r?\n/gm;
+
+  let match: RegExpExecArray | null;
+  while ((match = separator.exec(text))) {
+    starts.push(match.index, match.index + match[0].length);
+  }
+
+  const messages: Buffer[] = [];
+  for (let i = 1; i < starts.length; i += 2) {
+    const end = starts[i + 1] ?? text.length;
+    const message = text.slice(starts[i], end).replace(/^>(>*From )/gm, '$1');
+    if (message.trim()) {
+      messages.push(Buffer.from(message, 'latin1'));
+    }
+  }
+  return messages;
+}
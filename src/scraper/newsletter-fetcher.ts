@@ -0,0 +1,298 @@
+/**
+ * Newsletter Fetcher
+ *
+ * Reads newsletters from an IMAP mailbox, an mbox file or a Maildir and
+ * turns each linked item into an article. The item's text comes from the
+ * email, so these articles skip content extraction: tracking links are
+ * resolved here, once per link, before the URL is canonicalised and the ID
+ * derived.
+ */
+
+import { readdir, readFile, stat } from 'fs/promises';
+import { join } from 'path';
+import { ImapFlow } from 'imapflow';
+import { isFromSender, parseMailMessage, splitMbox, type MailMessage } from './mail-parser.js';
+import { splitNewsletter, type NewsletterItem } from './newsletter-parser.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { canonicalizeUrl } from '../utils/url.js';
+import { parseFrenchDate } from '../utils/date.js';
+import {
+  generateArticleId,
+  getExistingArticleUrls,
+  getNewsletterLinks,
+  pruneNewsletterLinks,
+  saveNewsletterLink,
+} from '../db/queries.js';
+import type { Article, ArticleSource } from '../types/index.js';
+import type { Scraper, ScrapeResult, SourceLimits } from './types.js';
+
+/**
+ * Newsletter source configuration
+ */
+export interface NewsletterConfig {
+  /** imap:// or imaps:// URL (mailbox path, INBOX by default), mbox file or Maildir directory */
+  mailbox: string;
+  source: ArticleSource;
+  /** Sender addresses or domains read, every sender when empty */
+  senders: string[];
+  maxAgeDays: number;
+}
+
+/**
+ * Get the newsletter configuration, undefined when no mailbox is set
+ */
+export function getNewsletterConfig(): NewsletterConfig | undefined {
+  const { mailbox, ...rest } = config.scraper.newsletters;
+  return mailbox ? { mailbox, ...rest } : undefined;
+}
+
+/**
+ * Read the messages received since a date from an IMAP mailbox
+ */
+async function readImapMessages(url: URL, since: Date): Promise<Buffer[]> {
+  const secure = url.protocol === 'imaps:';
+  const client = new ImapFlow({
+    host: url.hostname,
+    port: url.port ? parseInt(url.port, 10) : secure ? 993 : 143,
+    secure,
+    auth: { user: decodeURIComponent(url.username), pass: decodeURIComponent(url.password) },
+    logger: false,
+  });
+
+  const mailbox = decodeURIComponent(url.pathname.slice(1)) || 'INBOX';
+  const messages: Buffer[] = [];
+
+  await client.connect();
+  try {
+    const lock = await client.getMailboxLock(mailbox);
+    try {
+      for await (const message of client.fetch({ since }, { source: true })) {
+        if (message.source) {
+          messages.push(message.source);
+        }
+      }
+    } finally {
+      lock.release();
+    }
+  } finally {
+    await client.logout().catch(() => client.close());
+  }
+  return messages;
+}
+
+/**
+ * Read the messages of a Maildir (new and cur)
+ */
+async function readMaildirMessages(dir: string): Promise<Buffer[]> {
+  const messages: Buffer[] = [];
+  for (const sub of ['new', 'cur']) {
+    const files = await readdir(join(dir, sub)).catch(() => [] as string[]);
+    for (const file of files.filter((f) => !f.startsWith('.'))) {
+      messages.push(await readFile(join(dir, sub, file)));
+    }
+  }
+  return messages;
+}
+
+/**
+ * Read the raw messages of a mailbox
+ * IMAP mailboxes are searched by date, local mailboxes are read in full
+ */
+export async function readMailbox(mailbox: string, since: Date): Promise<Buffer[]> {
+  if (/^imaps?:\/\//i.test(mailbox)) {
+    return readImapMessages(new URL(mailbox), since);
+  }
+
+  const info = await stat(mailbox);
+  return info.isDirectory() ? readMaildirMessages(mailbox) : splitMbox(await readFile(mailbox));
+}
+
+/**
+ * Follow the redirects of a newsletter link, usually a per-send tracking URL,
+ * to the article it points to. The link is kept as is when the request fails
+ */
+export async function resolveNewsletterLink(url: string): Promise<string> {
+  try {
+    const response = await fetch(url, {
+      redirect: 'follow',
+      headers: { 'User-Agent': config.scraper.userAgent },
+      signal: AbortSignal.timeout(config.scraper.timeout),
+    });
+    await response.body?.cancel();
+    return response.url || url;
+  } catch (error) {
+    logger.debug({ url, error }, 'Newsletter link not resolved, kept as is');
+    return url;
+  }
+}
+
+/**
+ * Map a newsletter item (its link already resolved) to an article
+ * An item without a blurb keeps its title as content, so it is never sent to extraction
+ */
+export function newsletterItemToArticle(
+  item: NewsletterItem,
+  message: MailMessage,
+  source: ArticleSource,
+  publishedAt: Date | null
+): Article {
+  const url = canonicalizeUrl(item.url);
+
+  return {
+    id: generateArticleId(url),
+    title: item.title,
+    url,
+    content: item.content || item.title,
+    publishedAt: publishedAt ?? new Date(),
+    publishedAtUnknown: publishedAt ? undefined : true,
+    source,
+    createdAt: new Date(),
+    metadata: {
+      author: message.from?.name ?? message.from?.address,
+      categories: message.subject ? [message.subject] : undefined,
+    },
+  };
+}
+
+/**
+ * Fetch new articles from the newsletter mailbox
+ */
+export async function fetchNewsletters(
+  options: { newsletter?: NewsletterConfig; maxArticles?: number } = {}
+): Promise<ScrapeResult> {
+  const { maxArticles = 50 } = options;
+  const newsletter = options.newsletter ?? getNewsletterConfig();
+
+  const result: ScrapeResult = {
+    articles: [],
+    scrapedAt: new Date(),
+    pagesProcessed: 0,
+    totalFound: 0,
+    newArticles: 0,
+    errors: 0,
+  };
+  if (!newsletter) {
+    logger.debug('No newsletter mailbox configured');
+    return result;
+  }
+
+  const startTime = Date.now();
+  const since = new Date(Date.now() - newsletter.maxAgeDays * 24 * 60 * 60 * 1000);
+  const candidates = new Map<string, Article>();
+  const messageItems: Array<{
+    message: MailMessage;
+    publishedAt: Date | null;
+    items: NewsletterItem[];
+  }> = [];
+
+  try {
+    await pruneNewsletterLinks(since);
+    const raw = await readMailbox(newsletter.mailbox, since);
+    logger.info({ messages: raw.length, source: newsletter.source }, 'Newsletter mailbox read');
+
+    for (const data of raw) {
+      try {
+        const message = parseMailMessage(data);
+        const publishedAt = parseFrenchDate(message.date);
+        if (!isFromSender(message, newsletter.senders) || (publishedAt && publishedAt < since)) {
+          continue;
+        }
+        if (!publishedAt) {
+          logger.warn(
+            { messageId: message.messageId, date: message.date },
+            'Unparseable newsletter date, flagged as unknown'
+          );
+        }
+
+        const items = splitNewsletter(message);
+        result.pagesProcessed++;
+        logger.debug(
+          { messageId: message.messageId, subject: message.subject, items: items.length },
+          'Newsletter split'
+        );
+        messageItems.push({ message, publishedAt, items });
+      } catch (error) {
+        logger.warn({ error }, 'Failed to parse newsletter message');
+        result.errors++;
+      }
+    }
+
+    // Links of messages read by an earlier run are already resolved, only new ones are followed
+    const links = [...new Set(messageItems.flatMap((m) => m.items.map((item) => item.url)))];
+    const resolved = await getNewsletterLinks(links);
+    const unresolved = links.filter((link) => !resolved.has(link));
+    for (const link of unresolved) {
+      const url = await resolveNewsletterLink(link);
+      await saveNewsletterLink(link, url);
+      resolved.set(link, url);
+    }
+    if (unresolved.length > 0) {
+      logger.debug({ links: unresolved.length }, 'Newsletter links resolved');
+    }
+
+    for (const { message, publishedAt, items } of messageItems) {
+      for (const item of items) {
+        const url = resolved.get(item.url) ?? item.url;
+        const article = newsletterItemToArticle(
+          { ...item, url },
+          message,
+          newsletter.source,
+          publishedAt
+        );
+        if (!candidates.has(article.url)) {
+          candidates.set(article.url, article);
+        }
+      }
+    }
+
+    const existingUrls = await getExistingArticleUrls([...candidates.keys()]);
+    const articles = [...candidates.values()]
+      .filter((article) => !existingUrls.has(article.url))
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+    const limitedArticles = articles.slice(0, maxArticles);
+
+    result.itemsSeen = candidates.size;
+    result.totalFound = articles.length;
+    result.newArticles = limitedArticles.length;
+    result.articles = limitedArticles;
+  } catch (error) {
+    logger.error({ error, source: newsletter.source }, 'Failed to read newsletter mailbox');
+    result.errors++;
+  }
+
+  logger.info(
+    {
+      newsletters: result.pagesProcessed,
+      items: candidates.size,
+      newArticles: result.newArticles,
+      errors: result.errors,
+      durationMs: Date.now() - startTime,
+    },
+    'Newsletter fetch completed'
+  );
+
+  return result;
+}
+
+/**
+ * Create the registry scraper of the newsletter mailbox
+ */
+export function createNewsletterScraper(
+  newsletter: NewsletterConfig,
+  options: { limits?: SourceLimits } = {}
+): Scraper {
+  const limits = options.limits ?? { maxArticles: 100 };
+
+  return {
+    name: 'Newsletters',
+    source: newsletter.source,
+    enabled: true,
+    limits,
+    scrape: (scrapeOptions = {}) =>
+      fetchNewsletters({
+        newsletter,
+        maxArticles: Math.min(limits.maxArticles, scrapeOptions.maxArticles ?? limits.maxArticles),
+      }),
+  };
+}
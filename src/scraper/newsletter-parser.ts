@@ -0,0 +1,315 @@
+/**
+ * Newsletter Parser
+ *
+ * Splits a newsletter email into its items, one per linked article.
+ * An item is either a headline link followed by its blurb, or a heading and
+ * blurb closed by a "Lire la suite" link (or a bare URL in plain-text mails).
+ * Footer, social and unsubscribe links are ignored.
+ */
+
+import { parseHTML } from 'linkedom';
+import type { MailMessage } from './mail-parser.js';
+
+/**
+ * Article found in a newsletter
+ */
+export interface NewsletterItem {
+  url: string;
+  title: string;
+  /** Blurb text from the email body */
+  content: string;
+}
+
+/**
+ * Text block or link of a mail body, in reading order
+ */
+interface BodyToken {
+  text: string;
+  link?: string;
+  /** Index of the enclosing block (paragraph, cell, line) */
+  block: number;
+  /** Heading, bold block or first line of a text paragraph: title of a "read more" item */
+  heading?: boolean;
+  /** URL written out in a plain-text body */
+  bare?: boolean;
+}
+
+/**
+ * Link text shorter than this is not a headline
+ */
+const MIN_TITLE_LENGTH = 15;
+
+/**
+ * "Read more" link texts: the item's title is the text before the link
+ */
+const READ_MORE_TEXT =
+  /^(lire (la suite|l'article|plus)|en savoir plus|read more|continue reading|d[ée]couvrir|voir l'article|suite)\W*$|^[→»>]+$/i;
+
+/**
+ * Links that never point to an article
+ */
+const IGNORED_LINK_TEXT =
+  /d[ée]sinscri|d[ée]sabonn|unsubscribe|pr[ée]f[ée]rences|version en ligne|voir (cet e-?mail|la newsletter|en ligne)|view (this email )?in (your )?browser|mentions l[ée]gales|confidentialit|privacy/i;
+const IGNORED_URL = /unsubscribe|desinscri|desabonn|optout|opt-out|preferences|\/manage\b/i;
+const SOCIAL_HOSTS =
+  /(^|\.)(twitter\.com|x\.com|facebook\.com|linkedin\.com|instagram\.com|youtube\.com|t\.me|apple\.com|google\.com)$/i;
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS',
+  'ARTICLE',
+  'BLOCKQUOTE',
+  'BR',
+  'DIV',
+  'FOOTER',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HEADER',
+  'HR',
+  'LI',
+  'OL',
+  'P',
+  'SECTION',
+  'TABLE',
+  'TD',
+  'TH',
+  'TR',
+  'UL',
+]);
+const HEADING_TAGS = new Set(['H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'STRONG', 'B']);
+const SKIPPED_TAGS = new Set(['HEAD', 'SCRIPT', 'STYLE', 'TITLE']);
+
+/**
+ * Collapse whitespace (including non-breaking spaces)
+ */
+function cleanText(text: string | null | undefined): string {
+  return (text ?? '').replace(/[\s\u200b\u200c]+/g, ' ').trim();
+}
+
+/**
+ * Check if a link belongs to the newsletter's header or footer
+ * (unsubscribe, preferences, online version, social networks)
+ */
+function isFooterLink(url: string, text: string): boolean {
+  let hostname = '';
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    // Relative or malformed links are filtered by isArticleLink
+  }
+  return IGNORED_LINK_TEXT.test(text) || IGNORED_URL.test(url) || SOCIAL_HOSTS.test(hostname);
+}
+
+/**
+ * Check if a link may point to an article
+ */
+function isArticleLink(url: string, text: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  return (
+    (parsed.protocol === 'http:' || parsed.protocol === 'https:') &&
+    parsed.pathname !== '/' &&
+    !isFooterLink(url, text)
+  );
+}
+
+/**
+ * Tokenise an HTML body into text blocks and links
+ */
+function tokenizeHtml(html: string): BodyToken[] {
+  const { document } = parseHTML(html);
+  const tokens: BodyToken[] = [];
+  let buffer = '';
+  let block = 0;
+  let headingDepth = 0;
+  let headingText = '';
+
+  const flush = (): void => {
+    const text = cleanText(buffer);
+    if (text) {
+      tokens.push({ text, block, heading: cleanText(headingText) === text ? true : undefined });
+    }
+    buffer = '';
+    headingText = '';
+  };
+
+  const walk = (node: Node): void => {
+    if (node.nodeType === 3) {
+      buffer += node.textContent ?? '';
+      if (headingDepth > 0) {
+        headingText += node.textContent ?? '';
+      }
+      return;
+    }
+    if (node.nodeType !== 1) {
+      return;
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toUpperCase();
+    if (SKIPPED_TAGS.has(tag)) {
+      return;
+    }
+
+    const href = element.getAttribute('href')?.trim();
+    if (tag === 'A' && href) {
+      flush();
+      tokens.push({ text: cleanText(element.textContent), link: href, block });
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    const isHeading = HEADING_TAGS.has(tag);
+    if (isBlock) {
+      flush();
+      block++;
+    }
+    if (isHeading) {
+      headingDepth++;
+    }
+    for (const child of Array.from(element.childNodes)) {
+      walk(child);
+    }
+    if (isHeading) {
+      headingDepth--;
+    }
+    if (isBlock) {
+      flush();
+      block++;
+    }
+  };
+
+  walk(document.body ?? document.documentElement);
+  flush();
+  return tokens;
+}
+
+/**
+ * Tokenise a plain-text body: one block per line, URLs as bare links
+ * The first line of a paragraph is its heading
+ */
+function tokenizeText(text: string): BodyToken[] {
+  const tokens: BodyToken[] = [];
+  for (const paragraph of text.split(/\r?\n\s*\r?\n/)) {
+    let heading: true | undefined = true;
+    const push = (token: BodyToken): void => {
+      tokens.push(token.link ? token : { ...token, heading });
+      heading = undefined;
+    };
+
+    for (const line of paragraph.split(/\r?\n/)) {
+      const block = tokens.length;
+      let rest = line;
+      for (const match of line.matchAll(/<?(https?:\/\/[^\s<>"]+[^\s<>".,;:!?)\]])>?/g)) {
+        const before = rest.slice(0, rest.indexOf(match[0]));
+        if (cleanText(before)) {
+          push({ text: cleanText(before), block });
+        }
+        push({ text: '', link: match[1], block, bare: true });
+        rest = rest.slice(before.length + match[0].length);
+      }
+      if (cleanText(rest)) {
+        push({ text: cleanText(rest), block });
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Join text blocks, without the space left before punctuation by inline links
+ */
+function joinText(tokens: BodyToken[]): string {
+  return tokens
+    .map((t) => t.text)
+    .join(' ')
+    .replace(/ ([,.)])/g, '$1');
+}
+
+/**
+ * Split a newsletter into its linked items
+ * The same URL is reported once, with the text of all its links
+ */
+export function splitNewsletter(message: Pick<MailMessage, 'html' | 'text'>): NewsletterItem[] {
+  const tokens = message.html ? tokenizeHtml(message.html) : tokenizeText(message.text ?? '');
+
+  const items = new Map<string, NewsletterItem>();
+  let current: NewsletterItem | undefined;
+  // Text blocks since the previous article link
+  let pending: BodyToken[] = [];
+
+  const commit = (): void => {
+    if (current && pending.length > 0) {
+      const text = joinText(pending);
+      current.content = current.content ? `${current.content} ${text}` : text;
+    }
+    pending = [];
+  };
+
+  for (const token of tokens) {
+    if (!token.link) {
+      pending.push(token);
+      continue;
+    }
+
+    if (isFooterLink(token.link, token.text)) {
+      // Footer reached: the text around the link and after it belongs to no item
+      pending = pending.filter((t) => t.block !== token.block);
+      commit();
+      current = undefined;
+      continue;
+    }
+
+    if (!isArticleLink(token.link, token.text)) {
+      if (token.text) {
+        pending.push(token);
+      }
+      continue;
+    }
+
+    const known = items.get(token.link);
+    const isHeadline = token.text.length >= MIN_TITLE_LENGTH && !READ_MORE_TEXT.test(token.text);
+    const isReadMore = token.bare === true || READ_MORE_TEXT.test(token.text);
+
+    if (known) {
+      // Second link to an item (headline then "read more"): its blurb lies in between
+      commit();
+      current = isReadMore ? undefined : known;
+    } else if (isHeadline) {
+      commit();
+      current = { url: token.link, title: token.text, content: '' };
+      items.set(token.link, current);
+    } else if (isReadMore && current) {
+      // "Read more" closing a headline item whose link is a different tracking URL
+      commit();
+      current = undefined;
+    } else if (isReadMore) {
+      // Title is the last heading before the link, or else the first block
+      let titleIndex = pending.map((t) => t.heading === true).lastIndexOf(true);
+      if (titleIndex < 0) {
+        titleIndex = 0;
+      }
+      const title = pending[titleIndex];
+      if (title && title.text.length >= MIN_TITLE_LENGTH) {
+        const content = joinText(pending.slice(titleIndex + 1));
+        items.set(token.link, { url: token.link, title: title.text, content });
+      }
+      pending = [];
+      current = undefined;
+    } else if (token.text) {
+      // Short inline link ("selon Reuters"): part of the text
+      pending.push(token);
+    }
+  }
+  commit();
+
+  return [...items.values()];
+}
@@ -0,0 +1,125 @@
+/**
+ * Page Pool
+ *
+ * Bounded set of Playwright pages shared by concurrent extraction workers.
+ * The browser is launched on first use and relaunched if it crashed.
+ */
+
+import {
+  initBrowser,
+  createPage,
+  closePage,
+  closeBrowser,
+  isBrowserRunning,
+  type Page,
+  type PageOptions,
+} from './browser.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Page pool
+ */
+export interface PagePool {
+  /**
+   * Wait for a free page of the proxy (created on demand, up to the pool size)
+   * An idle page of another proxy is closed to make room if needed
+   */
+  acquire(options?: PageOptions): Promise<Page>;
+  /** Return a page to the pool */
+  release(page: Page): void;
+  /** Close every page and the browser */
+  close(): Promise<void>;
+}
+
+/**
+ * Create a page pool of at most `size` pages
+ */
+export function createPagePool(size: number): PagePool {
+  // Pages of the running browser and their proxy, pages from before a relaunch are dropped on release
+  const pages = new Map<Page, string>();
+  let idle: Page[] = [];
+  let launched = false;
+  let launching: Promise<void> | null = null;
+  const waiters: Array<() => void> = [];
+
+  /**
+   * Launch the browser, or relaunch it after a crash
+   * Concurrent callers share a single launch
+   */
+  async function ensureBrowser(): Promise<void> {
+    while (launching) {
+      await launching;
+    }
+    if (launched && isBrowserRunning()) {
+      return;
+    }
+
+    launching = (async (): Promise<void> => {
+      if (launched) {
+        logger.warn({ pages: pages.size }, 'Browser crashed, relaunching');
+        pages.clear();
+        idle = [];
+        await closeBrowser();
+      }
+      await initBrowser({ headless: true });
+      launched = true;
+    })().finally(() => {
+      launching = null;
+    });
+
+    await launching;
+  }
+
+  async function acquire(options: PageOptions = {}): Promise<Page> {
+    const proxyUrl = options.proxyUrl ?? '';
+
+    for (;;) {
+      await ensureBrowser();
+
+      const index = idle.findIndex((p) => pages.get(p) === proxyUrl);
+      if (index !== -1) {
+        return idle.splice(index, 1)[0]!;
+      }
+
+      // Pool full of idle pages of other proxies: recycle one
+      const other = pages.size >= size ? idle.shift() : undefined;
+      if (other) {
+        pages.delete(other);
+        await closePage(other);
+      }
+
+      if (pages.size < size) {
+        const newPage = await createPage(options);
+        pages.set(newPage, proxyUrl);
+        return newPage;
+      }
+
+      await new Promise<void>((resolve) => waiters.push(resolve));
+    }
+  }
+
+  function release(page: Page): void {
+    if (pages.has(page)) {
+      if (page.isClosed()) {
+        pages.delete(page);
+      } else {
+        idle.push(page);
+      }
+    }
+    waiters.shift()?.();
+  }
+
+  async function close(): Promise<void> {
+    for (const page of idle) {
+      await closePage(page);
+    }
+    pages.clear();
+    idle = [];
+    if (launched) {
+      launched = false;
+      await closeBrowser();
+    }
+  }
+
+  return { acquire, release, close };
+}
@@ -0,0 +1,172 @@
+/**
+ * Crawl Politeness
+ *
+ * robots.txt compliance (RFC 9309) for every page the scrapers open:
+ * robots.txt is fetched and cached per origin, disallowed paths are refused
+ * for our user agent and recorded in processing_log, and Crawl-delay spaces
+ * requests to the same host. robots.txt of a proxied source is fetched
+ * through its proxy.
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { sleep } from '../utils/retry.js';
+import { fetchWithProxy } from '../utils/proxy.js';
+import { logBlockedUrl } from '../db/queries.js';
+import { parseRobotsTxt, checkPath, type RobotsPolicy } from './robots.js';
+
+interface CachedPolicy {
+  policy: Promise<RobotsPolicy>;
+  expiresAt: number;
+}
+
+/**
+ * Unreachable robots.txt (5xx, network error) means full disallow;
+ * retried sooner than a fetched one
+ */
+const UNREACHABLE_TTL_MS = 15 * 60 * 1000;
+const ROBOTS_TIMEOUT_MS = 10000;
+
+/** Policy of an origin whose robots.txt could not be fetched (compared by identity) */
+const UNREACHABLE: RobotsPolicy = { rules: [{ allow: false, path: '/' }] };
+const ALLOW_ALL: RobotsPolicy = { rules: [] };
+
+/**
+ * robots.txt verdict on a URL: unreachable is a temporary refusal, not a Disallow
+ */
+export type RobotsVerdict = 'allowed' | 'disallowed' | 'unreachable';
+
+const policies = new Map<string, CachedPolicy>();
+const nextSlotAt = new Map<string, number>();
+
+/**
+ * Fetch and parse the robots.txt of an origin
+ */
+async function fetchPolicy(
+  origin: string,
+  proxyUrl?: string
+): Promise<{ policy: RobotsPolicy; ttlMs: number }> {
+  const { userAgent, cacheTtlMs } = config.scraper.robots;
+  const url = `${origin}/robots.txt`;
+
+  try {
+    const response = await fetchWithProxy(
+      url,
+      {
+        headers: { 'User-Agent': config.scraper.userAgent },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+      },
+      proxyUrl
+    );
+
+    if (response.ok) {
+      const policy = parseRobotsTxt(await response.text(), userAgent);
+      logger.debug(
+        { origin, rules: policy.rules.length, crawlDelayMs: policy.crawlDelayMs },
+        'robots.txt loaded'
+      );
+      return { policy, ttlMs: cacheTtlMs };
+    }
+    // No robots.txt (or access refused to it): no restriction
+    if (response.status >= 400 && response.status < 500) {
+      logger.debug({ origin, status: response.status }, 'No robots.txt, crawling allowed');
+      return { policy: ALLOW_ALL, ttlMs: cacheTtlMs };
+    }
+    logger.warn({ origin, status: response.status }, 'robots.txt unreachable, host paused');
+  } catch (error) {
+    logger.warn({ error, origin }, 'robots.txt unreachable, host paused');
+  }
+
+  return { policy: UNREACHABLE, ttlMs: UNREACHABLE_TTL_MS };
+}
+
+/**
+ * Get the robots.txt policy of a URL's origin (cached per origin and proxy)
+ */
+export async function getRobotsPolicy(url: string, proxyUrl?: string): Promise<RobotsPolicy> {
+  const origin = new URL(url).origin;
+  // Reachability depends on the route: the direct IP may be blocked, the proxy not
+  const key = proxyUrl ? `${origin} ${proxyUrl}` : origin;
+  const cached = policies.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy;
+  }
+
+  // The pending promise is cached so concurrent callers share one fetch
+  const entry: CachedPolicy = {
+    policy: fetchPolicy(origin, proxyUrl).then(({ policy, ttlMs }) => {
+      entry.expiresAt = Date.now() + ttlMs;
+      return policy;
+    }),
+    expiresAt: Infinity,
+  };
+  policies.set(key, entry);
+  return entry.policy;
+}
+
+/**
+ * Get the robots.txt verdict on a URL
+ * Disallowed URLs are logged and recorded in processing_log (against the article, if any);
+ * unreachable ones are left to the caller's retry
+ */
+export async function getRobotsVerdict(
+  url: string,
+  articleId?: string,
+  proxyUrl?: string
+): Promise<RobotsVerdict> {
+  const policy = await getRobotsPolicy(url, proxyUrl);
+  if (policy === UNREACHABLE) {
+    return 'unreachable';
+  }
+
+  const { pathname, search } = new URL(url);
+  const check = checkPath(policy, `${pathname}${search}`);
+  if (!check.allowed) {
+    const reason = `Blocked by robots.txt (${check.rule})`;
+    logger.warn({ url, articleId, rule: check.rule }, 'URL disallowed by robots.txt');
+    await logBlockedUrl(url, reason, articleId);
+    return 'disallowed';
+  }
+  return 'allowed';
+}
+
+/**
+ * Check if robots.txt lets us open a URL now (unreachable robots.txt refuses it)
+ */
+export async function isAllowedByRobots(
+  url: string,
+  articleId?: string,
+  proxyUrl?: string
+): Promise<boolean> {
+  return (await getRobotsVerdict(url, articleId, proxyUrl)) === 'allowed';
+}
+
+/**
+ * Wait until the host's Crawl-delay has passed since the previous request
+ * Slots are reserved before sleeping so concurrent callers queue behind each other
+ */
+export async function waitForCrawlDelay(url: string, proxyUrl?: string): Promise<void> {
+  const { crawlDelayMs } = await getRobotsPolicy(url, proxyUrl);
+  if (!crawlDelayMs) {
+    return;
+  }
+
+  const host = new URL(url).host;
+  const now = Date.now();
+  const slot = Math.max(now, nextSlotAt.get(host) ?? 0);
+  nextSlotAt.set(host, slot + crawlDelayMs);
+
+  if (slot > now) {
+    logger.debug({ host, waitMs: slot - now }, 'Crawl-delay wait');
+    await sleep(slot - now);
+  }
+}
+
+/**
+ * Clear cached robots.txt policies and crawl slots (useful for testing)
+ */
+export function resetRobotsCache(): void {
+  policies.clear();
+  nextSlotAt.clear();
+}
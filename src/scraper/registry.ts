@@ -0,0 +1,199 @@
+/**
+ * Source Registry
+ *
+ * Holds every article source implementing the Scraper contract
+ * and runs the enabled ones for the pipeline
+ */
+
+import { logger } from '../utils/logger.js';
+import type { Scraper, ScrapeOptions, ScrapeResult, SourceSchedule } from './types.js';
+
+/**
+ * Outcome of a single source run
+ */
+export interface SourceRunResult {
+  name: string;
+  source: string;
+  /** Items listed by the source, known ones included */
+  itemsFound: number;
+  newArticles: number;
+  errors: number;
+  failed: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Aggregated result of running several sources
+ */
+export interface SourcesScrapeResult extends ScrapeResult {
+  sources: SourceRunResult[];
+}
+
+const scrapers = new Map<string, Scraper>();
+
+/**
+ * Register a scraper
+ * Throws if a scraper with the same name is already registered
+ */
+export function registerScraper(scraper: Scraper): void {
+  if (scrapers.has(scraper.name)) {
+    throw new Error(`Scraper already registered: ${scraper.name}`);
+  }
+  scrapers.set(scraper.name, scraper);
+  logger.debug({ name: scraper.name, source: scraper.source }, 'Scraper registered');
+}
+
+/**
+ * Remove a scraper from the registry
+ */
+export function unregisterScraper(name: string): boolean {
+  return scrapers.delete(name);
+}
+
+/**
+ * Get a registered scraper by name
+ */
+export function getScraper(name: string): Scraper | null {
+  return scrapers.get(name) ?? null;
+}
+
+/**
+ * Get all registered scrapers (in registration order)
+ */
+export function getScrapers(): Scraper[] {
+  return Array.from(scrapers.values());
+}
+
+/**
+ * Clear the registry (useful for testing)
+ */
+export function clearScrapers(): void {
+  scrapers.clear();
+}
+
+/**
+ * Get hour and weekday of a date in Europe/Paris time
+ */
+function getParisTime(date: Date): { hour: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'Europe/Paris',
+    hour: 'numeric',
+    hourCycle: 'h23',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const hour = parseInt(parts.find((p) => p.type === 'hour')?.value ?? '0', 10);
+  const weekday = weekdays.indexOf(parts.find((p) => p.type === 'weekday')?.value ?? 'Sun');
+
+  return { hour, weekday };
+}
+
+/**
+ * Check if a schedule allows running at the given date
+ */
+export function isScheduled(
+  schedule: SourceSchedule | undefined,
+  date: Date = new Date()
+): boolean {
+  if (!schedule) {
+    return true;
+  }
+
+  const { hour, weekday } = getParisTime(date);
+
+  if (schedule.hours && !schedule.hours.includes(hour)) {
+    return false;
+  }
+  if (schedule.weekdays && !schedule.weekdays.includes(weekday)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Get primary scrapers that are enabled and scheduled at the given date
+ */
+export function getDueScrapers(date: Date = new Date()): Scraper[] {
+  return getScrapers().filter((s) => s.enabled && !s.fallback && isScheduled(s.schedule, date));
+}
+
+/**
+ * Get enabled fallback scrapers
+ */
+export function getFallbackScrapers(): Scraper[] {
+  return getScrapers().filter((s) => s.enabled && s.fallback);
+}
+
+/**
+ * Run several scrapers one after another and aggregate their results
+ * A failing scraper is recorded and does not stop the others
+ */
+export async function scrapeSources(
+  options: ScrapeOptions & { scrapers?: Scraper[] } = {}
+): Promise<SourcesScrapeResult> {
+  const { scrapers: toRun = getDueScrapers(), ...scrapeOptions } = options;
+
+  const result: SourcesScrapeResult = {
+    articles: [],
+    scrapedAt: new Date(),
+    pagesProcessed: 0,
+    totalFound: 0,
+    newArticles: 0,
+    errors: 0,
+    feedStates: [],
+    sources: [],
+  };
+
+  logger.info({ sources: toRun.map((s) => s.name) }, 'Running sources');
+
+  for (const scraper of toRun) {
+    const startTime = Date.now();
+    try {
+      const sourceResult = await scraper.scrape(scrapeOptions);
+
+      result.articles.push(...sourceResult.articles);
+      result.pagesProcessed += sourceResult.pagesProcessed;
+      result.totalFound += sourceResult.totalFound;
+      result.newArticles += sourceResult.newArticles;
+      result.errors += sourceResult.errors;
+      result.feedStates?.push(...(sourceResult.feedStates ?? []));
+      result.sources.push({
+        name: scraper.name,
+        source: scraper.source,
+        itemsFound: sourceResult.itemsSeen ?? sourceResult.totalFound,
+        newArticles: sourceResult.newArticles,
+        errors: sourceResult.errors,
+        // Sources that catch their own errors report them without processing anything
+        failed: sourceResult.errors > 0 && sourceResult.pagesProcessed === 0,
+        durationMs: Date.now() - startTime,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error({ error, source: scraper.name }, 'Source failed');
+      result.errors++;
+      result.sources.push({
+        name: scraper.name,
+        source: scraper.source,
+        itemsFound: 0,
+        newArticles: 0,
+        errors: 1,
+        failed: true,
+        error: errorMessage,
+        durationMs: Date.now() - startTime,
+      });
+    }
+  }
+
+  logger.info(
+    {
+      sources: result.sources.length,
+      newArticles: result.newArticles,
+      errors: result.errors,
+    },
+    'Sources completed'
+  );
+
+  return result;
+}
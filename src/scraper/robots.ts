@@ -0,0 +1,138 @@
+/**
+ * robots.txt Parser
+ *
+ * Parses robots.txt (RFC 9309) into the rules that apply to one user agent
+ * and matches URL paths against them
+ */
+
+/** RFC 9309: parse at least 500 KiB */
+const MAX_ROBOTS_SIZE = 500 * 1024;
+
+/**
+ * Allow / Disallow line of the group that applies to us
+ */
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+/**
+ * What robots.txt tells our user agent
+ */
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+/**
+ * Outcome of a robots.txt check
+ */
+export interface RobotsCheck {
+  allowed: boolean;
+  /** Matching rule, e.g. "Disallow: /private/" */
+  rule?: string;
+}
+
+/**
+ * Parse robots.txt and keep the groups that apply to a user agent
+ * Groups naming the agent win over "*"; several matching groups are merged
+ */
+export function parseRobotsTxt(body: string, userAgent: string): RobotsPolicy {
+  const agent = userAgent.toLowerCase();
+
+  interface Group {
+    agents: string[];
+    rules: RobotsRule[];
+    crawlDelayMs?: number;
+  }
+  const groups: Group[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.slice(0, MAX_ROBOTS_SIZE).split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share the group that follows
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) {
+      continue;
+    }
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!isNaN(seconds) && seconds > 0) {
+        current.crawlDelayMs = seconds * 1000;
+      }
+    }
+  }
+
+  const named = groups.filter((g) => g.agents.some((a) => a !== '*' && agent.includes(a)));
+  const matching = named.length > 0 ? named : groups.filter((g) => g.agents.includes('*'));
+
+  const delays = matching.map((g) => g.crawlDelayMs).filter((d): d is number => d !== undefined);
+
+  return {
+    rules: matching.flatMap((g) => g.rules),
+    crawlDelayMs: delays.length > 0 ? Math.max(...delays) : undefined,
+  };
+}
+
+/**
+ * Turn a robots.txt path pattern into a regex ("*" any characters, "$" end of URL)
+ */
+function patternToRegex(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Check a path (with its query string) against a policy
+ * The longest matching rule wins, Allow wins a tie
+ */
+export function checkPath(policy: RobotsPolicy, path: string): RobotsCheck {
+  // robots.txt itself is always allowed
+  if (path === '/robots.txt') {
+    return { allowed: true };
+  }
+
+  let best: RobotsRule | null = null;
+
+  for (const rule of policy.rules) {
+    if (!patternToRegex(rule.path).test(path)) {
+      continue;
+    }
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  if (!best || best.allow) {
+    return { allowed: true, rule: best ? `Allow: ${best.path}` : undefined };
+  }
+  return { allowed: false, rule: `Disallow: ${best.path}` };
+}
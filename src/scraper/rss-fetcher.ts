@@ -1,14 +1,25 @@
 /**
  * RSS Feed Fetcher
  *
- * Fetches articles from financial news RSS feeds
+ * Fetches articles from financial news feeds (RSS 2.0, Atom, JSON Feed)
  */
 
-import Parser from 'rss-parser';
+import { parseFeed, type FeedEntry } from './feed-parser.js';
 import { logger } from '../utils/logger.js';
-import { generateArticleId, articleExistsByUrl } from '../db/queries.js';
-import type { Article, ArticleSource } from '../types/index.js';
-import type { ScrapeResult } from './types.js';
+import { canonicalizeUrl } from '../utils/url.js';
+import { fetchWithProxy } from '../utils/proxy.js';
+import { parseFrenchDate } from '../utils/date.js';
+import {
+  generateArticleId,
+  getExistingArticleUrls,
+  getSources,
+  seedSources,
+  getFeedState,
+  saveFeedState,
+  touchFeedState,
+} from '../db/queries.js';
+import type { Article, ArticleSource, FeedState } from '../types/index.js';
+import type { Scraper, ScrapeResult, SourceLimits, SourceSchedule } from './types.js';
 
 /**
  * RSS feed configuration
@@ -17,10 +28,14 @@ export interface RssFeedConfig {
   name: string;
   url: string;
   source: ArticleSource;
+  maxArticles?: number;
+  /** HTTP proxy the feed is requested through */
+  proxyUrl?: string;
 }
 
 /**
  * Default financial news RSS feeds
+ * Only used to seed the sources table, feeds are managed in the database
  */
 export const DEFAULT_FEEDS: RssFeedConfig[] = [
   {
@@ -36,96 +51,190 @@ export const DEFAULT_FEEDS: RssFeedConfig[] = [
 ];
 
 /**
- * Create RSS parser with custom headers
+ * Load enabled RSS feeds from the sources table
+ * Seeds the table with DEFAULT_FEEDS on first use
  */
-function createParser(): Parser {
-  return new Parser({
-    headers: {
-      'User-Agent':
-        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      Accept: 'application/rss+xml, application/xml, text/xml, */*',
-    },
-    timeout: 30000,
-  });
+export async function loadRssFeeds(): Promise<RssFeedConfig[]> {
+  const seeded = await seedSources(DEFAULT_FEEDS.map((feed) => ({ ...feed, type: 'rss' })));
+  if (seeded > 0) {
+    logger.info({ count: seeded }, 'Sources table seeded with default feeds');
+  }
+
+  const sources = await getSources({ type: 'rss', enabledOnly: true });
+  return sources.map((s) => ({
+    name: s.name,
+    url: s.url,
+    source: s.source,
+    maxArticles: s.maxArticles,
+    proxyUrl: s.proxyUrl,
+  }));
 }
 
 /**
- * Parse RSS date to Date object
+ * HTTP headers sent with every feed request
  */
-function parseRssDate(dateStr: string | undefined): Date {
-  if (!dateStr) {
-    return new Date();
-  }
+const FEED_HEADERS: Record<string, string> = {
+  'User-Agent':
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  Accept:
+    'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, application/json, */*',
+};
+
+/**
+ * Feed request timeout
+ */
+const FEED_TIMEOUT_MS = 30000;
+
+/**
+ * Result of fetching a single feed
+ */
+interface FeedFetchResult {
+  articles: Article[];
+  notModified: boolean;
+  /** Entries in the feed document, known ones included */
+  itemsSeen: number;
+  /** Validators to persist once the articles have been accepted */
+  state?: Omit<FeedState, 'lastFetchedAt'>;
+}
 
-  const date = new Date(dateStr);
-  if (!isNaN(date.getTime())) {
-    return date;
+/**
+ * Request a feed document, through the source's proxy if it has one
+ */
+export async function requestFeed(
+  url: string,
+  extraHeaders: Record<string, string> = {},
+  proxyUrl?: string
+): Promise<Response> {
+  return fetchWithProxy(
+    url,
+    {
+      headers: { ...FEED_HEADERS, ...extraHeaders },
+      signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+    },
+    proxyUrl
+  );
+}
+
+/**
+ * Map a parsed feed entry to an article
+ */
+export function feedEntryToArticle(entry: FeedEntry, source: ArticleSource): Article {
+  const publishedAt = parseFrenchDate(entry.date);
+  const url = canonicalizeUrl(entry.url);
+  if (!publishedAt) {
+    logger.warn(
+      { url, date: entry.date, source },
+      'Unparseable feed item date, flagged as unknown'
+    );
   }
 
-  return new Date();
+  return {
+    id: generateArticleId(url),
+    title: entry.title,
+    url,
+    content: entry.content,
+    publishedAt: publishedAt ?? new Date(),
+    publishedAtUnknown: publishedAt ? undefined : true,
+    source,
+    createdAt: new Date(),
+    metadata: {
+      author: entry.author,
+      categories: entry.categories,
+      imageUrl: entry.imageUrl,
+    },
+  };
 }
 
 /**
  * Fetch articles from a single RSS feed
+ * Sends If-None-Match / If-Modified-Since when a previous state is known
  */
 async function fetchFeed(
   feed: RssFeedConfig,
-  parser: Parser
-): Promise<Article[]> {
+  previous: FeedState | null
+): Promise<FeedFetchResult> {
   const articles: Article[] = [];
 
   try {
     logger.info({ feed: feed.name, url: feed.url }, 'Fetching RSS feed');
 
-    const result = await parser.parseURL(feed.url);
+    const headers: Record<string, string> = {};
+    if (previous?.etag) {
+      headers['If-None-Match'] = previous.etag;
+    }
+    if (previous?.lastModified) {
+      headers['If-Modified-Since'] = previous.lastModified;
+    }
+
+    const response = await requestFeed(feed.url, headers, feed.proxyUrl);
+
+    if (response.status === 304) {
+      logger.info({ feed: feed.name }, 'RSS feed not modified');
+      return { articles, notModified: true, itemsSeen: 0 };
+    }
+
+    if (!response.ok) {
+      throw new Error(`Feed request failed with status ${response.status}`);
+    }
+
+    const parsed = await parseFeed(await response.text(), response.headers.get('content-type'));
+    const entries = parsed.entries;
 
     logger.info(
-      { feed: feed.name, itemCount: result.items?.length ?? 0 },
+      { feed: feed.name, format: parsed.format, itemCount: entries.length },
       'RSS feed parsed'
     );
 
-    for (const item of result.items ?? []) {
-      if (!item.link || !item.title) {
-        continue;
-      }
+    const state = {
+      url: feed.url,
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+      lastItemGuid: entries[0]?.guid,
+    };
+
+    // Servers without validators: same newest item means nothing new
+    if (previous?.lastItemGuid && state.lastItemGuid === previous.lastItemGuid) {
+      logger.info({ feed: feed.name }, 'RSS feed unchanged since last fetch');
+      return { articles, notModified: true, itemsSeen: entries.length, state };
+    }
 
+    // Check known URLs in one query instead of one per item
+    const candidates = entries.map((entry) => feedEntryToArticle(entry, feed.source));
+    const existingUrls = await getExistingArticleUrls(candidates.map((a) => a.url));
+
+    for (const article of candidates) {
       // Skip if already exists
-      if (await articleExistsByUrl(item.link)) {
-        logger.debug({ url: item.link }, 'Article already exists, skipping');
+      if (existingUrls.has(article.url)) {
+        logger.debug({ url: article.url }, 'Article already exists, skipping');
         continue;
       }
 
-      const publishedAt = parseRssDate(item.pubDate ?? item.isoDate);
-      const id = generateArticleId(item.title, publishedAt);
-
-      const article: Article = {
-        id,
-        title: item.title,
-        url: item.link,
-        content: item.contentSnippet ?? item.content ?? '',
-        publishedAt,
-        source: feed.source,
-        createdAt: new Date(),
-      };
-
       articles.push(article);
     }
+
+    return { articles, notModified: false, itemsSeen: entries.length, state };
   } catch (error) {
     logger.error({ error, feed: feed.name }, 'Failed to fetch RSS feed');
     throw error;
   }
-
-  return articles;
 }
 
 /**
  * Fetch articles from multiple RSS feeds
+ *
+ * With `conditional` (default) feeds are requested with their stored
+ * ETag/Last-Modified and unchanged feeds are skipped. Pass `conditional: false`
+ * for runs whose articles are not saved, so the stored state stays untouched.
+ * The validators of feeds with new items are returned in `feedStates`: save them
+ * with saveFeedStates after the articles, or those items are skipped next run.
  */
 export async function fetchRssFeeds(options: {
   feeds?: RssFeedConfig[];
   maxArticlesPerFeed?: number;
+  conditional?: boolean;
 } = {}): Promise<ScrapeResult> {
-  const { feeds = DEFAULT_FEEDS, maxArticlesPerFeed = 50 } = options;
+  const { maxArticlesPerFeed = 50, conditional = true } = options;
+  const feeds = options.feeds ?? (await loadRssFeeds());
 
   const startTime = Date.now();
   const result: ScrapeResult = {
@@ -135,23 +244,47 @@ export async function fetchRssFeeds(options: {
     totalFound: 0,
     newArticles: 0,
     errors: 0,
+    itemsSeen: 0,
+    feedStates: [],
   };
 
-  const parser = createParser();
+  let notModified = 0;
+  let itemsSeen = 0;
 
-  logger.info({ feedCount: feeds.length }, 'Starting RSS feed fetch');
+  logger.info({ feedCount: feeds.length, conditional }, 'Starting RSS feed fetch');
 
   for (const feed of feeds) {
     try {
-      const articles = await fetchFeed(feed, parser);
+      const previous = conditional ? await getFeedState(feed.url) : null;
+      const fetched = await fetchFeed(feed, previous);
+      result.pagesProcessed++;
+      itemsSeen += fetched.itemsSeen;
+
+      if (fetched.notModified) {
+        notModified++;
+        if (conditional) {
+          await (fetched.state ? saveFeedState(fetched.state) : touchFeedState(feed.url));
+        }
+        continue;
+      }
+
+      const { articles } = fetched;
 
       // Apply limit per feed
-      const limitedArticles = articles.slice(0, maxArticlesPerFeed);
+      const limit = Math.min(feed.maxArticles ?? maxArticlesPerFeed, maxArticlesPerFeed);
+      const limitedArticles = articles.slice(0, limit);
 
       result.totalFound += articles.length;
       result.newArticles += limitedArticles.length;
       result.articles.push(...limitedArticles);
-      result.pagesProcessed++;
+
+      // Only remember the feed version once every new item fits in the cap,
+      // otherwise the remaining items would be skipped as "not modified" next run
+      if (conditional && fetched.state) {
+        result.feedStates?.push(
+          limitedArticles.length < articles.length ? { url: feed.url } : fetched.state
+        );
+      }
 
       logger.info(
         { feed: feed.name, found: articles.length, added: limitedArticles.length },
@@ -163,10 +296,12 @@ export async function fetchRssFeeds(options: {
     }
   }
 
+  result.itemsSeen = itemsSeen;
   const durationMs = Date.now() - startTime;
   logger.info(
     {
       feedsProcessed: result.pagesProcessed,
+      notModified,
       totalFound: result.totalFound,
       newArticles: result.newArticles,
       errors: result.errors,
@@ -178,7 +313,43 @@ export async function fetchRssFeeds(options: {
   return result;
 }
 
+/**
+ * Create a registry scraper for a single RSS feed
+ */
+export function createRssScraper(
+  feed: RssFeedConfig,
+  options: { enabled?: boolean; limits?: SourceLimits; schedule?: SourceSchedule } = {}
+): Scraper {
+  const limits = options.limits ?? { maxArticles: feed.maxArticles ?? 50 };
+
+  return {
+    name: feed.name,
+    source: feed.source,
+    enabled: options.enabled ?? true,
+    schedule: options.schedule,
+    limits,
+    scrape: (scrapeOptions = {}) =>
+      fetchRssFeeds({
+        feeds: [feed],
+        maxArticlesPerFeed: Math.min(
+          limits.maxArticles,
+          scrapeOptions.maxArticles ?? limits.maxArticles
+        ),
+        conditional: !scrapeOptions.dryRun,
+      }),
+  };
+}
+
 /**
  * Save fetched articles to database
  */
 export { saveScrapedArticles } from './zonebourse.js';
+
+/**
+ * Persist the feed validators of a scrape result, once its articles are saved
+ */
+export async function saveFeedStates(result: Pick<ScrapeResult, 'feedStates'>): Promise<void> {
+  for (const state of result.feedStates ?? []) {
+    await saveFeedState(state);
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Sitemap Fetcher
+ *
+ * Discovers articles from news sitemaps (sitemap indexes are followed to
+ * their most recent children). Only entries with a news:title become
+ * articles, their content is filled in by the content extraction step.
+ */
+
+import { gunzipSync } from 'zlib';
+import { parseSitemap, selectSitemaps, type SitemapEntry } from './sitemap-parser.js';
+import { requestFeed } from './rss-fetcher.js';
+import { logger } from '../utils/logger.js';
+import { canonicalizeUrl } from '../utils/url.js';
+import { parseFrenchDate } from '../utils/date.js';
+import { generateArticleId, getExistingArticleUrls, getSources } from '../db/queries.js';
+import type { Article, ArticleSource } from '../types/index.js';
+import type { Scraper, ScrapeResult, SourceLimits, SourceSchedule } from './types.js';
+
+/**
+ * Sitemap source configuration
+ */
+export interface SitemapSourceConfig {
+  name: string;
+  url: string;
+  source: ArticleSource;
+  maxArticles?: number;
+  /** HTTP proxy the sitemaps are requested through */
+  proxyUrl?: string;
+}
+
+/**
+ * Child sitemaps read per index, and how deep nested indexes are followed
+ */
+const MAX_CHILD_SITEMAPS = 3;
+const MAX_INDEX_DEPTH = 2;
+
+/**
+ * Load enabled sitemap sources from the sources table
+ */
+export async function loadSitemapSources(): Promise<SitemapSourceConfig[]> {
+  const sources = await getSources({ type: 'sitemap', enabledOnly: true });
+  return sources.map((s) => ({
+    name: s.name,
+    url: s.url,
+    source: s.source,
+    maxArticles: s.maxArticles,
+    proxyUrl: s.proxyUrl,
+  }));
+}
+
+/**
+ * Download a sitemap document, gunzipping .xml.gz files
+ */
+async function requestSitemap(url: string, proxyUrl?: string): Promise<string> {
+  const response = await requestFeed(url, {}, proxyUrl);
+  if (!response.ok) {
+    throw new Error(`Sitemap request failed with status ${response.status}`);
+  }
+
+  const body = Buffer.from(await response.arrayBuffer());
+  // Gzip magic bytes: served as a file, not as a Content-Encoding
+  const isGzip = body[0] === 0x1f && body[1] === 0x8b;
+  return (isGzip ? gunzipSync(body) : body).toString('utf8');
+}
+
+/**
+ * Map a news sitemap entry to an article
+ * Returns null for entries without a title (regular sitemap URLs)
+ */
+export function sitemapEntryToArticle(entry: SitemapEntry, source: ArticleSource): Article | null {
+  if (!entry.title) {
+    return null;
+  }
+
+  const date = entry.date ?? entry.lastModified;
+  const publishedAt = parseFrenchDate(date);
+  const url = canonicalizeUrl(entry.url);
+  if (!publishedAt) {
+    logger.warn({ url, date, source }, 'Unparseable sitemap entry date, flagged as unknown');
+  }
+
+  return {
+    id: generateArticleId(url),
+    title: entry.title,
+    url,
+    content: '',
+    publishedAt: publishedAt ?? new Date(),
+    publishedAtUnknown: publishedAt ? undefined : true,
+    source,
+    createdAt: new Date(),
+    metadata: {
+      keywords: entry.keywords,
+      imageUrl: entry.imageUrl,
+    },
+  };
+}
+
+/**
+ * Read a sitemap and the most recent children of an index
+ * Returns the entries and the number of documents fetched
+ */
+async function collectEntries(
+  url: string,
+  proxyUrl?: string,
+  depth = 0
+): Promise<{ entries: SitemapEntry[]; documents: number; errors: number }> {
+  const parsed = parseSitemap(await requestSitemap(url, proxyUrl));
+  if (parsed.kind === 'urlset') {
+    return { entries: parsed.entries, documents: 1, errors: 0 };
+  }
+
+  const result = { entries: [] as SitemapEntry[], documents: 1, errors: 0 };
+  if (depth >= MAX_INDEX_DEPTH) {
+    logger.warn({ url, depth }, 'Sitemap index nested too deep, skipping its children');
+    return result;
+  }
+
+  for (const child of selectSitemaps(parsed.sitemaps, MAX_CHILD_SITEMAPS)) {
+    try {
+      const collected = await collectEntries(child.url, proxyUrl, depth + 1);
+      result.entries.push(...collected.entries);
+      result.documents += collected.documents;
+      result.errors += collected.errors;
+    } catch (error) {
+      logger.warn({ error, url: child.url }, 'Failed to fetch child sitemap');
+      result.errors++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Fetch articles from multiple sitemap sources
+ * Known URLs are skipped, new articles are returned newest first
+ */
+export async function fetchSitemaps(
+  options: {
+    sources?: SitemapSourceConfig[];
+    maxArticlesPerSource?: number;
+  } = {}
+): Promise<ScrapeResult> {
+  const { maxArticlesPerSource = 50 } = options;
+  const sources = options.sources ?? (await loadSitemapSources());
+
+  const startTime = Date.now();
+  const result: ScrapeResult = {
+    articles: [],
+    scrapedAt: new Date(),
+    pagesProcessed: 0,
+    totalFound: 0,
+    newArticles: 0,
+    errors: 0,
+  };
+  let itemsSeen = 0;
+
+  logger.info({ sourceCount: sources.length }, 'Starting sitemap fetch');
+
+  for (const sitemap of sources) {
+    try {
+      logger.info({ sitemap: sitemap.name, url: sitemap.url }, 'Fetching sitemap');
+      const collected = await collectEntries(sitemap.url, sitemap.proxyUrl);
+      result.pagesProcessed += collected.documents;
+      result.errors += collected.errors;
+      itemsSeen += collected.entries.length;
+
+      // Indexes can list the same article in several children
+      const candidates = new Map<string, Article>();
+      for (const entry of collected.entries) {
+        const article = sitemapEntryToArticle(entry, sitemap.source);
+        if (article && !candidates.has(article.url)) {
+          candidates.set(article.url, article);
+        }
+      }
+
+      const existingUrls = await getExistingArticleUrls([...candidates.keys()]);
+      const articles = [...candidates.values()]
+        .filter((article) => !existingUrls.has(article.url))
+        .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+
+      const limit = Math.min(sitemap.maxArticles ?? maxArticlesPerSource, maxArticlesPerSource);
+      const limitedArticles = articles.slice(0, limit);
+
+      result.totalFound += articles.length;
+      result.newArticles += limitedArticles.length;
+      result.articles.push(...limitedArticles);
+
+      logger.info(
+        {
+          sitemap: sitemap.name,
+          documents: collected.documents,
+          entries: collected.entries.length,
+          news: candidates.size,
+          found: articles.length,
+          added: limitedArticles.length,
+        },
+        'Sitemap processed'
+      );
+    } catch (error) {
+      logger.error({ error, sitemap: sitemap.name }, 'Error processing sitemap');
+      result.errors++;
+    }
+  }
+
+  result.itemsSeen = itemsSeen;
+  logger.info(
+    {
+      documentsProcessed: result.pagesProcessed,
+      totalFound: result.totalFound,
+      newArticles: result.newArticles,
+      errors: result.errors,
+      durationMs: Date.now() - startTime,
+    },
+    'Sitemap fetch completed'
+  );
+
+  return result;
+}
+
+/**
+ * Create a registry scraper for a single sitemap source
+ */
+export function createSitemapScraper(
+  sitemap: SitemapSourceConfig,
+  options: { enabled?: boolean; limits?: SourceLimits; schedule?: SourceSchedule } = {}
+): Scraper {
+  const limits = options.limits ?? { maxArticles: sitemap.maxArticles ?? 50 };
+
+  return {
+    name: sitemap.name,
+    source: sitemap.source,
+    enabled: options.enabled ?? true,
+    schedule: options.schedule,
+    limits,
+    scrape: (scrapeOptions = {}) =>
+      fetchSitemaps({
+        sources: [sitemap],
+        maxArticlesPerSource: Math.min(
+          limits.maxArticles,
+          scrapeOptions.maxArticles ?? limits.maxArticles
+        ),
+      }),
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Sitemap Parser
+ *
+ * Parses sitemap indexes and URL sets, with the Google News extension
+ * (news:news) and image extension (image:image), into normalised entries
+ */
+
+import { DOMParser } from 'linkedom';
+
+/**
+ * Root element of a sitemap document
+ */
+export type SitemapKind = 'index' | 'urlset';
+
+/**
+ * Child sitemap listed by a sitemap index
+ */
+export interface SitemapRef {
+  url: string;
+  /** Raw lastmod string, if any */
+  lastModified?: string;
+}
+
+/**
+ * URL entry of a sitemap
+ */
+export interface SitemapEntry {
+  url: string;
+  /** news:title, regular sitemap entries have none */
+  title?: string;
+  /** Raw news:publication_date string, if any */
+  date?: string;
+  /** Raw lastmod string, if any */
+  lastModified?: string;
+  keywords?: string[];
+  publicationName?: string;
+  language?: string;
+  imageUrl?: string;
+}
+
+/**
+ * Parsed sitemap document
+ */
+export interface ParsedSitemap {
+  kind: SitemapKind;
+  /** Child sitemaps (index only) */
+  sitemaps: SitemapRef[];
+  /** URL entries (urlset only) */
+  entries: SitemapEntry[];
+}
+
+/**
+ * Minimal element interface, enough to walk the document
+ */
+interface XmlElement {
+  tagName: string;
+  textContent: string | null;
+  children: ArrayLike<XmlElement>;
+}
+
+/**
+ * Element name without its namespace prefix ("news:title" → "title")
+ * Prefixes are chosen by the document, only the local name is stable
+ */
+function localName(element: XmlElement): string {
+  return element.tagName.slice(element.tagName.indexOf(':') + 1).toLowerCase();
+}
+
+/**
+ * Direct children with a local name
+ */
+function childElements(element: XmlElement, name: string): XmlElement[] {
+  return Array.from(element.children).filter((child) => localName(child) === name);
+}
+
+/**
+ * Trimmed text of the first child with a local name
+ */
+function childText(element: XmlElement, name: string): string | undefined {
+  const text = childElements(element, name)[0]?.textContent?.trim();
+  return text ? text : undefined;
+}
+
+/**
+ * Split news:keywords ("STMicro, semi-conducteurs, CAC 40")
+ */
+function splitKeywords(text: string | undefined): string[] | undefined {
+  const keywords = (text ?? '')
+    .split(',')
+    .map((k) => k.trim())
+    .filter(Boolean);
+  return keywords.length > 0 ? keywords : undefined;
+}
+
+/**
+ * Map a <url> element to an entry
+ */
+function readEntry(element: XmlElement): SitemapEntry | null {
+  const url = childText(element, 'loc');
+  if (!url) {
+    return null;
+  }
+
+  const entry: SitemapEntry = { url, lastModified: childText(element, 'lastmod') };
+
+  const news = childElements(element, 'news')[0];
+  if (news) {
+    const publication = childElements(news, 'publication')[0];
+    entry.title = childText(news, 'title');
+    entry.date = childText(news, 'publication_date');
+    entry.keywords = splitKeywords(childText(news, 'keywords'));
+    entry.publicationName = publication && childText(publication, 'name');
+    entry.language = publication && childText(publication, 'language');
+  }
+
+  const image = childElements(element, 'image')[0];
+  if (image) {
+    entry.imageUrl = childText(image, 'loc');
+  }
+
+  return entry;
+}
+
+/**
+ * Parse a sitemap index or URL set
+ * Throws when the document is not a sitemap
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const document = new DOMParser().parseFromString(xml.trim(), 'text/xml');
+  const root = document.documentElement as XmlElement | null;
+  const kind = root ? localName(root) : undefined;
+
+  if (root && kind === 'sitemapindex') {
+    const sitemaps = childElements(root, 'sitemap').flatMap((element) => {
+      const url = childText(element, 'loc');
+      return url ? [{ url, lastModified: childText(element, 'lastmod') }] : [];
+    });
+    return { kind: 'index', sitemaps, entries: [] };
+  }
+
+  if (root && kind === 'urlset') {
+    const entries = childElements(root, 'url').flatMap((element) => readEntry(element) ?? []);
+    return { kind: 'urlset', sitemaps: [], entries };
+  }
+
+  throw new Error(`Not a sitemap document (root element: ${kind ?? 'none'})`);
+}
+
+/**
+ * Pick the child sitemaps worth reading: most recently modified first,
+ * then those without lastmod in document order
+ */
+export function selectSitemaps(sitemaps: SitemapRef[], max: number): SitemapRef[] {
+  const time = (ref: SitemapRef): number => {
+    const parsed = ref.lastModified ? Date.parse(ref.lastModified) : NaN;
+    return isNaN(parsed) ? -Infinity : parsed;
+  };
+
+  return sitemaps
+    .map((ref, index) => ({ ref, index, time: time(ref) }))
+    .sort((a, b) => b.time - a.time || a.index - b.index)
+    .slice(0, max)
+    .map(({ ref }) => ref);
+}
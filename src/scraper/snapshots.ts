@@ -0,0 +1,113 @@
+/**
+ * Page Snapshots
+ *
+ * Archives the HTML fetched by every extraction attempt (gzipped, with its
+ * hash and fetch metadata) and screenshots pages whose browser extraction
+ * failed, so extraction can be replayed offline later.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, unlink } from 'fs/promises';
+import { join } from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { savePageSnapshot, deletePageSnapshotsBefore } from '../db/queries.js';
+import type { Page } from './browser.js';
+import type { PageSnapshot } from '../types/index.js';
+
+/**
+ * Snapshot of an extraction attempt, before compression
+ */
+export type SnapshotInput = Omit<PageSnapshot, 'id' | 'fetchedAt' | 'contentHash' | 'htmlSize'> & {
+  html: string;
+};
+
+/**
+ * Gzip a page's HTML for storage
+ */
+export function compressHtml(html: string): Buffer {
+  return gzipSync(Buffer.from(html, 'utf8'));
+}
+
+/**
+ * Read back stored HTML
+ */
+export function decompressHtml(data: Buffer): string {
+  return gunzipSync(data).toString('utf8');
+}
+
+/**
+ * SHA-256 of a page's HTML, tells whether a page changed between attempts
+ */
+export function hashHtml(html: string): string {
+  return createHash('sha256').update(html, 'utf8').digest('hex');
+}
+
+/**
+ * Store the page fetched by an extraction attempt
+ * Never throws: a snapshot failure must not fail the extraction
+ */
+export async function recordSnapshot(input: SnapshotInput): Promise<void> {
+  if (!config.scraper.snapshots.enabled) {
+    return;
+  }
+
+  const { html, ...snapshot } = input;
+  try {
+    const id = await savePageSnapshot(
+      { ...snapshot, contentHash: hashHtml(html), htmlSize: Buffer.byteLength(html, 'utf8') },
+      compressHtml(html)
+    );
+    logger.debug(
+      { id, articleId: snapshot.articleId, succeeded: snapshot.succeeded },
+      'Page snapshot saved'
+    );
+  } catch (error) {
+    logger.warn({ error, articleId: snapshot.articleId }, 'Failed to save page snapshot');
+  }
+}
+
+/**
+ * Screenshot the full page into the snapshot directory
+ * Returns the file path, or undefined if snapshots are disabled or the capture failed
+ */
+export async function captureScreenshot(
+  page: Page,
+  articleId: string
+): Promise<string | undefined> {
+  const { enabled, screenshotDir } = config.scraper.snapshots;
+  if (!enabled) {
+    return undefined;
+  }
+
+  const path = join(screenshotDir, `${articleId}-${Date.now()}.png`);
+  try {
+    await mkdir(screenshotDir, { recursive: true });
+    await page.screenshot({ path, fullPage: true, timeout: 10000 });
+    logger.debug({ articleId, path }, 'Failure screenshot saved');
+    return path;
+  } catch (error) {
+    logger.warn({ error, articleId }, 'Failed to capture screenshot');
+    return undefined;
+  }
+}
+
+/**
+ * Delete snapshots older than the retention period, and their screenshots
+ */
+export async function pruneSnapshots(
+  retentionDays: number = config.scraper.snapshots.retentionDays
+): Promise<number> {
+  const before = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const { deleted, screenshots } = await deletePageSnapshotsBefore(before);
+
+  for (const path of screenshots) {
+    await unlink(path).catch((error: unknown) => {
+      logger.debug({ error, path }, 'Screenshot already removed');
+    });
+  }
+
+  logger.info({ deleted, screenshots: screenshots.length, before }, 'Page snapshots pruned');
+  return deleted;
+}
@@ -0,0 +1,66 @@
+/**
+ * Built-in Sources
+ *
+ * Registers the article sources in the registry.
+ * RSS feeds and news sitemaps come from the sources table, other outlets are added here
+ * (or registered from their own module), the pipeline only talks to the registry.
+ */
+
+import { loadRssFeeds, createRssScraper } from './rss-fetcher.js';
+import { loadSitemapSources, createSitemapScraper } from './sitemap-fetcher.js';
+import { createZoneBourseScraper } from './zonebourse.js';
+import { createNewsletterScraper, getNewsletterConfig } from './newsletter-fetcher.js';
+import { config } from '../config/index.js';
+import { getScraper, registerScraper, unregisterScraper } from './registry.js';
+import type { Scraper } from './types.js';
+
+/**
+ * Names of the scrapers registered from the sources table
+ */
+const catalogueScrapers = new Set<string>();
+
+/**
+ * Build the scrapers that are not managed in the sources table
+ */
+export function createBuiltinScrapers(): Scraper[] {
+  // Playwright scraping is slow and fragile, kept as a fallback only
+  const scrapers = config.scraper.fallback.zoneBourseSections.map((section) =>
+    createZoneBourseScraper(section, {
+      fallback: true,
+      limits: { maxArticles: 50, maxPages: 2 },
+    })
+  );
+
+  const newsletter = getNewsletterConfig();
+  if (newsletter) {
+    scrapers.push(createNewsletterScraper(newsletter));
+  }
+  return scrapers;
+}
+
+/**
+ * Register built-in scrapers and (re)load feeds and sitemaps from the sources table
+ * Safe to call before every run: catalogue changes replace previous registrations
+ */
+export async function registerSources(): Promise<void> {
+  for (const scraper of createBuiltinScrapers()) {
+    if (!getScraper(scraper.name)) {
+      registerScraper(scraper);
+    }
+  }
+
+  for (const name of catalogueScrapers) {
+    unregisterScraper(name);
+  }
+  catalogueScrapers.clear();
+
+  for (const feed of await loadRssFeeds()) {
+    registerScraper(createRssScraper(feed));
+    catalogueScrapers.add(feed.name);
+  }
+
+  for (const sitemap of await loadSitemapSources()) {
+    registerScraper(createSitemapScraper(sitemap));
+    catalogueScrapers.add(sitemap.name);
+  }
+}
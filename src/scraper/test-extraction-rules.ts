@@ -0,0 +1,129 @@
+/**
+ * Extraction Rules Test Script
+ *
+ * Runs the per-domain extraction rules against the saved article pages
+ * in ./fixtures/html and checks the metadata read from their meta tags
+ * (offline, no database)
+ *
+ * Run with: npx tsx src/scraper/test-extraction-rules.ts
+ */
+
+import assert from 'assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+  extractMainContent,
+  extractPageMetadata,
+  getExtractionRule,
+  countWords,
+} from './html-extractor.js';
+import { logger } from '../utils/logger.js';
+import type { ArticleMetadata } from '../types/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+interface FixtureCase {
+  file: string;
+  url: string;
+  /** Paragraphs expected in order, and nothing else */
+  paragraphs: string[];
+  /** Boilerplate the rule must remove */
+  excluded: string[];
+  /** Metadata declared by the page meta tags */
+  metadata: ArticleMetadata;
+}
+
+const FIXTURES: FixtureCase[] = [
+  {
+    file: 'abcbourse-article.html',
+    url: 'https://www.abcbourse.com/marches/nvidia-des-resultats-trimestriels_650123',
+    paragraphs: [
+      "(CercleFinance.com) - Le fabricant de puces NVIDIA a publié mercredi soir un chiffre d'affaires trimestriel record de 35,1 milliards de dollars, en hausse de 94% sur un an.",
+      "La division centres de données, portée par la demande en processeurs graphiques pour l'intelligence artificielle, représente désormais près de 88% des ventes du groupe.",
+      "Pour le trimestre en cours, la direction anticipe des revenus d'environ 37,5 milliards de dollars, au-dessus du consensus qui tablait sur 37,1 milliards.",
+      'Le titre cédait toutefois 2% dans les échanges après-Bourse, les investisseurs ayant intégré une partie de ces bonnes nouvelles.',
+    ],
+    excluded: ['Lire aussi', 'Les analystes relèvent', 'conseil en investissement', 'Copyright'],
+    metadata: {
+      author: 'CercleFinance',
+      imageUrl: 'https://www.abcbourse.com/img/news/nvidia.jpg',
+      keywords: ['NVIDIA', 'semi-conducteurs', 'résultats'],
+    },
+  },
+  {
+    file: 'zonebourse-article.html',
+    url: 'https://www.zonebourse.com/cours/action/ASML-HOLDING-12002973/actualite/ASML-releve-ses-previsions-45678901/',
+    paragraphs: [
+      "ASML a relevé mercredi ses prévisions de chiffre d'affaires pour l'exercice 2026, porté par la demande en machines de lithographie EUV destinées aux puces d'intelligence artificielle.",
+      "Le groupe néerlandais table désormais sur des ventes comprises entre 33 et 35 milliards d'euros.",
+      // Kept thanks to the lower minimum paragraph length
+      'Carnet de commandes record.',
+      "Les prises de commandes du quatrième trimestre ont atteint 7,1 milliards d'euros, dont 3,2 milliards pour les systèmes EUV, selon le communiqué.",
+      "L'action progressait de 4,2% à Amsterdam en début de séance, signant la plus forte hausse de l'indice AEX.",
+    ],
+    excluded: ['Lire aussi', 'lire aussi', 'réservé aux abonnés', 'Rédigé par', 'Copyright'],
+    metadata: {
+      // The article:author profile URL is skipped
+      author: 'Claire Dubois',
+      // Relative og:image resolved against the page
+      imageUrl: 'https://www.zonebourse.com/images/news/asml-previsions.jpg',
+      section: 'Valeurs',
+      keywords: ['ASML', 'Semi-conducteurs'],
+    },
+  },
+];
+
+function testExtractionRules(): void {
+  logger.info('Starting extraction rules test');
+
+  let failures = 0;
+
+  for (const fixture of FIXTURES) {
+    const html = readFileSync(join(__dirname, 'fixtures', 'html', fixture.file), 'utf-8');
+
+    try {
+      const rule = getExtractionRule(fixture.url);
+      assert.ok(rule.contentSelector, `No extraction rule for ${fixture.url}`);
+
+      const content = extractMainContent(html, rule);
+      assert.deepEqual(content.split('\n\n'), fixture.paragraphs);
+      for (const text of fixture.excluded) {
+        assert.ok(!content.includes(text), `Boilerplate leaked: ${text}`);
+      }
+      assert.ok(content.length > (rule.minContentLength ?? 100), 'Content below threshold');
+
+      // Unset fields are left out, as when stored
+      const metadata = JSON.parse(
+        JSON.stringify(extractPageMetadata(html, fixture.url))
+      ) as unknown;
+      assert.deepEqual(metadata, fixture.metadata);
+      assert.equal(countWords(content), fixture.paragraphs.join(' ').split(' ').length);
+
+      // Without the rule, boilerplate leaks into the content
+      const generic = extractMainContent(html);
+      assert.ok(
+        fixture.excluded.some((text) => generic.includes(text)),
+        'Generic extraction already clean, fixture does not exercise the rule'
+      );
+
+      logger.info({ file: fixture.file, contentLength: content.length }, '✓ Fixture extracted');
+    } catch (error) {
+      failures++;
+      logger.error({ error, file: fixture.file }, '✗ Fixture failed');
+    }
+  }
+
+  if (failures > 0) {
+    throw new Error(`${failures} fixture(s) failed`);
+  }
+
+  logger.info('=== Extraction Rules Test Complete ===');
+}
+
+try {
+  testExtractionRules();
+} catch (error) {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+}
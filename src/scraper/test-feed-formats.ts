@@ -0,0 +1,172 @@
+/**
+ * Feed Formats Test Script
+ *
+ * Parses the recorded fixtures in ./fixtures/feeds (offline, no database)
+ *
+ * Run with: npx tsx src/scraper/test-feed-formats.ts
+ */
+
+import assert from 'assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseFeed, type FeedEntry, type FeedFormat } from './feed-parser.js';
+import { logger } from '../utils/logger.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+interface FixtureCase {
+  file: string;
+  contentType: string;
+  format: FeedFormat;
+  entries: Array<
+    Pick<FeedEntry, 'guid' | 'url' | 'title'> &
+      Partial<Pick<FeedEntry, 'date' | 'content' | 'author' | 'categories' | 'imageUrl'>>
+  >;
+}
+
+const FIXTURES: FixtureCase[] = [
+  {
+    file: 'rss2.xml',
+    contentType: 'application/rss+xml',
+    format: 'rss',
+    entries: [
+      {
+        guid: 'abc-650123',
+        url: 'https://www.abcbourse.com/marches/nvidia-des-resultats-trimestriels_650123',
+        title: 'NVIDIA : des résultats trimestriels au-dessus des attentes',
+        date: 'Wed, 07 Jan 2026 14:30:00 +0100',
+        content: "Le fabricant de puces NVIDIA a publié un chiffre d'affaires record.",
+        author: 'Jean Martin',
+        // Category with a domain attribute keeps its text
+        categories: ['Marchés', 'Semi-conducteurs'],
+        imageUrl: 'https://www.abcbourse.com/img/nvidia.jpg',
+      },
+      {
+        guid: 'abc-650122',
+        url: 'https://www.abcbourse.com/marches/le-cac-40-termine-en-legere-hausse_650122',
+        title: 'Le CAC 40 termine en légère hausse',
+      },
+    ],
+  },
+  {
+    file: 'atom.xml',
+    contentType: 'application/atom+xml',
+    format: 'atom',
+    entries: [
+      {
+        // rel="alternate" wins over the first <link>
+        guid: 'tag:techmarkets.example.com,2026:asml-previsions',
+        url: 'https://techmarkets.example.com/asml-previsions',
+        title: 'ASML relève ses prévisions annuelles',
+        date: '2026-01-07T13:45:00.000Z',
+        content: 'Le groupe néerlandais ASML profite de la demande en IA.',
+        author: 'Claire Dubois',
+        categories: ['Semi-conducteurs', 'Europe'],
+      },
+      {
+        // <published> wins over <updated>
+        guid: 'tag:techmarkets.example.com,2026:msft-datacenter',
+        url: 'https://techmarkets.example.com/msft-datacenter',
+        title: 'Microsoft investit dans un nouveau data center',
+        date: '2026-01-06T09:00:00.000Z',
+        content: 'Un investissement de 3 milliards de dollars.',
+      },
+    ],
+  },
+  {
+    file: 'jsonfeed.json',
+    contentType: 'application/feed+json',
+    format: 'json',
+    entries: [
+      {
+        guid: '2026-01-07-adyen',
+        url: 'https://fintech.example.com/2026/01/07/adyen-volumes',
+        title: 'Adyen : les volumes traités progressent de 20%',
+        date: '2026-01-07T08:15:00+01:00',
+        content: 'La fintech néerlandaise Adyen confirme ses objectifs.',
+        author: 'Sophie Laurent',
+        categories: ['Paiements', 'Fintech'],
+        imageUrl: 'https://fintech.example.com/img/adyen.png',
+      },
+      {
+        // Link taken from the id, date from date_modified
+        guid: 'https://fintech.example.com/2026/01/06/revolut-licence',
+        url: 'https://fintech.example.com/2026/01/06/revolut-licence',
+        title: 'Revolut obtient une licence bancaire',
+        date: '2026-01-06T18:00:00+01:00',
+        content: 'La néobanque peut désormais accorder des crédits.',
+      },
+    ],
+  },
+  {
+    file: 'podcast.xml',
+    contentType: 'application/rss+xml',
+    format: 'rss',
+    entries: [
+      {
+        // No <link>: permalink guid
+        guid: 'https://podcast.example.com/episodes/42',
+        url: 'https://podcast.example.com/episodes/42',
+        title: 'Episode 42 : la semaine des semi-conducteurs',
+      },
+      {
+        // No <link>, opaque guid: enclosure
+        guid: 'podcast-41',
+        url: 'https://cdn.podcast.example.com/41.mp3',
+        title: 'Episode 41 : bilan 2025',
+      },
+    ],
+  },
+];
+
+async function testFeedFormats(): Promise<void> {
+  logger.info('Starting feed formats test');
+
+  let failures = 0;
+
+  for (const fixture of FIXTURES) {
+    const body = readFileSync(join(__dirname, 'fixtures', 'feeds', fixture.file), 'utf-8');
+
+    try {
+      const parsed = await parseFeed(body, fixture.contentType);
+
+      assert.equal(parsed.format, fixture.format);
+      // Format must also be detected without a Content-Type header
+      assert.equal((await parseFeed(body)).format, fixture.format);
+      assert.equal(parsed.entries.length, fixture.entries.length);
+
+      fixture.entries.forEach((expected, i) => {
+        const entry = parsed.entries[i]!;
+        assert.equal(entry.guid, expected.guid);
+        assert.equal(entry.url, expected.url);
+        assert.equal(entry.title, expected.title);
+        if (expected.date !== undefined) {
+          assert.equal(entry.date, expected.date);
+        }
+        if (expected.content !== undefined) {
+          assert.equal(entry.content, expected.content);
+        }
+        assert.equal(entry.author, expected.author);
+        assert.deepEqual(entry.categories, expected.categories);
+        assert.equal(entry.imageUrl, expected.imageUrl);
+      });
+
+      logger.info({ file: fixture.file, entries: parsed.entries.length }, '✓ Fixture parsed');
+    } catch (error) {
+      failures++;
+      logger.error({ error, file: fixture.file }, '✗ Fixture failed');
+    }
+  }
+
+  if (failures > 0) {
+    throw new Error(`${failures} fixture(s) failed`);
+  }
+
+  logger.info('=== Feed Formats Test Complete ===');
+}
+
+testFeedFormats().catch((error) => {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * Source Health Test Script
+ *
+ * Checks the stale and failing assessments against thresholds
+ * (offline, no database)
+ *
+ * Run with: npx tsx src/scraper/test-health.ts
+ */
+
+import assert from 'assert/strict';
+import { assessSourceHealth } from './health.js';
+import { logger } from '../utils/logger.js';
+import type { SourceHealth } from '../types/index.js';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+const DEFAULTS = { staleAfterHours: 48, failingAfterHours: 12 };
+
+function hoursAgo(hours: number): Date {
+  return new Date(NOW.getTime() - hours * 60 * 60 * 1000);
+}
+
+function health(overrides: Partial<SourceHealth>): SourceHealth {
+  return {
+    name: 'ABC Bourse - Actualités',
+    source: 'abcbourse',
+    firstRunAt: hoursAgo(24 * 30),
+    lastRunAt: hoursAgo(1),
+    lastSuccessAt: hoursAgo(1),
+    lastNewItemAt: hoursAgo(3),
+    lastFailed: false,
+    recentRuns: 20,
+    errorRate: 0,
+    avgItemsPerRun: 30,
+    avgNewArticlesPerRun: 2.5,
+    extractionAttempts: 40,
+    extractionSuccessRate: 0.95,
+    ...overrides,
+  };
+}
+
+function testSourceHealth(): void {
+  logger.info('Starting source health test');
+
+  // Healthy source
+  assert.deepEqual(assessSourceHealth(health({}), DEFAULTS, NOW), { status: 'ok', alerts: [] });
+
+  // Quiet but within the threshold, then past it
+  assert.equal(
+    assessSourceHealth(health({ lastNewItemAt: hoursAgo(47) }), DEFAULTS, NOW).status,
+    'ok'
+  );
+  const stale = assessSourceHealth(health({ lastNewItemAt: hoursAgo(50) }), DEFAULTS, NOW);
+  assert.equal(stale.status, 'stale');
+  assert.deepEqual(stale.alerts, [
+    {
+      name: 'ABC Bourse - Actualités',
+      source: 'abcbourse',
+      kind: 'stale',
+      since: hoursAgo(50),
+      thresholdHours: 48,
+      message: 'ABC Bourse - Actualités has had no new article for 50h (threshold 48h)',
+    },
+  ]);
+
+  // Source's own threshold overrides the default
+  assert.equal(
+    assessSourceHealth(health({ lastNewItemAt: hoursAgo(50), staleAfterHours: 72 }), DEFAULTS, NOW)
+      .status,
+    'ok'
+  );
+
+  // A failed run is not an alert until the last success is older than the threshold
+  assert.equal(
+    assessSourceHealth(health({ lastFailed: true, lastSuccessAt: hoursAgo(6) }), DEFAULTS, NOW)
+      .status,
+    'ok'
+  );
+  const failing = assessSourceHealth(
+    health({
+      lastFailed: true,
+      lastError: 'HTTP 503',
+      lastSuccessAt: hoursAgo(60),
+      lastNewItemAt: hoursAgo(60),
+    }),
+    DEFAULTS,
+    NOW
+  );
+  assert.equal(failing.status, 'failing');
+  assert.deepEqual(
+    failing.alerts.map((a) => a.kind),
+    ['failing', 'stale']
+  );
+  assert.equal(
+    failing.alerts[0]?.message,
+    'ABC Bourse - Actualités failing for 60h (threshold 12h): HTTP 503'
+  );
+
+  // Recovered: last run succeeded, even long after the previous success
+  assert.equal(
+    assessSourceHealth(health({ lastFailed: false, lastSuccessAt: hoursAgo(0) }), DEFAULTS, NOW)
+      .status,
+    'ok'
+  );
+
+  // Never succeeded nor found anything: judged from the first run
+  const young = health({
+    firstRunAt: hoursAgo(5),
+    lastSuccessAt: undefined,
+    lastNewItemAt: undefined,
+    lastFailed: true,
+  });
+  assert.equal(assessSourceHealth(young, DEFAULTS, NOW).status, 'ok');
+  assert.equal(
+    assessSourceHealth({ ...young, firstRunAt: hoursAgo(13) }, DEFAULTS, NOW).status,
+    'failing'
+  );
+
+  logger.info('=== Source Health Test Complete ===');
+}
+
+try {
+  testSourceHealth();
+} catch (error) {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+}
@@ -0,0 +1,114 @@
+/**
+ * Newsletter Parsing Test Script
+ *
+ * Reads the mbox fixture in ./fixtures/mail and splits each newsletter
+ * into its items (offline, no database)
+ *
+ * Run with: npx tsx src/scraper/test-newsletter.ts
+ */
+
+import assert from 'assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { isFromSender, parseMailMessage, splitMbox } from './mail-parser.js';
+import { splitNewsletter } from './newsletter-parser.js';
+import { logger } from '../utils/logger.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+function testNewsletters(): void {
+  logger.info('Starting newsletter parsing test');
+
+  const raw = splitMbox(readFileSync(join(__dirname, 'fixtures', 'mail', 'newsletters.mbox')));
+  assert.equal(raw.length, 3);
+  const [headlines, readMore, plainText] = raw.map(parseMailMessage);
+  assert.ok(headlines && readMore && plainText);
+
+  // Multipart/alternative, quoted-printable UTF-8, folded encoded-word subject
+  assert.equal(headlines.messageId, '20260107070211.42@lalettretech.example.com');
+  assert.equal(headlines.subject, 'NVIDIA record, ASML dépasse les attentes');
+  assert.deepEqual(headlines.from, {
+    name: 'La Lettre Tech – Rédaction',
+    address: 'lettre@lalettretech.example.com',
+  });
+  assert.equal(headlines.date, 'Wed, 07 Jan 2026 07:02:11 +0100');
+  assert.match(headlines.text ?? '', /^NVIDIA signe un trimestre record grâce à l’IA/);
+
+  // Headline links: blurb after the link, "Lire la suite" and image links to the same URL,
+  // intro, inline, social and unsubscribe links left out
+  assert.deepEqual(splitNewsletter(headlines), [
+    {
+      url: 'https://www.lalettretech.example.com/articles/nvidia-record?utm_source=newsletter&utm_medium=email',
+      title: 'NVIDIA signe un trimestre record grâce à l’IA',
+      content:
+        'Le chiffre d’affaires bondit de 94 %, selon Reuters, porté par les centres de données.',
+    },
+    {
+      url: 'https://www.lalettretech.example.com/articles/asml-commandes',
+      title: 'ASML : les commandes dépassent les attentes',
+      content:
+        'Le néerlandais profite de la demande en lithographie EUV. Le titre gagne 6 % à Amsterdam.',
+    },
+  ]);
+
+  // Base64 windows-1252 HTML inside multipart/mixed, attachment skipped
+  assert.equal(readMore.subject, 'Sélection de la semaine');
+  assert.deepEqual(readMore.from, {
+    name: 'Analyses Bourse',
+    address: 'analyses@analyses.example.net',
+  });
+  assert.equal(readMore.text, undefined);
+
+  // Heading and blurb closed by a "Lire la suite" tracking link
+  assert.deepEqual(splitNewsletter(readMore), [
+    {
+      url: 'https://click.analyses.example.net/c/1a2b3c',
+      title: 'Capgemini : la marge opérationnelle surprend',
+      content: 'Le groupe relève sa guidance 2026.',
+    },
+    {
+      url: 'https://click.analyses.example.net/c/4d5e6f',
+      title: 'Soitec face au ralentissement automobile',
+      content:
+        'Les volumes de SOI reculent, la direction reste confiante. Objectif de cours abaissé à 85 €.',
+    },
+  ]);
+
+  // Plain text: first line of the paragraph is the title, URL closes the item,
+  // ">From " escape undone
+  assert.equal(plainText.html, undefined);
+  assert.deepEqual(splitNewsletter(plainText), [
+    {
+      url: 'https://www.marches.example.org/dassault-systemes-ca?utm_campaign=brief',
+      title: "Dassault Systèmes publie un chiffre d'affaires conforme",
+      content:
+        'Les revenus logiciels progressent de 7 %. From the trading floor: prudence avant la BCE.',
+    },
+    {
+      url: 'https://www.marches.example.org/atos-restructuration',
+      title: 'Atos finalise sa restructuration financière',
+      content: '',
+    },
+  ]);
+
+  // Sender allow-list: addresses, domains and their subdomains
+  assert.equal(isFromSender(headlines, []), true);
+  assert.equal(isFromSender(headlines, ['lettre@lalettretech.example.com']), true);
+  assert.equal(isFromSender(headlines, ['example.com']), true);
+  assert.equal(isFromSender(readMore, ['@analyses.example.net']), true);
+  assert.equal(
+    isFromSender(plainText, ['lalettretech.example.com', 'analyses.example.net']),
+    false
+  );
+  assert.equal(isFromSender({}, ['example.com']), false);
+
+  logger.info('=== Newsletter Parsing Test Complete ===');
+}
+
+try {
+  testNewsletters();
+} catch (error) {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+}
@@ -0,0 +1,94 @@
+/**
+ * robots.txt Test Script
+ *
+ * Checks robots.txt parsing and path matching against sample files
+ * (offline, no database)
+ *
+ * Run with: npx tsx src/scraper/test-robots.ts
+ */
+
+import assert from 'assert/strict';
+import { parseRobotsTxt, checkPath } from './robots.js';
+import { logger } from '../utils/logger.js';
+
+const ROBOTS_TXT = `
+# Sample news site
+User-agent: *
+Disallow: /recherche
+Disallow: /*.pdf$
+Allow: /recherche/aide
+Crawl-delay: 2
+
+User-agent: Googlebot
+User-agent: TechNewsBot
+Disallow: /abonnes/
+Allow: /abonnes/gratuit/
+Disallow: /*?print=
+Crawl-delay: 5
+
+User-agent: BadBot
+Disallow: /
+`;
+
+interface PathCase {
+  path: string;
+  allowed: boolean;
+}
+
+function testRobots(): void {
+  logger.info('Starting robots.txt test');
+
+  // Our group replaces "*" entirely
+  const ours = parseRobotsTxt(ROBOTS_TXT, 'TechNewsBot');
+  assert.equal(ours.crawlDelayMs, 5000);
+  const ourCases: PathCase[] = [
+    { path: '/actualite/nvidia-123', allowed: true },
+    { path: '/abonnes/analyse-asml', allowed: false },
+    // Longer Allow wins
+    { path: '/abonnes/gratuit/cac40', allowed: true },
+    { path: '/actualite/nvidia-123?print=1', allowed: false },
+    // "*" group rules do not apply to us
+    { path: '/recherche?q=nvidia', allowed: true },
+  ];
+
+  // Any other agent falls back to "*"
+  const others = parseRobotsTxt(ROBOTS_TXT, 'SomeCrawler');
+  assert.equal(others.crawlDelayMs, 2000);
+  const otherCases: PathCase[] = [
+    { path: '/recherche?q=nvidia', allowed: false },
+    { path: '/recherche/aide', allowed: true },
+    { path: '/rapport.pdf', allowed: false },
+    // "$" anchors the end of the URL
+    { path: '/rapport.pdf?v=2', allowed: true },
+    { path: '/robots.txt', allowed: true },
+  ];
+
+  for (const [policy, cases] of [
+    [ours, ourCases],
+    [others, otherCases],
+  ] as const) {
+    for (const { path, allowed } of cases) {
+      assert.equal(
+        checkPath(policy, path).allowed,
+        allowed,
+        `${path} should be ${allowed ? 'allowed' : 'disallowed'}`
+      );
+    }
+  }
+
+  const blocked = checkPath(parseRobotsTxt(ROBOTS_TXT, 'BadBot/2.0'), '/');
+  assert.deepEqual(blocked, { allowed: false, rule: 'Disallow: /' });
+
+  // Empty Disallow and empty files allow everything
+  assert.ok(checkPath(parseRobotsTxt('User-agent: *\nDisallow:\n', 'TechNewsBot'), '/a').allowed);
+  assert.ok(checkPath(parseRobotsTxt('', 'TechNewsBot'), '/a').allowed);
+
+  logger.info('=== robots.txt Test Complete ===');
+}
+
+try {
+  testRobots();
+} catch (error) {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+}
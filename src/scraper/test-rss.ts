@@ -4,7 +4,7 @@
  * Run with: npx tsx src/scraper/test-rss.ts
  */
 
-import { fetchRssFeeds, DEFAULT_FEEDS, saveScrapedArticles } from './rss-fetcher.js';
+import { fetchRssFeeds, loadRssFeeds, saveFeedStates, saveScrapedArticles } from './rss-fetcher.js';
 import { initDatabase, closeDatabase } from '../db/index.js';
 import { getStats } from '../db/queries.js';
 import { logger } from '../utils/logger.js';
@@ -20,7 +20,7 @@ async function testRssFetcher(): Promise<void> {
 
     // Show configured feeds
     logger.info('Configured RSS feeds:');
-    for (const feed of DEFAULT_FEEDS) {
+    for (const feed of await loadRssFeeds()) {
       logger.info({ name: feed.name, url: feed.url, source: feed.source });
     }
 
@@ -57,6 +57,7 @@ async function testRssFetcher(): Promise<void> {
       const saved = await saveScrapedArticles(result.articles);
       logger.info({ saved }, 'Articles saved');
     }
+    await saveFeedStates(result);
 
     // Check database after
     const statsAfter = await getStats();
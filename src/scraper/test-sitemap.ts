@@ -0,0 +1,103 @@
+/**
+ * Sitemap Parsing Test Script
+ *
+ * Parses the recorded fixtures in ./fixtures/sitemaps (offline, no database)
+ *
+ * Run with: npx tsx src/scraper/test-sitemap.ts
+ */
+
+import assert from 'assert/strict';
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseSitemap, selectSitemaps } from './sitemap-parser.js';
+import { logger } from '../utils/logger.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+function readFixture(file: string): string {
+  return readFileSync(join(__dirname, 'fixtures', 'sitemaps', file), 'utf-8');
+}
+
+function testSitemapIndex(): void {
+  const parsed = parseSitemap(readFixture('sitemap-index.xml'));
+
+  assert.equal(parsed.kind, 'index');
+  assert.equal(parsed.entries.length, 0);
+  assert.equal(parsed.sitemaps.length, 4);
+  assert.deepEqual(parsed.sitemaps[2], {
+    url: 'https://www.boursenews.example.com/sitemaps/pages.xml',
+    lastModified: undefined,
+  });
+
+  // Most recent first, undated children last
+  assert.deepEqual(
+    selectSitemaps(parsed.sitemaps, 3).map((s) => s.url.split('/').pop()),
+    ['news.xml', 'articles-2026-01.xml', 'articles-2025-12.xml']
+  );
+  assert.deepEqual(
+    selectSitemaps(parsed.sitemaps, 10).map((s) => s.url.split('/').pop()),
+    ['news.xml', 'articles-2026-01.xml', 'articles-2025-12.xml', 'pages.xml']
+  );
+}
+
+function testNewsSitemap(): void {
+  const parsed = parseSitemap(readFixture('news-sitemap.xml'));
+
+  assert.equal(parsed.kind, 'urlset');
+  assert.equal(parsed.sitemaps.length, 0);
+  assert.equal(parsed.entries.length, 4);
+
+  const [stmicro, capgemini, about, dassault] = parsed.entries;
+
+  // Entities and CDATA decoded, keywords trimmed
+  assert.deepEqual(stmicro, {
+    url: 'https://www.boursenews.example.com/marches/stmicro-releve-ses-objectifs?utm_source=sitemap&id=812',
+    title: 'STMicroelectronics relève ses objectifs & rassure le marché',
+    date: '2026-01-07T14:30:00+01:00',
+    lastModified: '2026-01-07T15:00:00+01:00',
+    keywords: ['STMicroelectronics', 'semi-conducteurs', 'CAC 40'],
+    publicationName: 'Bourse News',
+    language: 'fr',
+    imageUrl: 'https://www.boursenews.example.com/img/stmicro.jpg',
+  });
+
+  assert.equal(capgemini?.title, 'Capgemini finalise une acquisition dans le cloud');
+  assert.equal(capgemini?.date, '2026-01-07');
+  assert.equal(capgemini?.lastModified, undefined);
+  assert.equal(capgemini?.keywords, undefined);
+
+  // Regular sitemap entry: no news fields
+  assert.deepEqual(about, {
+    url: 'https://www.boursenews.example.com/a-propos',
+    lastModified: '2025-06-01',
+  });
+
+  // Namespace prefix chosen by the document, whitespace around <loc>
+  assert.equal(
+    dassault?.url,
+    'https://www.boursenews.example.com/marches/dassault-systemes-chiffre-affaires'
+  );
+  assert.equal(dassault?.title, "Dassault Systèmes : un chiffre d'affaires conforme");
+  assert.equal(dassault?.date, 'mardi 6 janvier 2026');
+  assert.equal(dassault?.publicationName, undefined);
+}
+
+function testInvalidDocuments(): void {
+  assert.throws(
+    () => parseSitemap('<rss version="2.0"><channel></channel></rss>'),
+    /Not a sitemap/
+  );
+  assert.throws(() => parseSitemap(''), /Not a sitemap/);
+}
+
+try {
+  logger.info('Starting sitemap parsing test');
+  testSitemapIndex();
+  testNewsSitemap();
+  testInvalidDocuments();
+  logger.info('=== Sitemap Parsing Test Complete ===');
+} catch (error) {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+}
@@ -2,7 +2,7 @@
  * Scraper Types
  */
 
-import type { Article } from '../types/index.js';
+import type { Article, ArticleSource, FeedState } from '../types/index.js';
 
 /**
  * Raw article data extracted from listing page
@@ -13,21 +13,68 @@ export interface RawArticleListing {
   dateText: string;
 }
 
+/**
+ * When a source should run (Europe/Paris time)
+ * Omitted fields mean "every run"
+ */
+export interface SourceSchedule {
+  /** Hours of the day (0-23) at which the source runs */
+  hours?: number[];
+  /** Days of the week (0 = Sunday ... 6 = Saturday) on which the source runs */
+  weekdays?: number[];
+}
+
+/**
+ * Per-source scraping limits
+ */
+export interface SourceLimits {
+  /** Maximum number of new articles kept per run */
+  maxArticles: number;
+  /** Maximum number of listing pages walked per run (paginated sources only) */
+  maxPages?: number;
+}
+
+/**
+ * Options passed to a scraper for a single run
+ */
+export interface ScrapeOptions {
+  /** Global cap applied on top of the source's own limits */
+  maxArticles?: number;
+  /** Articles will not be saved: sources must not persist fetch state */
+  dryRun?: boolean;
+}
+
 /**
  * Scraper interface for different sources
+ *
+ * Every article source (RSS feed, Zone Bourse listing, future adapters)
+ * implements this contract and is registered in scraper/registry.ts
  */
 export interface Scraper {
-  /**
-   * Scrape articles from the source
-   * @param maxPages Maximum number of pages to scrape
-   * @returns Array of scraped articles
-   */
-  scrape(maxPages?: number): Promise<Article[]>;
+  /** Unique name used in logs and the registry */
+  readonly name: string;
+
+  /** Source tag stored on every article produced by this scraper */
+  readonly source: ArticleSource;
+
+  /** Disabled scrapers stay registered but are not run by the pipeline */
+  readonly enabled: boolean;
+
+  /** Fallback scrapers only run when primary sources fail or go stale */
+  readonly fallback?: boolean;
+
+  /** When the scraper should run (defaults to every run) */
+  readonly schedule?: SourceSchedule;
+
+  /** Scraping limits for this source */
+  readonly limits: SourceLimits;
 
   /**
-   * Get the source identifier
+   * Scrape new articles from the source
+   * @param options Run options (global caps)
+   * @returns Scrape result with the new articles
    */
-  getSource(): string;
+  scrape(options?: ScrapeOptions): Promise<ScrapeResult>;
 }
 
 /**
@@ -40,4 +87,8 @@ export interface ScrapeResult {
   totalFound: number;
   newArticles: number;
   errors: number;
+  /** Items listed by the source, known ones included (feed entries), when it reports them */
+  itemsSeen?: number;
+  /** Feed validators to persist once the articles are saved (see saveFeedStates) */
+  feedStates?: Array<Omit<FeedState, 'lastFetchedAt'>>;
 }
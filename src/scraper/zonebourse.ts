@@ -13,16 +13,50 @@ import {
   closeBrowser,
   waitForRateLimit,
 } from './browser.js';
+import { handleConsent } from './consent.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
-import { generateArticleId, articleExistsByUrl, insertArticle, logProcessing } from '../db/queries.js';
+import { canonicalizeUrl } from '../utils/url.js';
+import { parseFrenchDate } from '../utils/date.js';
+import {
+  generateArticleId,
+  articleExists,
+  articleExistsByUrl,
+  insertArticle,
+  logProcessing,
+} from '../db/queries.js';
 import type { Article } from '../types/index.js';
-import type { RawArticleListing, ScrapeResult } from './types.js';
+import type {
+  RawArticleListing,
+  Scraper,
+  ScrapeResult,
+  SourceLimits,
+  SourceSchedule,
+} from './types.js';
+
+/**
+ * Zone Bourse listing section
+ */
+export type ZoneBourseSection = 'economie' | 'societes' | 'all';
+
+/**
+ * Get the listing URL of a section page (1-based)
+ */
+export function getListingPageUrl(section: ZoneBourseSection, pageNum: number): string {
+  const baseUrl =
+    section === 'all'
+      ? config.scraper.zoneBourseUrl
+      : section === 'economie'
+        ? config.scraper.zoneBourseEconomieUrl
+        : `${config.scraper.zoneBourseUrl}${section}/`;
+
+  return pageNum === 1 ? baseUrl : `${baseUrl}?p=${pageNum}`;
+}
 
 /**
  * Extract article listings from a Zone Bourse page
  */
-async function extractArticleListings(page: Page): Promise<RawArticleListing[]> {
+export async function extractArticleListings(page: Page): Promise<RawArticleListing[]> {
   return page.evaluate((): Array<{ title: string; url: string; dateText: string }> => {
     const articles: Array<{ title: string; url: string; dateText: string }> = [];
 
@@ -96,50 +130,28 @@ async function extractArticleListings(page: Page): Promise<RawArticleListing[]>
 }
 
 /**
- * Parse date text to Date object
+ * Map a listing entry to an article (content is extracted later)
  */
-function parseDate(dateText: string): Date {
-  if (!dateText) {
-    return new Date();
-  }
-
-  // Try ISO format first
-  const isoDate = new Date(dateText);
-  if (!isNaN(isoDate.getTime())) {
-    return isoDate;
-  }
-
-  // Try French format "07/01/2026 14:30"
-  const frenchMatch = dateText.match(/(\d{2})\/(\d{2})\/(\d{4})\s*(\d{2})?:?(\d{2})?/);
-  if (frenchMatch) {
-    const [, day, month, year, hour = '0', minute = '0'] = frenchMatch;
-    return new Date(
-      parseInt(year!),
-      parseInt(month!) - 1,
-      parseInt(day!),
-      parseInt(hour),
-      parseInt(minute)
+export function listingToArticle(listing: RawArticleListing): Article {
+  const url = canonicalizeUrl(listing.url);
+  const publishedAt = parseFrenchDate(listing.dateText);
+  if (!publishedAt) {
+    logger.warn(
+      { url, dateText: listing.dateText },
+      'Unparseable listing date, flagged as unknown'
     );
   }
 
-  // Try relative format "Il y a X heures"
-  const relativeMatch = dateText.match(/(\d+)\s*(heure|minute|jour)/i);
-  if (relativeMatch) {
-    const [, amount, unit] = relativeMatch;
-    const now = new Date();
-    const value = parseInt(amount!);
-
-    if (unit?.includes('minute')) {
-      now.setMinutes(now.getMinutes() - value);
-    } else if (unit?.includes('heure')) {
-      now.setHours(now.getHours() - value);
-    } else if (unit?.includes('jour')) {
-      now.setDate(now.getDate() - value);
-    }
-    return now;
-  }
-
-  return new Date();
+  return {
+    id: generateArticleId(url),
+    title: listing.title,
+    url,
+    content: '', // Filled by the content extractor
+    publishedAt: publishedAt ?? new Date(),
+    publishedAtUnknown: publishedAt ? undefined : true,
+    source: 'zonebourse',
+    createdAt: new Date(),
+  };
 }
 
 /**
@@ -147,7 +159,7 @@ function parseDate(dateText: string): Date {
  */
 export async function scrapeZoneBourse(options: {
   maxPages?: number;
-  section?: 'economie' | 'societes' | 'all';
+  section?: ZoneBourseSection;
 } = {}): Promise<ScrapeResult> {
   const { maxPages = 2, section = 'economie' } = options;
 
@@ -167,22 +179,15 @@ export async function scrapeZoneBourse(options: {
     await initBrowser({ headless: true });
     const page = await createPage();
 
-    // Determine URL based on section
-    const baseUrl =
-      section === 'all'
-        ? config.scraper.zoneBourseUrl
-        : section === 'economie'
-          ? config.scraper.zoneBourseEconomieUrl
-          : `${config.scraper.zoneBourseUrl}${section}/`;
-
     for (let pageNum = 1; pageNum <= maxPages; pageNum++) {
       try {
-        const url = pageNum === 1 ? baseUrl : `${baseUrl}?p=${pageNum}`;
+        const url = getListingPageUrl(section, pageNum);
 
         logger.info({ url, page: pageNum }, 'Scraping page');
 
         await navigateTo(page, url, { waitUntil: 'domcontentloaded' });
         await page.waitForTimeout(2000); // Wait for dynamic content
+        await handleConsent(page, url);
 
         const listings = await extractArticleListings(page);
         result.totalFound += listings.length;
@@ -193,29 +198,21 @@ export async function scrapeZoneBourse(options: {
         // Process each article
         for (const listing of listings) {
           try {
+            const article = listingToArticle(listing);
+
             // Check if already exists
-            if (await articleExistsByUrl(listing.url)) {
-              logger.debug({ url: listing.url }, 'Article already exists, skipping');
+            if (await articleExistsByUrl(article.url)) {
+              logger.debug({ url: article.url }, 'Article already exists, skipping');
               continue;
             }
 
-            const publishedAt = parseDate(listing.dateText);
-            const id = generateArticleId(listing.title, publishedAt);
-
-            const article: Article = {
-              id,
-              title: listing.title,
-              url: listing.url,
-              content: '', // Will be filled in Story 2.3
-              publishedAt,
-              source: 'zonebourse',
-              createdAt: new Date(),
-            };
-
             result.articles.push(article);
             result.newArticles++;
 
-            logger.debug({ id, title: listing.title.slice(0, 50) }, 'New article found');
+            logger.debug(
+              { id: article.id, title: listing.title.slice(0, 50) },
+              'New article found'
+            );
           } catch (error) {
             logger.error({ error, listing }, 'Error processing article listing');
             result.errors++;
@@ -256,15 +253,49 @@ export async function scrapeZoneBourse(options: {
   return result;
 }
 
+/**
+ * Create a registry scraper for a Zone Bourse listing section
+ */
+export function createZoneBourseScraper(
+  section: ZoneBourseSection,
+  options: {
+    enabled?: boolean;
+    fallback?: boolean;
+    limits?: SourceLimits;
+    schedule?: SourceSchedule;
+  } = {}
+): Scraper {
+  const limits = options.limits ?? { maxArticles: 50, maxPages: 2 };
+
+  return {
+    name: `Zone Bourse - ${section}`,
+    source: 'zonebourse',
+    enabled: options.enabled ?? true,
+    fallback: options.fallback,
+    schedule: options.schedule,
+    limits,
+    scrape: async (scrapeOptions = {}): Promise<ScrapeResult> => {
+      const result = await scrapeZoneBourse({ maxPages: limits.maxPages, section });
+      const maxArticles = Math.min(
+        limits.maxArticles,
+        scrapeOptions.maxArticles ?? limits.maxArticles
+      );
+      const articles = result.articles.slice(0, maxArticles);
+      return { ...result, articles, newArticles: articles.length };
+    },
+  };
+}
+
 /**
  * Save scraped articles to database
+ * Articles known by URL or by ID (e.g. the http variant of a stored https URL) are skipped
  */
 export async function saveScrapedArticles(articles: Article[]): Promise<number> {
   let saved = 0;
 
   for (const article of articles) {
     try {
-      if (!(await articleExistsByUrl(article.url))) {
+      if (!(await articleExistsByUrl(article.url)) && !(await articleExists(article.id))) {
         await insertArticle(article);
         await logProcessing(article.id, 'scraped', 'success');
         saved++;
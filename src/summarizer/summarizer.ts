@@ -8,6 +8,7 @@ import OpenAI from 'openai';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { withRetry } from '../utils/retry.js';
+import { PARIS_TIME_ZONE } from '../utils/date.js';
 import { upsertSummary, logProcessing } from '../db/queries.js';
 import type { Article, ArticleSummary } from '../types/index.js';
 
@@ -76,7 +77,7 @@ Contenu:
 ${article.content.slice(0, 3000)}
 
 Source: ${article.source}
-Date: ${article.publishedAt.toLocaleDateString('fr-FR')}`;
+Date: ${article.publishedAtUnknown ? 'inconnue' : article.publishedAt.toLocaleDateString('fr-FR', { timeZone: PARIS_TIME_ZONE })}`;
 
   logger.debug({ articleId: article.id, title: article.title.slice(0, 50) }, 'Generating summary');
 
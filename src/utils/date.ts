@@ -0,0 +1,383 @@
+/**
+ * Date Parsing
+ *
+ * Parses the publication dates found in feeds and French news pages:
+ * ISO 8601, RFC 822, "07/01/2026 14:30", "7 janvier 2026 à 14h30",
+ * "7 janv.", "hier à 18h", "aujourd'hui", "il y a 3 heures".
+ * Times without an explicit offset are Europe/Paris wall-clock times,
+ * whatever the server's timezone.
+ */
+
+export const PARIS_TIME_ZONE = 'Europe/Paris';
+
+/**
+ * Calendar fields of a date in Europe/Paris time (month 1-12)
+ */
+export interface ParisDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Month name prefixes, accents removed (French, and English for feeds)
+ */
+const MONTH_PREFIXES: Array<[string, number]> = [
+  ['janv', 1],
+  ['jan', 1],
+  ['fev', 2],
+  ['feb', 2],
+  ['mar', 3],
+  ['avr', 4],
+  ['apr', 4],
+  ['mai', 5],
+  ['may', 5],
+  ['juin', 6],
+  ['jun', 6],
+  ['juil', 7],
+  ['jul', 7],
+  ['aou', 8],
+  ['aug', 8],
+  ['sep', 9],
+  ['oct', 10],
+  ['nov', 11],
+  ['dec', 12],
+];
+
+/**
+ * Relative units ("il y a 3 h", "il y a 2 jours") in milliseconds
+ */
+const RELATIVE_UNITS: Array<[RegExp, number]> = [
+  [/^(s|sec|secondes?)$/, 1000],
+  [/^(min|mins|minutes?|mn)$/, 60 * 1000],
+  [/^(h|hr|heures?)$/, 60 * 60 * 1000],
+  [/^(j|jours?)$/, 24 * 60 * 60 * 1000],
+  [/^(sem|semaines?)$/, 7 * 24 * 60 * 60 * 1000],
+  [/^mois$/, 30 * 24 * 60 * 60 * 1000],
+];
+
+/**
+ * Explicit UTC offset or zone name: the string carries its own timezone
+ */
+const EXPLICIT_ZONE = /(\b(gmt|utc|ut|[ecmp][sd]t)\b|[+-]\d{2}:?\d{2}$|\dz$)/;
+
+const parisFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: PARIS_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+});
+
+/**
+ * Get the calendar fields of a date in Europe/Paris time
+ */
+export function getParisDateParts(date: Date): ParisDateParts {
+  const parts = parisFormatter.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find((p) => p.type === type)?.value ?? '0', 10);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Calendar day of a date in Europe/Paris time (YYYY-MM-DD)
+ */
+export function formatParisDate(date: Date): string {
+  const { year, month, day } = getParisDateParts(date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Offset of Europe/Paris from UTC at an instant, in milliseconds
+ */
+function getParisOffsetMs(time: number): number {
+  const p = getParisDateParts(new Date(time));
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClock - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Build the instant of a Europe/Paris wall-clock time (month 1-12)
+ * Returns null for impossible dates (31/02, 25h)
+ */
+export function fromParisTime(
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+  second = 0
+): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) {
+    return null;
+  }
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  // The offset at the guess can differ from the offset at the result around DST changes
+  let time = wallClock - getParisOffsetMs(wallClock);
+  time = wallClock - getParisOffsetMs(time);
+
+  const check = new Date(wallClock);
+  if (check.getUTCDate() !== day || check.getUTCMonth() !== month - 1) {
+    return null;
+  }
+  return new Date(time);
+}
+
+/**
+ * Midnight (Europe/Paris) of the day `offsetDays` away from a date
+ * Calendar arithmetic, a day is not always 24 hours around DST changes
+ */
+function parisDay(date: Date, offsetDays: number): ParisDateParts {
+  const { year, month, day } = getParisDateParts(date);
+  const shifted = new Date(Date.UTC(year, month - 1, day + offsetDays));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: 0,
+    minute: 0,
+    second: 0,
+  };
+}
+
+/**
+ * Month number of a month name or abbreviation ("janvier", "févr.", "Aug")
+ */
+function parseMonthName(name: string): number | null {
+  if (name.length < 3) {
+    return null;
+  }
+  for (const [prefix, month] of MONTH_PREFIXES) {
+    if (name.startsWith(prefix)) {
+      return month;
+    }
+  }
+  return null;
+}
+
+/**
+ * Time of day in a string ("14h30", "14 h", "14:30:05"), if any
+ */
+function parseTimeOfDay(text: string): { hour: number; minute: number; second: number } | null {
+  const match = text.match(/(?:^|[^\d/.-])(\d{1,2})\s*(?:h|:)\s*(\d{2})?(?::(\d{2}))?(?!\d)/);
+  if (!match) {
+    return null;
+  }
+  return {
+    hour: parseInt(match[1]!, 10),
+    minute: parseInt(match[2] ?? '0', 10),
+    second: parseInt(match[3] ?? '0', 10),
+  };
+}
+
+/**
+ * Year for a day and month given without one: the latest occurrence not in the future
+ */
+function inferYear(month: number, day: number, now: Date): number {
+  const today = getParisDateParts(now);
+  const isFuture = month > today.month || (month === today.month && day > today.day);
+  return isFuture ? today.year - 1 : today.year;
+}
+
+/**
+ * Lowercase, strip accents, unify apostrophes and whitespace
+ */
+function normalizeDateText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[’`]/g, "'")
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * "il y a 3 heures", "à l'instant"
+ */
+function parseRelative(text: string, now: Date): Date | null {
+  if (/^(a l'instant|maintenant|just now)$/.test(text)) {
+    return new Date(now);
+  }
+
+  const match = text.match(/il y a (\d+|une?|quelques) ?([a-z]+)/);
+  if (!match) {
+    return null;
+  }
+
+  const [, amountText, unitText] = match;
+  const amount = /^\d+$/.test(amountText!) ? parseInt(amountText!, 10) : 1;
+  const unit = RELATIVE_UNITS.find(([pattern]) => pattern.test(unitText!));
+  return unit ? new Date(now.getTime() - amount * unit[1]) : null;
+}
+
+/**
+ * "hier", "aujourd'hui à 14h30", "avant-hier", or a bare "14:30" (today)
+ */
+function parseDayWord(text: string, now: Date): Date | null {
+  const time = parseTimeOfDay(text);
+  let offsetDays: number;
+
+  if (/\bavant-hier\b/.test(text)) {
+    offsetDays = -2;
+  } else if (/\bhier\b/.test(text)) {
+    offsetDays = -1;
+  } else if (/\baujourd'hui\b/.test(text)) {
+    offsetDays = 0;
+  } else if (time && /^(a )?\d{1,2} ?(h|:) ?\d{0,2}(:\d{2})?$/.test(text)) {
+    offsetDays = 0;
+  } else {
+    return null;
+  }
+
+  const day = parisDay(now, offsetDays);
+  const date = fromParisTime(day.year, day.month, day.day, time?.hour, time?.minute, time?.second);
+
+  // A bare time later than now is yesterday's (listings drop the date after midnight)
+  if (date && offsetDays === 0 && !/aujourd'hui/.test(text) && date > now) {
+    const yesterday = parisDay(now, -1);
+    return fromParisTime(
+      yesterday.year,
+      yesterday.month,
+      yesterday.day,
+      time?.hour,
+      time?.minute,
+      time?.second
+    );
+  }
+  return date;
+}
+
+/**
+ * "07/01/2026 14:30", "07.01.26", "07/01 à 9h"
+ */
+function parseNumeric(text: string, now: Date): Date | null {
+  const match = text.match(/(?:^|\D)(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{4}|\d{2}))?(?!\d)/);
+  if (!match) {
+    return null;
+  }
+
+  const day = parseInt(match[1]!, 10);
+  const month = parseInt(match[2]!, 10);
+  let year = match[3] ? parseInt(match[3], 10) : inferYear(month, day, now);
+  if (year < 100) {
+    year += 2000;
+  }
+
+  const time = parseTimeOfDay(text.slice((match.index ?? 0) + match[0].length));
+  return fromParisTime(year, month, day, time?.hour, time?.minute, time?.second);
+}
+
+/**
+ * "7 janvier 2026 à 14h30", "mardi 1er avr. 2025", "7 janv."
+ */
+function parseTextual(text: string, now: Date): Date | null {
+  const match = text.match(/(?:^|\D)(\d{1,2})(?:er)? ([a-z]+)\.?(?: (\d{4}))?/);
+  if (!match) {
+    return null;
+  }
+
+  const month = parseMonthName(match[2]!);
+  if (!month) {
+    return null;
+  }
+
+  const day = parseInt(match[1]!, 10);
+  const year = match[3] ? parseInt(match[3], 10) : inferYear(month, day, now);
+  const time = parseTimeOfDay(text.slice((match.index ?? 0) + match[0].length));
+  return fromParisTime(year, month, day, time?.hour, time?.minute, time?.second);
+}
+
+/**
+ * "2026-01-07", "2026-01-07T14:30:00" (Paris time) or "2026-01-07T13:30:00Z"
+ */
+function parseIso(text: string, original: string): Date | null {
+  const match = text.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?( ?(z|[+-]\d{2}:?\d{2}))?$/
+  );
+  if (!match) {
+    return null;
+  }
+
+  if (match[7]) {
+    const date = new Date(original.trim());
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return fromParisTime(
+    parseInt(year!, 10),
+    parseInt(month!, 10),
+    parseInt(day!, 10),
+    parseInt(hour, 10),
+    parseInt(minute, 10),
+    parseInt(second, 10)
+  );
+}
+
+/**
+ * Parse a publication date
+ * Returns null when the text holds no recognisable date: callers must flag
+ * the article rather than default to the current time
+ */
+export function parseFrenchDate(text: string | undefined, now: Date = new Date()): Date | null {
+  if (!text) {
+    return null;
+  }
+
+  const normalized = normalizeDateText(text);
+  if (!normalized) {
+    return null;
+  }
+
+  const iso = parseIso(normalized, text);
+  if (iso) {
+    return iso;
+  }
+
+  // RFC 822 and other strings with their own offset ("Tue, 07 Jan 2026 13:30:00 GMT")
+  if (EXPLICIT_ZONE.test(normalized)) {
+    const date = new Date(text.trim());
+    if (!isNaN(date.getTime())) {
+      return date;
+    }
+  }
+
+  const parsed =
+    parseRelative(normalized, now) ??
+    parseDayWord(normalized, now) ??
+    parseNumeric(normalized, now) ??
+    parseTextual(normalized, now);
+  if (parsed) {
+    return parsed;
+  }
+
+  // Last resort for other English formats; its fields are read as Paris time
+  const fallback = new Date(text.trim());
+  if (isNaN(fallback.getTime())) {
+    return null;
+  }
+  return fromParisTime(
+    fallback.getFullYear(),
+    fallback.getMonth() + 1,
+    fallback.getDate(),
+    fallback.getHours(),
+    fallback.getMinutes(),
+    fallback.getSeconds()
+  );
+}
@@ -29,3 +29,64 @@ export class RateLimiter {
     return fn();
   }
 }
+
+interface HostState {
+  active: number;
+  nextStartAt: number;
+  waiters: Array<() => void>;
+}
+
+/**
+ * Per-host concurrency and politeness limiter for crawling
+ * At most maxPerHost requests run at once on a host, starts spaced by minIntervalMs
+ */
+export class HostLimiter {
+  private readonly hosts = new Map<string, HostState>();
+
+  constructor(
+    private readonly maxPerHost: number,
+    private readonly minIntervalMs: number
+  ) {}
+
+  private getState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextStartAt: 0, waiters: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  async acquire(host: string): Promise<void> {
+    const state = this.getState(host);
+
+    while (state.active >= this.maxPerHost) {
+      await new Promise<void>((resolve) => state.waiters.push(resolve));
+    }
+    state.active++;
+
+    // Reserve the next start time before sleeping so concurrent callers queue behind it
+    const now = Date.now();
+    const waitTime = Math.max(0, state.nextStartAt - now);
+    state.nextStartAt = Math.max(now, state.nextStartAt) + this.minIntervalMs;
+
+    if (waitTime > 0) {
+      await sleep(waitTime);
+    }
+  }
+
+  release(host: string): void {
+    const state = this.getState(host);
+    state.active = Math.max(0, state.active - 1);
+    state.waiters.shift()?.();
+  }
+
+  async execute<T>(host: string, fn: () => Promise<T>): Promise<T> {
+    await this.acquire(host);
+    try {
+      return await fn();
+    } finally {
+      this.release(host);
+    }
+  }
+}
@@ -16,7 +16,7 @@ export async function withRetry<T>(
   fn: () => Promise<T>,
   config: Partial<RetryConfig> = {}
 ): Promise<T> {
-  const { maxAttempts, initialDelayMs, maxDelayMs, factor } = {
+  const { maxAttempts, initialDelayMs, maxDelayMs, factor, isRetryable } = {
     ...DEFAULT_RETRY_CONFIG,
     ...config,
   };
@@ -34,6 +34,9 @@ export async function withRetry<T>(
         logger.error({ error: lastError, attempt, maxAttempts }, 'All retry attempts exhausted');
         throw lastError;
       }
+      if (isRetryable && !isRetryable(lastError)) {
+        throw lastError;
+      }
 
       logger.warn(
         { error: lastError.message, attempt, maxAttempts, nextDelayMs: delay },
@@ -48,6 +51,14 @@ export async function withRetry<T>(
   throw lastError;
 }
 
+/**
+ * Backoff delay after a given failed attempt (1-based)
+ */
+export function getBackoffDelay(attempt: number, config: Partial<RetryConfig> = {}): number {
+  const { initialDelayMs, maxDelayMs, factor } = { ...DEFAULT_RETRY_CONFIG, ...config };
+  return Math.min(initialDelayMs * Math.pow(factor, attempt - 1), maxDelayMs);
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,104 @@
+/**
+ * Date Parsing Test Script
+ *
+ * Checks French, relative, numeric, ISO and RFC 822 dates against a fixed
+ * "now"; results must not depend on the server timezone (run with TZ=UTC
+ * and TZ=America/New_York)
+ *
+ * Run with: npx tsx src/utils/test-date.ts
+ */
+
+import assert from 'assert/strict';
+import { parseFrenchDate, getParisDateParts } from './date.js';
+import { logger } from './logger.js';
+
+// Thursday 8 January 2026, 11:00 in Paris (UTC+1)
+const NOW = new Date('2026-01-08T10:00:00Z');
+
+const CASES: Array<[string, string]> = [
+  ['7 janvier 2026 à 14h30', '2026-01-07T13:30:00.000Z'],
+  ['Mercredi 7 Janvier 2026 - 14:30', '2026-01-07T13:30:00.000Z'],
+  ['7 janv. 2026 14h30', '2026-01-07T13:30:00.000Z'],
+  ['07/01/2026 14:30', '2026-01-07T13:30:00.000Z'],
+  ['07.01.26', '2026-01-06T23:00:00.000Z'],
+  // Summer time (UTC+2)
+  ['15 juillet 2025 à 8h', '2025-07-15T06:00:00.000Z'],
+  ['1er août 2025', '2025-07-31T22:00:00.000Z'],
+  // No year: latest occurrence not in the future
+  ['7 déc.', '2025-12-06T23:00:00.000Z'],
+  ['05/01 à 9h05', '2026-01-05T08:05:00.000Z'],
+  ['hier à 14h30', '2026-01-07T13:30:00.000Z'],
+  ['Hier', '2026-01-06T23:00:00.000Z'],
+  ['avant-hier à 18h', '2026-01-06T17:00:00.000Z'],
+  ["aujourd'hui", '2026-01-07T23:00:00.000Z'],
+  ['Aujourd’hui à 09h15', '2026-01-08T08:15:00.000Z'],
+  // A bare time is today, or yesterday if still to come
+  ['09:30', '2026-01-08T08:30:00.000Z'],
+  ['15:45', '2026-01-07T14:45:00.000Z'],
+  ['Il y a 3 heures', '2026-01-08T07:00:00.000Z'],
+  ['il y a une minute', '2026-01-08T09:59:00.000Z'],
+  ['il y a 2 jours', '2026-01-06T10:00:00.000Z'],
+  ["À l'instant", '2026-01-08T10:00:00.000Z'],
+  // ISO without offset is Paris time
+  ['2026-01-07', '2026-01-06T23:00:00.000Z'],
+  ['2026-01-07T14:30:00', '2026-01-07T13:30:00.000Z'],
+  ['2026-01-07T14:30:00+02:00', '2026-01-07T12:30:00.000Z'],
+  ['2026-01-07T13:30:00.000Z', '2026-01-07T13:30:00.000Z'],
+  ['Wed, 07 Jan 2026 13:30:00 GMT', '2026-01-07T13:30:00.000Z'],
+  ['Wed, 07 Jan 2026 14:30:00 +0100', '2026-01-07T13:30:00.000Z'],
+];
+
+// [now, text, expected]: calendar days around DST changes are 23 or 25 hours long
+const DST_CASES: Array<[string, string, string]> = [
+  // 30 March 2026, 00:30 in Paris (UTC+2), the day after the change
+  ['2026-03-29T22:30:00Z', 'hier', '2026-03-28T23:00:00.000Z'],
+  ['2026-03-29T22:30:00Z', 'avant-hier à 12h', '2026-03-28T11:00:00.000Z'],
+  // 29 March 2026, 10:00 in Paris (UTC+2): a later bare time is on the 28th (UTC+1)
+  ['2026-03-29T08:00:00Z', '11:00', '2026-03-28T10:00:00.000Z'],
+  // 25 October 2026, 23:30 in Paris (UTC+1), the day of the change
+  ['2026-10-25T22:30:00Z', 'hier', '2026-10-23T22:00:00.000Z'],
+  ['2026-10-25T22:30:00Z', "aujourd'hui", '2026-10-24T22:00:00.000Z'],
+];
+
+const UNPARSEABLE = [undefined, '', '   ', 'bientôt', 'Publié par la rédaction', '31/02/2026'];
+
+function testDateParsing(): void {
+  logger.info('Starting date parsing test');
+
+  for (const [text, expected] of CASES) {
+    assert.equal(parseFrenchDate(text, NOW)?.toISOString(), expected, text);
+  }
+
+  for (const [now, text, expected] of DST_CASES) {
+    assert.equal(
+      parseFrenchDate(text, new Date(now))?.toISOString(),
+      expected,
+      `${text} at ${now}`
+    );
+  }
+
+  for (const text of UNPARSEABLE) {
+    assert.equal(parseFrenchDate(text, NOW), null, `"${text}" should not parse`);
+  }
+
+  assert.deepEqual(getParisDateParts(NOW), {
+    year: 2026,
+    month: 1,
+    day: 8,
+    hour: 11,
+    minute: 0,
+    second: 0,
+  });
+
+  logger.info(
+    { cases: CASES.length + DST_CASES.length + UNPARSEABLE.length },
+    '=== Date Parsing Test Complete ==='
+  );
+}
+
+try {
+  testDateParsing();
+} catch (error) {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+}
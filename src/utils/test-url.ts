@@ -0,0 +1,82 @@
+/**
+ * URL Canonicalisation Test Script
+ *
+ * Checks the canonical URL (fetched, stored) and the URL identity
+ * article IDs are derived from
+ *
+ * Run with: npx tsx src/utils/test-url.ts
+ */
+
+import assert from 'assert/strict';
+import { canonicalizeUrl, getUrlIdentity, resolveCanonicalLink } from './url.js';
+import { logger } from './logger.js';
+
+// [input, canonical URL, identity]
+const CASES: Array<[string, string, string]> = [
+  // Scheme is kept, only the identity folds http into https
+  ['http://www.example.com/a', 'http://www.example.com/a', 'https://www.example.com/a'],
+  ['https://www.example.com/a', 'https://www.example.com/a', 'https://www.example.com/a'],
+  // Default ports dropped, other ports kept (and keep their scheme in the identity)
+  ['http://example.com:80/a', 'http://example.com/a', 'https://example.com/a'],
+  ['https://example.com:443/a', 'https://example.com/a', 'https://example.com/a'],
+  ['http://example.com:8080/a', 'http://example.com:8080/a', 'http://example.com:8080/a'],
+  ['https://example.com:8443/a', 'https://example.com:8443/a', 'https://example.com:8443/a'],
+  ['http://example.com:443/a', 'http://example.com:443/a', 'http://example.com:443/a'],
+  // Host lowercased, path case kept
+  ['https://WWW.Example.COM/Path', 'https://www.example.com/Path', 'https://www.example.com/Path'],
+  // Tracking parameters dropped, the others sorted
+  [
+    'https://example.com/a?utm_source=rss&id=2&xtor=RSS-1&fbclid=x&b=1',
+    'https://example.com/a?b=1&id=2',
+    'https://example.com/a?b=1&id=2',
+  ],
+  ['https://example.com/a?utm_medium=email', 'https://example.com/a', 'https://example.com/a'],
+  [
+    'https://example.com/a?mc_cid=1&mc_eid=2&gclid=3&ref=home&at_medium=x',
+    'https://example.com/a',
+    'https://example.com/a',
+  ],
+  // Fragments dropped, Xiti markers included
+  ['https://example.com/a#xtor=RSS-1', 'https://example.com/a', 'https://example.com/a'],
+  [
+    'https://example.com/a?id=1#comments',
+    'https://example.com/a?id=1',
+    'https://example.com/a?id=1',
+  ],
+  // Unparseable URLs are only trimmed
+  ['  not a url  ', 'not a url', 'not a url'],
+];
+
+function testUrls(): void {
+  logger.info('Starting URL canonicalisation test');
+
+  for (const [input, canonical, identity] of CASES) {
+    assert.equal(canonicalizeUrl(input), canonical, `canonical URL of ${input}`);
+    assert.equal(getUrlIdentity(input), identity, `identity of ${input}`);
+    // Idempotent
+    assert.equal(canonicalizeUrl(canonical), canonical);
+    assert.equal(getUrlIdentity(identity), identity);
+  }
+
+  // http and https variants share an identity, so an article ID
+  assert.equal(
+    getUrlIdentity('http://example.com/a?utm_source=x'),
+    getUrlIdentity('https://example.com:443/a#top')
+  );
+
+  // Canonical links resolve against the page, non-http(s) links are ignored
+  assert.equal(
+    resolveCanonicalLink('/a?utm_source=x', 'http://example.com:8080/b'),
+    'http://example.com:8080/a'
+  );
+  assert.equal(resolveCanonicalLink('mailto:news@example.com', 'https://example.com/'), undefined);
+
+  logger.info({ cases: CASES.length }, '=== URL Canonicalisation Test Complete ===');
+}
+
+try {
+  testUrls();
+} catch (error) {
+  logger.fatal({ error }, 'Test failed');
+  process.exit(1);
+}
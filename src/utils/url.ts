@@ -0,0 +1,113 @@
+/**
+ * URL canonicalisation
+ *
+ * Gives every article a single URL whatever link it was found through.
+ * The canonical URL is fetched; article IDs are derived from its identity,
+ * which also folds http into https (see generateArticleId)
+ */
+
+/**
+ * Query parameters that only track the visit
+ */
+const TRACKING_PARAM_PATTERNS = [
+  /^utm_/i,
+  /^xtor$/i,
+  /^xts$/i,
+  /^at_/i,
+  /^fbclid$/i,
+  /^gclid$/i,
+  /^mc_(cid|eid)$/i,
+  /^ref$/i,
+  /^cmp$/i,
+];
+
+/**
+ * Canonicalise a URL
+ * Lowercase host, no default port, no fragment, no tracking parameters
+ * and remaining parameters sorted. Scheme and other ports are kept.
+ * Unparseable URLs are returned trimmed.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  // URL already drops the port when it is the scheme's default
+  parsed.hostname = parsed.hostname.toLowerCase();
+  // Also drops Xiti markers passed in the fragment ("#xtor=RSS-1")
+  parsed.hash = '';
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAM_PATTERNS.some((pattern) => pattern.test(key)))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  return parsed.toString();
+}
+
+/**
+ * Get the identity of an article URL, the canonical URL with http folded into https
+ * Only used to derive IDs: http-only hosts are still fetched over http
+ */
+export function getUrlIdentity(url: string): string {
+  const canonical = canonicalizeUrl(url);
+  let parsed: URL;
+  try {
+    parsed = new URL(canonical);
+  } catch {
+    return canonical;
+  }
+
+  // An explicit port belongs to its scheme: http://host:8080 is not https://host:8080
+  if (parsed.protocol === 'http:' && parsed.port === '') {
+    parsed.protocol = 'https:';
+  }
+  return parsed.toString();
+}
+
+/**
+ * Resolve a possibly relative link against the page URL
+ * Returns undefined for links that are not http(s)
+ */
+export function resolveHttpUrl(href: string, pageUrl: string): string | undefined {
+  try {
+    const resolved = new URL(href, pageUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:'
+      ? resolved.toString()
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a possibly relative canonical link against the page URL
+ * Returns undefined for links that are not http(s)
+ */
+export function resolveCanonicalLink(href: string, pageUrl: string): string | undefined {
+  const resolved = resolveHttpUrl(href, pageUrl);
+  return resolved ? canonicalizeUrl(resolved) : undefined;
+}
+
+/**
+ * Get the entry of a domain-keyed table that applies to a URL
+ * Keys are registrable domains and also match their subdomains
+ */
+export function findDomainEntry<T>(entries: Record<string, T>, url: string): T | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+
+  for (const [domain, entry] of Object.entries(entries)) {
+    if (hostname === domain || hostname.endsWith(`.${domain}`)) {
+      return entry;
+    }
+  }
+  return undefined;
+}